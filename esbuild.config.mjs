@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import { builtinModules } from 'node:module';
+import path from "path";
 
 const banner =
 `/*
@@ -11,6 +12,34 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Bundles `import source from "./file?worker"` as a standalone script and
+// inlines it as a string, so workers can be started from a blob URL
+const inlineWorker = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /\?worker$/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.replace(/\?worker$/, ".ts")),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				target: "es2018",
+				minify: prod,
+			});
+			return {
+				contents: result.outputFiles[0].text,
+				loader: "text",
+				watchFiles: Object.keys(result.metafile.inputs).map((file) => path.resolve(file)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -39,6 +68,7 @@ const context = await esbuild.context({
 	treeShaking: true,
 	outfile: "main.js",
 	minify: prod,
+	plugins: [inlineWorker],
 });
 
 if (prod) {
@@ -22,6 +22,21 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		plugins: {
+			obsidianmd,
+		},
+		rules: {
+			// Image format names the default acronym list doesn't know. Ignored
+			// words aren't checked at the start of a sentence, so the
+			// all-caps ones are acronyms too. Acronyms replace the rule's
+			// defaults, so the format names it knows are repeated
+			"obsidianmd/ui/sentence-case": ["error", {
+				acronyms: ["AVIF", "BMP", "EXIF", "GIF", "JPEG", "JPG", "PNG", "SVG"],
+				ignoreWords: ["WebP", "AVIF", "BMP", "EXIF"],
+			}],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
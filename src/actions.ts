@@ -0,0 +1,252 @@
+import { App, FuzzySuggestModal, Modal, Setting, TFile } from "obsidian";
+import type { ImageResizerSettings } from "./settings";
+import type { ImageEdit } from "./resizer";
+import {
+  ENCODE_FORMAT_LABELS,
+  EncodeFormat,
+  canEncode,
+  getNativeFormat,
+  getSourceFormat,
+  keepsType,
+} from "./formats";
+import { getExtension } from "./resizer";
+
+/**
+ * Something that can be done to the image embed under the cursor, offered
+ * as a command and in the editor menu.
+ */
+export interface ImageAction {
+  id: string;
+  name: string;
+  icon: string;
+  /**
+   * Work out the edit to make to `file`, asking the user if needed.
+   * Resolves with null if they cancelled.
+   */
+  chooseEdit(app: App, file: TFile, settings: ImageResizerSettings): Promise<ImageEdit | null>;
+}
+
+export interface Choice<T> {
+  label: string;
+  value: T;
+}
+
+/**
+ * Fractions of the current size, then boxes the longest side is fitted to.
+ */
+export const SIZE_PRESETS: Choice<ImageEdit>[] = [
+  { label: "25%", value: { scale: 0.25 } },
+  { label: "50%", value: { scale: 0.5 } },
+  { label: "75%", value: { scale: 0.75 } },
+  { label: "Small (640 px)", value: { fit: { width: 640, height: 640 } } },
+  { label: "Medium (1280 px)", value: { fit: { width: 1280, height: 1280 } } },
+  { label: "Large (1920 px)", value: { fit: { width: 1920, height: 1920 } } },
+];
+
+/**
+ * Formats an image can be converted to by hand. GIF output is only for
+ * resizing GIFs.
+ */
+export const CONVERT_FORMATS: EncodeFormat[] = ["png", "jpeg", "webp", "avif"];
+
+/**
+ * Picks one of a list of values by its label.
+ */
+export class ChoiceModal<T> extends FuzzySuggestModal<Choice<T>> {
+  private resolve: ((value: T | null) => void) | null = null;
+
+  constructor(
+    app: App,
+    placeholder: string,
+    private choices: Choice<T>[]
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  /**
+   * Open the modal and resolve with the chosen value, or null if it was
+   * cancelled.
+   */
+  choose(): Promise<T | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  getItems(): Choice<T>[] {
+    return this.choices;
+  }
+
+  getItemText(choice: Choice<T>): string {
+    return choice.label;
+  }
+
+  onChooseItem(choice: Choice<T>) {
+    this.finish(choice.value);
+  }
+
+  onClose() {
+    // The modal closes before the chosen item is reported, so wait for it
+    window.setTimeout(() => this.finish(null), 0);
+  }
+
+  private finish(value: T | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(value);
+  }
+}
+
+/**
+ * Ask which format to convert to, leaving out `current` and formats this
+ * device can't encode.
+ */
+export function chooseFormat(app: App, current: EncodeFormat | null): Promise<EncodeFormat | null> {
+  const choices = CONVERT_FORMATS.filter((format) => canEncode(format) && format !== current).map(
+    (format) => ({ label: ENCODE_FORMAT_LABELS[format], value: format })
+  );
+  return new ChoiceModal(app, "Convert to…", choices).choose();
+}
+
+/**
+ * Asks for the quality to re-encode an image at.
+ */
+class QualityModal extends Modal {
+  private resolve: ((edit: ImageEdit | null) => void) | null = null;
+
+  constructor(
+    app: App,
+    private quality: number
+  ) {
+    super(app);
+  }
+
+  /**
+   * Open the modal and resolve with the edit, or null if it was cancelled.
+   */
+  choose(): Promise<ImageEdit | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Re-encode image");
+
+    new Setting(contentEl)
+      .setName("Quality")
+      .setDesc("Used if the image is saved as JPEG, WebP or AVIF. PNGs are lossless.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 100, 1)
+          .setValue(this.quality)
+          .setDynamicTooltip()
+          .onChange((value) => {
+            this.quality = value;
+          })
+      );
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Re-encode")
+          .setCta()
+          .onClick(() => this.finish({ quality: this.quality }))
+      )
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private finish(edit: ImageEdit | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(edit);
+    if (edit) this.close();
+  }
+}
+
+/**
+ * Configured quality for `format`, or the JPEG quality for lossless
+ * formats.
+ */
+export function configuredQuality(format: EncodeFormat, settings: ImageResizerSettings): number {
+  switch (format) {
+    case "webp":
+      return settings.webpQuality;
+    case "avif":
+      return settings.avifQuality;
+    default:
+      return settings.jpegQuality;
+  }
+}
+
+/**
+ * The format `file` is re-encoded as when its type is kept.
+ */
+function nativeFormatOf(file: TFile): EncodeFormat {
+  const source = getSourceFormat(getExtension(file.name));
+  return source ? getNativeFormat(source) : "png";
+}
+
+export const IMAGE_ACTIONS: ImageAction[] = [
+  {
+    id: "resize-image-to-preset",
+    name: "Resize image to preset…",
+    icon: "scaling",
+    chooseEdit: (app) => new ChoiceModal(app, "Resize to…", SIZE_PRESETS).choose(),
+  },
+  {
+    id: "rotate-image-clockwise",
+    name: "Rotate image 90° clockwise",
+    icon: "rotate-cw",
+    chooseEdit: () => Promise.resolve({ turns: 1 }),
+  },
+  {
+    id: "rotate-image-counterclockwise",
+    name: "Rotate image 90° counterclockwise",
+    icon: "rotate-ccw",
+    chooseEdit: () => Promise.resolve({ turns: 3 }),
+  },
+  {
+    id: "flip-image-horizontal",
+    name: "Flip image horizontally",
+    icon: "flip-horizontal",
+    chooseEdit: () => Promise.resolve({ flip: "horizontal" }),
+  },
+  {
+    id: "flip-image-vertical",
+    name: "Flip image vertically",
+    icon: "flip-vertical",
+    chooseEdit: () => Promise.resolve({ flip: "vertical" }),
+  },
+  {
+    id: "convert-image-format",
+    name: "Convert image format…",
+    icon: "file-output",
+    chooseEdit: async (app, file) => {
+      const current = getSourceFormat(getExtension(file.name));
+      const format = await chooseFormat(
+        app,
+        current && keepsType(current) ? getNativeFormat(current) : null
+      );
+      return format ? { format } : null;
+    },
+  },
+  {
+    id: "reencode-image",
+    name: "Re-encode image at quality…",
+    icon: "gauge",
+    chooseEdit: (app, file, settings) =>
+      new QualityModal(app, configuredQuality(nativeFormatOf(file), settings)).choose(),
+  },
+];
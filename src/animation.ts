@@ -0,0 +1,121 @@
+import type { ImageResizerSettings } from "./settings";
+import { IndexedFrame, compositeGif, encodeGif, indexFrame, readGif } from "./gif";
+import { resample, unsharpMask } from "./raster";
+import { canvasCodec } from "./canvas";
+import { concat, riffChunk, webpFile, webpImageChunks } from "./metadata";
+
+/**
+ * Delay used for WebP frames that don't report a duration, in milliseconds.
+ */
+const DEFAULT_FRAME_MS = 100;
+
+function uint24(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+}
+
+/**
+ * Resize every frame of a GIF to `width`×`height` with the software
+ * resampler, keeping the frame timing and loop count. Frames are played
+ * out in full and re-quantised one at a time, so the output is always a
+ * sequence of whole frames with a palette each.
+ */
+export function resizeGif(
+  data: ArrayBuffer,
+  width: number,
+  height: number,
+  settings: ImageResizerSettings
+): Uint8Array {
+  const gif = readGif(new Uint8Array(data));
+  const downscaling = width < gif.width || height < gif.height;
+  const frames: IndexedFrame[] = [];
+
+  for (const { raster, delay } of compositeGif(gif)) {
+    const scaled = resample(raster, width, height, settings.resampling);
+    if (downscaling) {
+      unsharpMask(scaled, settings.sharpenAmount);
+    }
+    frames.push(indexFrame(scaled, delay));
+  }
+
+  return encodeGif(width, height, gif.loopCount, frames);
+}
+
+/**
+ * Resize every frame of an animated WebP. Frames are decoded with
+ * `ImageDecoder`, drawn at the new size and encoded by the canvas as still
+ * WebPs, whose image data is then put back together as an animation.
+ */
+export async function resizeAnimatedWebp(
+  data: ArrayBuffer,
+  width: number,
+  height: number,
+  settings: ImageResizerSettings
+): Promise<Uint8Array> {
+  if (typeof ImageDecoder === "undefined") {
+    throw new Error("This device can't decode the frames of animated WebP images");
+  }
+  if (!canvasCodec.canEncode("webp")) {
+    throw new Error("This device can't encode WebP, so animated WebP can't be resized");
+  }
+
+  const decoder = new ImageDecoder({ data, type: "image/webp" });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    const frameCount = track?.frameCount ?? 1;
+    // ImageDecoder reports looping forever as Infinity; WebP stores it as 0
+    const repetitions = track?.repetitionCount ?? Infinity;
+    const loopCount = isFinite(repetitions) ? Math.min(0xffff, repetitions) : 0;
+
+    const frames: Uint8Array[] = [];
+    let flags = 0x02;
+
+    for (let i = 0; i < frameCount; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      try {
+        const surface = canvasCodec.draw(
+          {
+            source: image,
+            width: image.displayWidth,
+            height: image.displayHeight,
+            close: () => image.close(),
+          },
+          width,
+          height,
+          {
+            orientation: 1,
+            crop: null,
+            background: null,
+            filter: settings.resampling,
+            sharpen: 0,
+          }
+        );
+        const still = await canvasCodec.encode(surface, "webp", settings.webpQuality);
+        const { chunks, flags: stillFlags } = webpImageChunks(still);
+        flags |= stillFlags & 0x10;
+
+        // Frame at the origin covering the whole canvas, replacing the
+        // previous one rather than blending over it
+        const duration = image.duration === null ? DEFAULT_FRAME_MS : Math.round(image.duration / 1000);
+        const header = Uint8Array.from([
+          ...uint24(0),
+          ...uint24(0),
+          ...uint24(width - 1),
+          ...uint24(height - 1),
+          ...uint24(Math.min(0xffffff, duration)),
+          0x02,
+        ]);
+        frames.push(riffChunk("ANMF", concat([header, ...chunks])));
+      } finally {
+        image.close();
+      }
+    }
+
+    const vp8x = Uint8Array.from([flags, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+    // Transparent background colour, then the loop count
+    const anim = Uint8Array.from([0, 0, 0, 0, loopCount & 0xff, loopCount >> 8]);
+    return webpFile([riffChunk("VP8X", vp8x), riffChunk("ANIM", anim), ...frames]);
+  } finally {
+    decoder.close();
+  }
+}
@@ -0,0 +1,142 @@
+import { App, EventRef, Events, ObsidianProtocolData, TFile, TFolder } from "obsidian";
+import type { ResizeOverrides } from "./rules";
+import type { ResizeResult } from "./resizer";
+import type { BatchJob } from "./batch";
+import type { HistoryEntry } from "./history";
+import { parseFormat, parseInteger } from "./frontmatter";
+
+/**
+ * Bumped when the API changes in a way that breaks callers.
+ */
+export const API_VERSION = 1;
+
+/**
+ * Name of the `obsidian://` action the plugin handles.
+ */
+export const URI_ACTION = "image-resizer";
+
+/**
+ * Changes to the plugin's settings for one call. Unset fields use the
+ * settings that apply to the image, rules and frontmatter included.
+ */
+export type ResizeOptions = Omit<ResizeOverrides, "skip">;
+
+/**
+ * What other plugins can do with Image Resizer, found at
+ * `app.plugins.plugins["image-resizer"].api`.
+ *
+ * ```ts
+ * const api = app.plugins.plugins["image-resizer"]?.api;
+ * if (api?.version >= 1) await api.resize("Attachments/photo.png", { maxWidth: 800 });
+ * ```
+ */
+export interface ImageResizerApi {
+  readonly version: number;
+  /**
+   * Resize an image in the vault now, whatever its source and even if a
+   * rule or note skips it. Resolves with what was done, or null if it was
+   * already within the limits. Rejects if the image can't be processed.
+   */
+  resize(file: TFile | string, options?: ResizeOptions): Promise<HistoryEntry | null>;
+  /**
+   * Resize image bytes without writing anything to the vault. `filename`
+   * gives the type. Resolves with null if they are within the limits.
+   */
+  resizeBuffer(
+    data: ArrayBuffer,
+    filename: string,
+    options?: ResizeOptions
+  ): Promise<ResizeResult | null>;
+  /**
+   * Resize or optimize every image in a folder as a batch run, without
+   * the preview. Resolves with the finished run, or null if another batch
+   * was running or there were no images.
+   */
+  optimizeFolder(folder: TFolder | string, recursive?: boolean): Promise<BatchJob | null>;
+  /**
+   * Called with the log entry of every operation on an image, failed ones
+   * included, however it was started.
+   */
+  on(name: "image-processed", callback: (entry: HistoryEntry) => unknown): EventRef;
+  offref(ref: EventRef): void;
+}
+
+/**
+ * The plugin's side of the API.
+ */
+export interface ApiHost {
+  resizeFile(file: TFile, options: ResizeOptions): Promise<HistoryEntry | null>;
+  resizeBuffer(
+    data: ArrayBuffer,
+    filename: string,
+    options: ResizeOptions
+  ): Promise<ResizeResult | null>;
+  optimizeFolder(folder: TFolder, recursive: boolean): Promise<BatchJob | null>;
+}
+
+/**
+ * Resolves paths to vault files for the host and carries the
+ * `image-processed` event.
+ */
+export class PluginApi extends Events implements ImageResizerApi {
+  readonly version = API_VERSION;
+
+  constructor(
+    private app: App,
+    private host: ApiHost
+  ) {
+    super();
+  }
+
+  resize(file: TFile | string, options: ResizeOptions = {}): Promise<HistoryEntry | null> {
+    const target = typeof file === "string" ? this.app.vault.getAbstractFileByPath(file) : file;
+    if (!(target instanceof TFile)) {
+      return Promise.reject(
+        new Error(`No image at ${typeof file === "string" ? file : file.path}`)
+      );
+    }
+    return this.host.resizeFile(target, options);
+  }
+
+  resizeBuffer(
+    data: ArrayBuffer,
+    filename: string,
+    options: ResizeOptions = {}
+  ): Promise<ResizeResult | null> {
+    return this.host.resizeBuffer(data, filename, options);
+  }
+
+  optimizeFolder(folder: TFolder | string, recursive = true): Promise<BatchJob | null> {
+    const target =
+      typeof folder === "string"
+        ? folder === "" || folder === "/"
+          ? this.app.vault.getRoot()
+          : this.app.vault.getAbstractFileByPath(folder)
+        : folder;
+    if (!(target instanceof TFolder)) {
+      return Promise.reject(
+        new Error(`No folder at ${typeof folder === "string" ? folder : folder.path}`)
+      );
+    }
+    return this.host.optimizeFolder(target, recursive);
+  }
+
+  on(name: "image-processed", callback: (entry: HistoryEntry) => unknown): EventRef {
+    return super.on(name, callback as (...data: unknown[]) => unknown);
+  }
+}
+
+/**
+ * Resize options from the query of an `obsidian://image-resizer` URI:
+ * `width`, `height`, `quality`, `format` and `mode`.
+ */
+export function parseUriOptions(params: ObsidianProtocolData): ResizeOptions {
+  const mode = params.mode?.trim().toLowerCase();
+  return {
+    maxWidth: parseInteger(params.width, 0, 100000),
+    maxHeight: parseInteger(params.height, 0, 100000),
+    quality: parseInteger(params.quality, 1, 100),
+    outputFormat: parseFormat(params.format),
+    mode: mode === "display" || mode === "pixels" ? mode : undefined,
+  };
+}
@@ -0,0 +1,95 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+export type KeepOriginalsMode = "off" | "folder" | "trash";
+
+/**
+ * Where the original bytes of a resized image were kept.
+ */
+export interface OriginalRecord {
+  /** Path the image had before it was resized (and possibly renamed). */
+  originalPath: string;
+  /** Vault path of the archived copy, or null if it was sent to the system trash. */
+  archivePath: string | null;
+  /** Epoch milliseconds when the original was archived. */
+  archivedAt: number;
+}
+
+/**
+ * Maps the current path of a resized image to its original.
+ */
+export type ArchiveIndex = Record<string, OriginalRecord>;
+
+/**
+ * True if `path` is `folder` itself or anything below it.
+ */
+export function isInFolder(path: string, folder: string): boolean {
+  const normalized = normalizePath(folder);
+  if (!normalized || normalized === "/") return false;
+  return path === normalized || path.startsWith(`${normalized}/`);
+}
+
+/**
+ * Create a folder and any missing parents.
+ */
+export async function ensureFolder(app: App, path: string): Promise<void> {
+  const parts = normalizePath(path).split("/");
+  let current = "";
+  for (const part of parts) {
+    current = current ? `${current}/${part}` : part;
+    const existing = app.vault.getAbstractFileByPath(current);
+    if (!existing) {
+      await app.vault.createFolder(current);
+    } else if (!(existing instanceof TFolder)) {
+      throw new Error(`${current} exists and is not a folder`);
+    }
+  }
+}
+
+/**
+ * Append a numeric suffix to `path` until it doesn't collide with an
+ * existing vault entry.
+ */
+function uniquePath(app: App, path: string): string {
+  if (!app.vault.getAbstractFileByPath(path)) return path;
+
+  const dot = path.lastIndexOf(".");
+  const base = dot > path.lastIndexOf("/") ? path.substring(0, dot) : path;
+  const ext = dot > path.lastIndexOf("/") ? path.substring(dot) : "";
+
+  for (let i = 1; ; i++) {
+    const candidate = `${base} ${i}${ext}`;
+    if (!app.vault.getAbstractFileByPath(candidate)) return candidate;
+  }
+}
+
+/**
+ * Save a copy of `data` (the original bytes of `file`) before it is
+ * overwritten. In "folder" mode the copy mirrors the file's vault path
+ * under `folder`; in "trash" mode it is written there briefly and then
+ * moved to the system trash.
+ */
+export async function archiveOriginal(
+  app: App,
+  file: TFile,
+  data: ArrayBuffer,
+  mode: Exclude<KeepOriginalsMode, "off">,
+  folder: string
+): Promise<OriginalRecord> {
+  const target = uniquePath(app, normalizePath(`${folder}/${file.path}`));
+  const lastSlash = target.lastIndexOf("/");
+  if (lastSlash > 0) {
+    await ensureFolder(app, target.substring(0, lastSlash));
+  }
+
+  const copy = await app.vault.createBinary(target, data);
+
+  if (mode === "trash") {
+    // The user explicitly asked for the system trash, so don't defer to
+    // the vault's deletion preference (which may delete permanently)
+    // eslint-disable-next-line obsidianmd/prefer-file-manager-trash-file
+    await app.vault.trash(copy, true);
+    return { originalPath: file.path, archivePath: null, archivedAt: Date.now() };
+  }
+
+  return { originalPath: file.path, archivePath: copy.path, archivedAt: Date.now() };
+}
@@ -0,0 +1,212 @@
+import { App, Modal } from "obsidian";
+import type { EncodeFormat } from "./formats";
+import { formatBytes } from "./preview";
+
+/**
+ * What a batch run does to each image: resize it per the settings, resize
+ * it with the optimize pass forced on, convert it to another format, or
+ * put its archived original back.
+ */
+export type BatchAction = "resize" | "optimize" | "convert" | "restore";
+
+export const BATCH_ACTION_VERBS: Record<BatchAction, string> = {
+  resize: "Resize",
+  optimize: "Optimize",
+  convert: "Convert",
+  restore: "Restore",
+};
+
+const BATCH_ACTION_PROGRESS: Record<BatchAction, string> = {
+  resize: "Resizing",
+  optimize: "Optimizing",
+  convert: "Converting",
+  restore: "Restoring",
+};
+
+/**
+ * What the images a run left alone had in common.
+ */
+const BATCH_ACTION_SKIPPED: Record<BatchAction, string> = {
+  resize: "already within limits",
+  optimize: "already within limits",
+  convert: "already in that format",
+  restore: "without an archived original",
+};
+
+/**
+ * An image a batch run could not process, and why.
+ */
+export interface BatchFailure {
+  path: string;
+  error: string;
+}
+
+/**
+ * State of a batch run, persisted so an interrupted run can pick up
+ * where it left off on the next launch.
+ */
+export interface BatchJob {
+  /** What the run covers, e.g. "vault" or a folder path. */
+  scope: string;
+  action: BatchAction;
+  /** Format to convert to, for a convert run. */
+  format: EncodeFormat | null;
+  /** Paths still to process, in order. */
+  queue: string[];
+  /** Number of images the run was started with. */
+  total: number;
+  /** Number of queued images already processed. */
+  done: number;
+  resized: number;
+  /** Within limits, but recompressed smaller. */
+  optimized: number;
+  /** Left at full resolution, with their embeds given a display width. */
+  displaySized: number;
+  converted: number;
+  /** Put back to their archived originals. */
+  restored: number;
+  /** Bytes saved by resized and optimized images together. */
+  bytesSaved: number;
+  /**
+   * Nothing to do (within limits, already in the format or without an
+   * original), or gone by the time the run got to them.
+   */
+  skipped: number;
+  /** Skipped by a rule or a note's frontmatter. */
+  overrideSkipped: number;
+  /** Unticked in the preview dialog. */
+  excluded: number;
+  failed: BatchFailure[];
+  /** Epoch milliseconds when the run was started. */
+  startedAt: number;
+}
+
+/**
+ * How many processed images to let through between saves of the job
+ * state. An interrupted run redoes at most this many, which is harmless
+ * since they are already within limits.
+ */
+export const JOB_SAVE_INTERVAL = 10;
+
+export function createBatchJob(
+  scope: string,
+  queue: string[],
+  action: BatchAction = "resize",
+  format: EncodeFormat | null = null
+): BatchJob {
+  return {
+    scope,
+    action,
+    format,
+    queue,
+    total: queue.length,
+    done: 0,
+    resized: 0,
+    optimized: 0,
+    displaySized: 0,
+    converted: 0,
+    restored: 0,
+    bytesSaved: 0,
+    skipped: 0,
+    overrideSkipped: 0,
+    excluded: 0,
+    failed: [],
+    startedAt: Date.now(),
+  };
+}
+
+/**
+ * A one-line message for an error of unknown type.
+ */
+export function describeError(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/**
+ * Status bar text for a run that has got through `job.done` images.
+ */
+export function describeProgress(job: BatchJob): string {
+  return `${BATCH_ACTION_PROGRESS[job.action]} images ${job.done}/${job.total}`;
+}
+
+/**
+ * Counts for the notice shown when a run ends.
+ */
+export function summarizeJob(job: BatchJob): string {
+  const changed =
+    job.action === "restore"
+      ? `${job.restored} restored`
+      : job.action === "convert"
+        ? `${job.converted} converted`
+        : `${job.resized} resized`;
+  return (
+    changed +
+    (job.optimized > 0 ? `, ${job.optimized} optimized` : "") +
+    (job.bytesSaved > 0 ? ` (${formatBytes(job.bytesSaved)} saved)` : "") +
+    (job.displaySized > 0 ? `, ${job.displaySized} sized for display` : "") +
+    `, ${job.skipped} ${BATCH_ACTION_SKIPPED[job.action]}` +
+    (job.overrideSkipped > 0
+      ? `, ${job.overrideSkipped} skipped by rules or notes`
+      : "") +
+    (job.excluded > 0 ? `, ${job.excluded} excluded` : "") +
+    (job.failed.length > 0 ? `, ${job.failed.length} failed` : "")
+  );
+}
+
+/**
+ * Work through the queue of `job` on `lanes` lanes, each taking the next
+ * path once its previous one is done, until it is empty or `stopped`
+ * returns true. `process` returns false if it was interrupted, which
+ * leaves the path queued so a resumed run does it again.
+ */
+export async function runQueue(
+  job: BatchJob,
+  lanes: number,
+  process: (path: string) => Promise<boolean>,
+  stopped: () => boolean,
+  onDone: () => Promise<void>
+): Promise<void> {
+  const waiting = [...job.queue];
+  const lane = async () => {
+    let path: string | undefined;
+    while (!stopped() && (path = waiting.shift()) !== undefined) {
+      if (!(await process(path))) continue;
+
+      // Images finish out of order, so the queue keeps every path that
+      // isn't done yet, including ones still in flight
+      job.queue.splice(job.queue.indexOf(path), 1);
+      job.done++;
+      await onDone();
+    }
+  };
+  await Promise.all(Array.from({ length: lanes }, lane));
+}
+
+/**
+ * Lists the images a batch run failed on, with their error messages.
+ */
+export class BatchFailuresModal extends Modal {
+  constructor(
+    app: App,
+    private failures: BatchFailure[]
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(`${this.failures.length} image(s) could not be processed`);
+
+    const list = contentEl.createEl("ul", { cls: "image-resizer-failures" });
+    for (const { path, error } of this.failures) {
+      const item = list.createEl("li");
+      item.createDiv({ text: path, cls: "image-resizer-failure-path" });
+      item.createDiv({ text: error, cls: "setting-item-description" });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,120 @@
+import { Raster, createRaster } from "./raster";
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/**
+ * Value of the bits selected by `mask`, scaled to 0–255.
+ */
+function maskedChannel(pixel: number, mask: number, fallback: number): number {
+  if (mask === 0) return fallback;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  const max = mask >>> shift;
+  return Math.round((((pixel & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decode an uncompressed BMP: 1, 4 and 8-bit palette images, and 16, 24
+ * and 32-bit RGB(A) ones including bit-field masks. RLE compression isn't
+ * supported.
+ */
+export function decodeBmp(data: Uint8Array): Raster {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data[0] !== 0x42 || data[1] !== 0x4d) {
+    throw new Error("Not a BMP file");
+  }
+
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const width = view.getInt32(18, true);
+  const rawHeight = view.getInt32(22, true);
+  const bitCount = view.getUint16(28, true);
+  const compression = headerSize >= 40 ? view.getUint32(30, true) : BI_RGB;
+
+  // Negative height means rows are stored top-down
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error(`Unsupported BMP compression ${compression}`);
+  }
+
+  // Channel masks, either after the header or (in V4+ headers) inside it
+  let masks: [number, number, number, number];
+  if (compression === BI_RGB) {
+    masks =
+      bitCount === 16
+        ? [0x7c00, 0x03e0, 0x001f, 0]
+        : [0x00ff0000, 0x0000ff00, 0x000000ff, bitCount === 32 ? 0xff000000 : 0];
+  } else {
+    const at = 14 + 40;
+    masks = [
+      view.getUint32(at, true),
+      view.getUint32(at + 4, true),
+      view.getUint32(at + 8, true),
+      headerSize >= 56 || compression === BI_ALPHABITFIELDS ? view.getUint32(at + 12, true) : 0,
+    ];
+  }
+
+  // Palette entries are BGRX
+  const palette: number[][] = [];
+  if (bitCount <= 8) {
+    const colors = (headerSize >= 40 ? view.getUint32(46, true) : 0) || 1 << bitCount;
+    const paletteStart = 14 + headerSize + (compression === BI_BITFIELDS && headerSize === 40 ? 12 : 0);
+    for (let i = 0; i < colors; i++) {
+      const p = paletteStart + i * 4;
+      palette.push([data[p + 2] ?? 0, data[p + 1] ?? 0, data[p] ?? 0]);
+    }
+  }
+
+  const rowSize = Math.floor((bitCount * width + 31) / 32) * 4;
+  const out = createRaster(width, height);
+
+  // 32-bit BI_RGB files often leave the unused byte at zero; treat an
+  // all-zero alpha channel as opaque
+  let anyAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r: number;
+      let g: number;
+      let b: number;
+      let a = 255;
+
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const byte = data[row + (bit >> 3)] ?? 0;
+        const index = (byte >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        [r = 0, g = 0, b = 0] = palette[index] ?? [];
+      } else if (bitCount === 24) {
+        const p = row + x * 3;
+        b = data[p] ?? 0;
+        g = data[p + 1] ?? 0;
+        r = data[p + 2] ?? 0;
+      } else {
+        const p = row + x * (bitCount >> 3);
+        const pixel = bitCount === 16 ? view.getUint16(p, true) : view.getUint32(p, true);
+        r = maskedChannel(pixel, masks[0], 0);
+        g = maskedChannel(pixel, masks[1], 0);
+        b = maskedChannel(pixel, masks[2], 0);
+        a = maskedChannel(pixel, masks[3], 255);
+        if (masks[3] !== 0 && a !== 0) anyAlpha = true;
+      }
+
+      out.data[o] = r;
+      out.data[o + 1] = g;
+      out.data[o + 2] = b;
+      out.data[o + 3] = a;
+    }
+  }
+
+  if (masks[3] !== 0 && !anyAlpha && bitCount > 8) {
+    for (let i = 3; i < out.data.length; i += 4) out.data[i] = 255;
+  }
+
+  return out;
+}
@@ -0,0 +1,227 @@
+import type { Codec, DecodedImage, DrawOptions } from "./codec";
+import { EncodeFormat, canEncode, getEncodeMime } from "./formats";
+import { applyOrientation, orientedSize } from "./metadata";
+
+/**
+ * A canvas to draw on: a DOM canvas on the main thread, an offscreen one
+ * in a worker.
+ */
+type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface CanvasImage extends DecodedImage {
+  source: CanvasImageSource;
+}
+
+interface CanvasSurface {
+  canvas: DrawingCanvas;
+  ctx: DrawingContext;
+}
+
+/**
+ * Error for bytes the platform decoder rejects. HEIC and AVIF support in
+ * particular depends on the operating system.
+ */
+function decodeError(mimeType: string): Error {
+  const type = mimeType.replace("image/", "").toUpperCase();
+  return new Error(`This device can't decode ${type} images, or the file is damaged`);
+}
+
+/**
+ * Loads image bytes into an HTMLImageElement via a blob URL.
+ */
+function loadImage(data: ArrayBuffer, mimeType: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const blob = new Blob([data], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(decodeError(mimeType));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Decode image bytes. Keeping the original colour profile means the pixels
+ * must stay in that profile's colour space, which `<img>` decoding would
+ * convert to sRGB, so that path uses `createImageBitmap` without colour
+ * space conversion where available.
+ */
+async function decodeImage(
+  data: ArrayBuffer,
+  mimeType: string,
+  preserveColorSpace: boolean
+): Promise<CanvasImage> {
+  // Workers have no <img>, so they always decode to a bitmap
+  const hasImageElement = typeof Image !== "undefined";
+
+  if (
+    (preserveColorSpace || !hasImageElement) &&
+    typeof createImageBitmap === "function"
+  ) {
+    try {
+      const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }), {
+        colorSpaceConversion: preserveColorSpace ? "none" : "default",
+      });
+      return {
+        source: bitmap,
+        width: bitmap.width,
+        height: bitmap.height,
+        close: () => bitmap.close(),
+      };
+    } catch {
+      // Fall back to <img> decoding
+      if (!hasImageElement) throw decodeError(mimeType);
+    }
+  }
+
+  const img = await loadImage(data, mimeType);
+  return {
+    source: img,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    close: () => undefined,
+  };
+}
+
+/**
+ * Create a canvas and its 2D context, using `OffscreenCanvas` where there
+ * is no DOM.
+ */
+function createCanvas(width: number, height: number): CanvasSurface {
+  let canvas: DrawingCanvas;
+  let ctx: DrawingContext | null;
+
+  if (typeof document !== "undefined") {
+    canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    ctx = canvas.getContext("2d");
+  } else {
+    canvas = new OffscreenCanvas(width, height);
+    ctx = canvas.getContext("2d");
+  }
+
+  if (!ctx) {
+    throw new Error("Failed to get canvas 2D context");
+  }
+  return { canvas, ctx };
+}
+
+/**
+ * Draw `img`, or the cropped part of it, onto a new canvas at the given
+ * (oriented) size, rotating or flipping it per its EXIF orientation,
+ * optionally over a solid background colour. The canvas does its own
+ * smoothing, so the filter and sharpening options are ignored.
+ */
+function drawScaled(
+  img: CanvasImage,
+  width: number,
+  height: number,
+  { orientation, crop, background }: DrawOptions
+): CanvasSurface {
+  const surface = createCanvas(width, height);
+  const { ctx } = surface;
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // A crop is drawn by scaling the whole image so the cropped part fills
+  // the canvas, and shifting it into place
+  const oriented = orientedSize(img.width, img.height, orientation);
+  const region = crop ?? { x: 0, y: 0, width: oriented.width, height: oriented.height };
+  const scaleX = width / region.width;
+  const scaleY = height / region.height;
+  ctx.translate(-region.x * scaleX, -region.y * scaleY);
+
+  // The image is drawn in its stored orientation, so swap the draw size
+  // back for rotated orientations
+  const drawSize = orientedSize(oriented.width * scaleX, oriented.height * scaleY, orientation);
+  applyOrientation(ctx, orientation, drawSize.width, drawSize.height);
+
+  // Use high-quality downscaling
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img.source, 0, 0, drawSize.width, drawSize.height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  return surface;
+}
+
+/**
+ * True if any pixel on the canvas is not fully opaque.
+ */
+function hasTransparency({ canvas, ctx }: CanvasSurface): boolean {
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] !== 255) return true;
+  }
+  return false;
+}
+
+function pixels({ canvas, ctx }: CanvasSurface): Uint8ClampedArray {
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+function flatten({ canvas, ctx }: CanvasSurface, color: string) {
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = "source-over";
+}
+
+/**
+ * Export a canvas as `format` at the given quality (1–100).
+ */
+async function encodeCanvas(
+  { canvas }: CanvasSurface,
+  format: EncodeFormat,
+  quality: number | null
+): Promise<Uint8Array> {
+  let blob: Blob;
+  if ("convertToBlob" in canvas) {
+    blob = await canvas.convertToBlob({
+      type: getEncodeMime(format),
+      quality: quality === null ? undefined : quality / 100,
+    });
+  } else {
+    blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (b) => {
+          if (b) resolve(b);
+          else reject(new Error("Canvas toBlob returned null"));
+        },
+        getEncodeMime(format),
+        quality === null ? undefined : quality / 100
+      );
+    });
+  }
+  // Canvases quietly fall back to PNG for types they can't encode
+  if (blob.type !== getEncodeMime(format)) {
+    throw new Error(`This device can't encode ${format.toUpperCase()} images`);
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * The host canvas: fast and handles every format the runtime can decode,
+ * but its resampling and encoders vary between platforms.
+ */
+export const canvasCodec: Codec<CanvasImage, CanvasSurface> = {
+  canDecode: () => true,
+  canEncode,
+  decode: decodeImage,
+  draw: drawScaled,
+  hasTransparency,
+  pixels,
+  flatten,
+  encode: encodeCanvas,
+};
@@ -0,0 +1,78 @@
+import type { EncodeFormat } from "./formats";
+
+/**
+ * Which implementation decodes, resamples and encodes images.
+ * - `canvas`: the host's `<canvas>`/`OffscreenCanvas` and its encoders
+ * - `software`: the bundled pure TypeScript codecs, which give the same
+ *   output everywhere (including Node) but only handle JPEG, PNG and BMP
+ */
+export type CodecBackend = "canvas" | "software";
+
+/**
+ * Resampling filter for the software backend.
+ */
+export type ResamplingFilter = "lanczos3" | "mitchell";
+
+export const CODEC_BACKEND_LABELS: Record<CodecBackend, string> = {
+  canvas: "Canvas (built in)",
+  software: "Software (consistent output)",
+};
+
+export const RESAMPLING_FILTER_LABELS: Record<ResamplingFilter, string> = {
+  lanczos3: "Lanczos3 (sharpest)",
+  mitchell: "Mitchell (smoother)",
+};
+
+/**
+ * A decoded image ready to draw at a new size.
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** Free the decoded pixels. */
+  close: () => void;
+}
+
+/**
+ * A rectangle of an image in pixels, in its displayed orientation.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How a backend should scale an image.
+ */
+export interface DrawOptions {
+  /** EXIF orientation to apply while drawing. */
+  orientation: number;
+  /** Part of the oriented image to draw, or null for all of it. */
+  crop: CropRect | null;
+  /** Solid colour to draw behind the image, or null to keep transparency. */
+  background: string | null;
+  filter: ResamplingFilter;
+  /** Unsharp mask strength after downscaling, 0–100 (0 = off). */
+  sharpen: number;
+}
+
+/**
+ * The operations `resizeImage` needs from a backend. `Image` is the
+ * backend's decoded image and `Surface` what it draws into.
+ */
+export interface Codec<Image extends DecodedImage, Surface> {
+  canDecode(mimeType: string): boolean;
+  canEncode(format: EncodeFormat): boolean;
+  decode(data: ArrayBuffer, mimeType: string, preserveColorSpace: boolean): Promise<Image>;
+  /** Draw `img` at the given (oriented) size. */
+  draw(img: Image, width: number, height: number, options: DrawOptions): Surface;
+  /** True if any pixel is not fully opaque. */
+  hasTransparency(surface: Surface): boolean;
+  /** Straight RGBA pixels of the surface, row by row. */
+  pixels(surface: Surface): Uint8ClampedArray;
+  /** Composite the surface over a solid colour. */
+  flatten(surface: Surface, color: string): void;
+  encode(surface: Surface, format: EncodeFormat, quality: number | null): Promise<Uint8Array>;
+}
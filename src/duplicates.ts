@@ -0,0 +1,386 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { formatBytes } from "./preview";
+
+/**
+ * Which new images to look for an existing copy of.
+ * - `off`: none
+ * - `exact`: byte-identical files, or ones the plugin resized from the
+ *   same bytes
+ * - `similar`: those, plus images that look alike once resized
+ */
+export type DuplicateCheck = "off" | "exact" | "similar";
+
+export const DUPLICATE_CHECK_LABELS: Record<DuplicateCheck, string> = {
+  off: "Off",
+  exact: "Identical images",
+  similar: "Identical or similar images",
+};
+
+/**
+ * Most bits two perceptual hashes may differ in for their images to count
+ * as similar.
+ */
+const SIMILAR_DISTANCE = 6;
+
+/**
+ * Takes the perceptual hash of an image, or null if it can't be decoded.
+ */
+export type PerceptualHasher = (data: ArrayBuffer, filename: string) => Promise<string | null>;
+
+/**
+ * Hashes of an image in the vault.
+ */
+export interface Fingerprint {
+  /** Byte size and modification time of the file when it was hashed. */
+  size: number;
+  mtime: number;
+  /** SHA-256 of the file, in hex. */
+  hash: string;
+  /** SHA-256 of the bytes the plugin resized the file from, if it did. */
+  sourceHash: string | null;
+  /** Perceptual hash, 16 hex digits, or null if not taken. */
+  phash: string | null;
+}
+
+/**
+ * Maps the path of an image to its hashes.
+ */
+export type FingerprintIndex = Record<string, Fingerprint>;
+
+/**
+ * Images in the vault that look alike.
+ */
+export interface DuplicateCluster {
+  files: TFile[];
+  /** True if the files are byte-identical. */
+  identical: boolean;
+}
+
+/**
+ * SHA-256 of `data`, in hex.
+ */
+export async function contentHash(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function bitCount(n: number): number {
+  let count = 0;
+  for (let v = n >>> 0; v; v &= v - 1) count++;
+  return count;
+}
+
+/**
+ * Number of bits two perceptual hashes differ in.
+ */
+function hashDistance(a: string, b: string): number {
+  return (
+    bitCount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    bitCount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16))
+  );
+}
+
+function isFresh(fingerprint: Fingerprint, file: TFile): boolean {
+  return fingerprint.size === file.stat.size && fingerprint.mtime === file.stat.mtime;
+}
+
+/**
+ * The index entry for `file`, hashing it again if it changed since. The
+ * perceptual hash is only taken with `phash`. Hashes that can't be
+ * recomputed, the source hash among them, carry over while the bytes are
+ * unchanged.
+ */
+async function fingerprintFile(
+  app: App,
+  index: FingerprintIndex,
+  file: TFile,
+  phash: PerceptualHasher | null
+): Promise<Fingerprint> {
+  let fingerprint = index[file.path];
+  if (!fingerprint || !isFresh(fingerprint, file)) {
+    const data = await app.vault.readBinary(file);
+    const hash = await contentHash(data);
+    const kept = fingerprint?.hash === hash ? fingerprint : null;
+    fingerprint = {
+      size: file.stat.size,
+      mtime: file.stat.mtime,
+      hash,
+      sourceHash: kept?.sourceHash ?? null,
+      phash: kept?.phash ?? null,
+    };
+    index[file.path] = fingerprint;
+  }
+
+  if (phash && fingerprint.phash === null) {
+    const data = await app.vault.readBinary(file);
+    fingerprint.phash = await phash(data, file.name);
+  }
+  return fingerprint;
+}
+
+/**
+ * Record the hashes of `file`, just written as `data`. `sourceHash` is of
+ * the bytes it was resized from, if it was.
+ */
+export async function recordFingerprint(
+  index: FingerprintIndex,
+  file: TFile,
+  data: ArrayBuffer,
+  sourceHash: string | null,
+  phash: string | null
+): Promise<void> {
+  index[file.path] = {
+    size: data.byteLength,
+    mtime: file.stat.mtime,
+    hash: await contentHash(data),
+    sourceHash,
+    phash,
+  };
+}
+
+/**
+ * The first of `files` that has the bytes hashing to `hash`, or was
+ * resized from them. Images not indexed yet are only read if they are
+ * `size` bytes, as only those can match.
+ */
+export async function findIdentical(
+  app: App,
+  index: FingerprintIndex,
+  files: TFile[],
+  hash: string,
+  size: number
+): Promise<TFile | null> {
+  for (const file of files) {
+    if (!index[file.path] && file.stat.size !== size) continue;
+
+    const fingerprint = await fingerprintFile(app, index, file, null);
+    if (fingerprint.hash === hash || fingerprint.sourceHash === hash) return file;
+  }
+  return null;
+}
+
+/**
+ * The indexed image among `files` that looks most like the one with
+ * perceptual hash `phash`, if any is close enough. Only images already
+ * indexed with a perceptual hash are compared.
+ */
+export function findSimilar(
+  index: FingerprintIndex,
+  files: TFile[],
+  phash: string
+): TFile | null {
+  let best: TFile | null = null;
+  let bestDistance = SIMILAR_DISTANCE + 1;
+  for (const file of files) {
+    const known = index[file.path];
+    if (!known?.phash || !isFresh(known, file)) continue;
+
+    const distance = hashDistance(known.phash, phash);
+    if (distance < bestDistance) {
+      best = file;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Hash every one of `files` that isn't indexed yet, then group the ones
+ * that are identical or similar. Clusters come largest first.
+ */
+export async function findDuplicateClusters(
+  app: App,
+  index: FingerprintIndex,
+  files: TFile[],
+  phash: PerceptualHasher,
+  onProgress: (done: number) => void
+): Promise<DuplicateCluster[]> {
+  const fingerprints: Fingerprint[] = [];
+  for (const file of files) {
+    fingerprints.push(await fingerprintFile(app, index, file, phash));
+    onProgress(fingerprints.length);
+  }
+
+  // Union-find over the files, joining those with the same bytes, the
+  // same source, or close perceptual hashes
+  const parent = files.map((_file, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] ?? i;
+    return i;
+  };
+  const join = (a: number, b: number) => {
+    parent[root(a)] = root(b);
+  };
+
+  const byHash = new Map<string, number>();
+  fingerprints.forEach((fingerprint, i) => {
+    for (const hash of [fingerprint.hash, fingerprint.sourceHash]) {
+      if (hash === null) continue;
+      const first = byHash.get(hash);
+      if (first === undefined) byHash.set(hash, i);
+      else join(i, first);
+    }
+  });
+
+  for (let i = 0; i < fingerprints.length; i++) {
+    const a = fingerprints[i]?.phash;
+    if (!a) continue;
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      const b = fingerprints[j]?.phash;
+      if (b && hashDistance(a, b) <= SIMILAR_DISTANCE) join(i, j);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  files.forEach((_file, i) => {
+    const members = groups.get(root(i)) ?? [];
+    members.push(i);
+    groups.set(root(i), members);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const hashes = new Set(members.map((i) => fingerprints[i]?.hash));
+    clusters.push({
+      files: members.map((i) => files[i]).filter((f): f is TFile => f !== undefined),
+      identical: hashes.size === 1,
+    });
+  }
+  return clusters.sort((a, b) => b.files.length - a.files.length);
+}
+
+/**
+ * What to do with a new image that duplicates one already in the vault.
+ */
+export type DuplicateChoice = "keep" | "existing";
+
+/**
+ * Shows a new image next to the existing one it duplicates, and asks
+ * whether to keep both or use the existing one instead.
+ */
+export class DuplicateModal extends Modal {
+  private resolve: ((choice: DuplicateChoice) => void) | null = null;
+
+  constructor(
+    app: App,
+    private file: TFile,
+    private existing: TFile,
+    private identical: boolean
+  ) {
+    super(app);
+  }
+
+  /**
+   * Open the modal and resolve with the choice. Closing it keeps both.
+   */
+  choose(): Promise<DuplicateChoice> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.identical ? "Image already in vault" : "Similar image in vault");
+
+    contentEl.createEl("p", {
+      text: this.identical
+        ? `${this.file.name} is the same image as ${this.existing.path}.`
+        : `${this.file.name} looks like ${this.existing.path}.`,
+    });
+
+    const images = contentEl.createDiv({ cls: "image-resizer-duplicates" });
+    for (const [label, file] of [
+      ["New", this.file],
+      ["Existing", this.existing],
+    ] as const) {
+      const figure = images.createEl("figure");
+      figure.createEl("img", { attr: { src: this.app.vault.getResourcePath(file) } });
+      figure.createEl("figcaption", {
+        text: `${label} · ${formatBytes(file.stat.size)}`,
+        cls: "setting-item-description",
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Use existing image")
+          .setCta()
+          .onClick(() => this.finish("existing"))
+      )
+      .addButton((button) =>
+        button.setButtonText("Keep both").onClick(() => this.finish("keep"))
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private finish(choice: DuplicateChoice | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(choice ?? "keep");
+    if (choice) this.close();
+  }
+}
+
+/**
+ * Lists groups of identical or similar images in the vault. Clicking an
+ * image opens it.
+ */
+export class DuplicateClustersModal extends Modal {
+  constructor(
+    app: App,
+    private clusters: DuplicateCluster[]
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Duplicate images");
+
+    if (this.clusters.length === 0) {
+      contentEl.createEl("p", { text: "No duplicate images found." });
+      return;
+    }
+
+    const wasted = this.clusters.reduce(
+      (total, { files }) =>
+        total + files.slice(1).reduce((sum, file) => sum + file.stat.size, 0),
+      0
+    );
+    contentEl.createEl("p", {
+      text:
+        `${this.clusters.length} group(s) of duplicates. ` +
+        `Keeping one image of each would free about ${formatBytes(wasted)}.`,
+      cls: "setting-item-description",
+    });
+
+    const list = contentEl.createDiv({ cls: "image-resizer-preview" });
+    for (const { files, identical } of this.clusters) {
+      list.createEl("h4", {
+        text: `${files.length} ${identical ? "identical" : "similar"} images`,
+      });
+      const items = list.createEl("ul");
+      for (const file of files) {
+        const item = items.createEl("li");
+        const link = item.createEl("a", { text: file.path, cls: "image-resizer-preview-path" });
+        link.addEventListener("click", () => {
+          void this.app.workspace.getLeaf(true).openFile(file);
+          this.close();
+        });
+        item.appendText(` · ${formatBytes(file.stat.size)}`);
+      }
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Input types the output-format policy is configured for.
+ */
+export type SourceFormat =
+  | "png"
+  | "jpg"
+  | "webp"
+  | "bmp"
+  | "gif"
+  | "tiff"
+  | "heic"
+  | "avif";
+
+/**
+ * What to turn an image into when it is re-encoded. `keep` writes the
+ * same format it came in as.
+ */
+export type OutputFormat = "keep" | "jpeg" | "webp" | "avif";
+
+/**
+ * Formats an image can be written as. GIF is only ever written by the
+ * bundled encoder, to keep GIFs as GIFs.
+ */
+export type EncodeFormat = "png" | "jpeg" | "webp" | "avif" | "gif";
+
+/**
+ * What to do with a transparent image whose output format has no alpha
+ * channel (JPEG).
+ * - `keep`: leave it in its original format
+ * - `webp`: save it as WebP, which keeps the alpha channel
+ * - `flatten`: fill the background with a solid colour and convert anyway
+ */
+export type TransparencyPolicy = "keep" | "webp" | "flatten";
+
+/**
+ * What to do with animated GIFs and WebPs.
+ * - `skip`: leave them alone
+ * - `frames`: resize every frame, keeping the animation and its format
+ */
+export type AnimationPolicy = "skip" | "frames";
+
+export const SOURCE_FORMATS: SourceFormat[] = [
+  "png",
+  "jpg",
+  "webp",
+  "bmp",
+  "gif",
+  "tiff",
+  "heic",
+  "avif",
+];
+
+export const SOURCE_FORMAT_LABELS: Record<SourceFormat, string> = {
+  png: "PNG",
+  jpg: "JPEG",
+  webp: "WebP",
+  bmp: "BMP",
+  gif: "GIF",
+  tiff: "TIFF",
+  heic: "HEIC",
+  avif: "AVIF",
+};
+
+export const ANIMATION_POLICY_LABELS: Record<AnimationPolicy, string> = {
+  skip: "Leave alone",
+  frames: "Resize every frame",
+};
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  keep: "Keep format",
+  jpeg: "JPEG",
+  webp: "WebP",
+  avif: "AVIF",
+};
+
+export const ENCODE_FORMAT_LABELS: Record<EncodeFormat, string> = {
+  png: "PNG",
+  jpeg: "JPEG",
+  webp: "WebP",
+  avif: "AVIF",
+  gif: "GIF",
+};
+
+const ENCODE_MIME: Record<EncodeFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+  gif: "image/gif",
+};
+
+const ENCODE_EXTENSION: Record<EncodeFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+  avif: "avif",
+  gif: "gif",
+};
+
+export function getEncodeMime(format: EncodeFormat): string {
+  return ENCODE_MIME[format];
+}
+
+export function getEncodeExtension(format: EncodeFormat): string {
+  return ENCODE_EXTENSION[format];
+}
+
+/**
+ * Map a file extension to the source type used by the format policy.
+ */
+export function getSourceFormat(ext: string): SourceFormat | null {
+  switch (ext) {
+    case "png":
+      return "png";
+    case "jpg":
+    case "jpeg":
+      return "jpg";
+    case "webp":
+      return "webp";
+    case "bmp":
+      return "bmp";
+    case "gif":
+      return "gif";
+    case "tif":
+    case "tiff":
+      return "tiff";
+    case "heic":
+    case "heif":
+      return "heic";
+    case "avif":
+      return "avif";
+    default:
+      return null;
+  }
+}
+
+/**
+ * MIME type of an image of type `source`, for decoding.
+ */
+export function getSourceMime(source: SourceFormat): string {
+  switch (source) {
+    case "jpg":
+      return "image/jpeg";
+    case "heic":
+      return "image/heic";
+    default:
+      return `image/${source}`;
+  }
+}
+
+/**
+ * True if `format` can store an alpha channel.
+ */
+export function supportsAlpha(format: EncodeFormat): boolean {
+  return format !== "jpeg";
+}
+
+/**
+ * True if images of type `source` may contain transparent pixels.
+ */
+export function mayHaveAlpha(source: SourceFormat): boolean {
+  return source !== "jpg";
+}
+
+/**
+ * The format an image of type `source` is natively re-encoded as when
+ * the policy says to keep it. Types that can't be written become PNG.
+ */
+export function getNativeFormat(source: SourceFormat): EncodeFormat {
+  switch (source) {
+    case "png":
+    case "bmp":
+    case "tiff":
+    case "heic":
+      return "png";
+    case "jpg":
+      return "jpeg";
+    case "webp":
+      return "webp";
+    case "gif":
+      return "gif";
+    case "avif":
+      return "avif";
+  }
+}
+
+/**
+ * True if re-encoding an image of type `source` can keep its type. BMP,
+ * TIFF and HEIC always change type, and so get renamed.
+ */
+export function keepsType(source: SourceFormat): boolean {
+  return source !== "bmp" && source !== "tiff" && source !== "heic";
+}
+
+/**
+ * True if images of type `source` are converted even when they are within
+ * the limits. TIFF and HEIC don't display in most apps, Obsidian included.
+ */
+export function alwaysConverts(source: SourceFormat): boolean {
+  return source === "tiff" || source === "heic";
+}
+
+const encoderSupport = new Map<EncodeFormat, boolean>();
+
+/**
+ * Record which formats can be encoded. Workers have no DOM canvas to
+ * probe with, so they are told what the main thread found.
+ */
+export function setEncoderSupport(support: Record<EncodeFormat, boolean>) {
+  for (const [format, supported] of Object.entries(support)) {
+    encoderSupport.set(format as EncodeFormat, supported);
+  }
+}
+
+/**
+ * True if this runtime's canvas can encode `format`. Canvases silently
+ * fall back to PNG for types they don't support, so this checks what a
+ * data URL actually comes back as. Results are cached.
+ */
+export function canEncode(format: EncodeFormat): boolean {
+  const cached = encoderSupport.get(format);
+  if (cached !== undefined) return cached;
+
+  let supported = format === "png";
+  if (!supported) {
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = 1;
+      canvas.height = 1;
+      const mime = ENCODE_MIME[format];
+      supported = canvas.toDataURL(mime).startsWith(`data:${mime}`);
+    } catch {
+      supported = false;
+    }
+  }
+
+  encoderSupport.set(format, supported);
+  return supported;
+}
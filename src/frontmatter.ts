@@ -0,0 +1,163 @@
+import { App, TFile } from "obsidian";
+import type { ResizeOverrides } from "./rules";
+import type { OutputFormat } from "./formats";
+import type { DuplicateCheck } from "./duplicates";
+
+/**
+ * Frontmatter keys a note can use to change how its images are resized.
+ *
+ * ```yaml
+ * image-resizer: skip       # or display / pixels, to set the resize mode
+ * image-resizer-max-width: 2560
+ * image-resizer-max-height: 1440
+ * image-resizer-quality: 92
+ * image-resizer-format: webp
+ * image-resizer-duplicates: off  # or exact / similar
+ * ```
+ */
+const KEY_MODE = "image-resizer";
+const KEY_MAX_WIDTH = "image-resizer-max-width";
+const KEY_MAX_HEIGHT = "image-resizer-max-height";
+const KEY_QUALITY = "image-resizer-quality";
+const KEY_FORMAT = "image-resizer-format";
+const KEY_DUPLICATES = "image-resizer-duplicates";
+
+/**
+ * Duplicate checks from least to most thorough.
+ */
+const DUPLICATE_CHECKS: DuplicateCheck[] = ["off", "exact", "similar"];
+
+/**
+ * A whole number from a number or numeric string, kept within
+ * `min`–`max`, or undefined if there is none.
+ */
+export function parseInteger(value: unknown, min: number, max: number): number | undefined {
+  const num =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? parseInt(value, 10)
+        : NaN;
+  if (!Number.isFinite(num)) return undefined;
+  return Math.min(max, Math.max(min, Math.round(num)));
+}
+
+/**
+ * An output format name, accepting `jpg` for JPEG, or undefined if it
+ * isn't one.
+ */
+export function parseFormat(value: unknown): OutputFormat | undefined {
+  if (typeof value !== "string") return undefined;
+  const format = value.trim().toLowerCase();
+  if (format === "jpg") return "jpeg";
+  if (format === "keep" || format === "jpeg" || format === "webp" || format === "avif") {
+    return format;
+  }
+  return undefined;
+}
+
+/**
+ * A duplicate check, or undefined if `value` isn't one.
+ */
+function parseDuplicateCheck(value: unknown): DuplicateCheck | undefined {
+  if (typeof value !== "string") return undefined;
+  const check = value.trim().toLowerCase();
+  return DUPLICATE_CHECKS.find((c) => c === check);
+}
+
+/**
+ * Read resize overrides from a note's frontmatter via the metadata cache.
+ * Returns null if the note has none.
+ */
+export function readNoteOverrides(app: App, note: TFile): ResizeOverrides | null {
+  const frontmatter = app.metadataCache.getFileCache(note)?.frontmatter;
+  if (!frontmatter) return null;
+
+  const value: unknown = frontmatter[KEY_MODE];
+  const mode = typeof value === "string" ? value.trim().toLowerCase() : "";
+  const overrides: ResizeOverrides = {
+    skip: mode === "skip",
+    mode: mode === "display" || mode === "pixels" ? mode : undefined,
+    maxWidth: parseInteger(frontmatter[KEY_MAX_WIDTH], 0, 100000),
+    maxHeight: parseInteger(frontmatter[KEY_MAX_HEIGHT], 0, 100000),
+    quality: parseInteger(frontmatter[KEY_QUALITY], 1, 100),
+    outputFormat: parseFormat(frontmatter[KEY_FORMAT]),
+    duplicateCheck: parseDuplicateCheck(frontmatter[KEY_DUPLICATES]),
+  };
+
+  const hasAny =
+    overrides.skip ||
+    overrides.mode !== undefined ||
+    overrides.maxWidth !== undefined ||
+    overrides.maxHeight !== undefined ||
+    overrides.quality !== undefined ||
+    overrides.outputFormat !== undefined ||
+    overrides.duplicateCheck !== undefined;
+
+  return hasAny ? overrides : null;
+}
+
+/**
+ * Combine the overrides of every note that embeds the same image. Any note
+ * asking to skip wins; otherwise the most generous limits and quality are
+ * used so no note gets a smaller image than it asked for, and the least
+ * thorough duplicate check so no note is asked about duplicates it
+ * turned off.
+ */
+export function mergeNoteOverrides(list: ResizeOverrides[]): ResizeOverrides | null {
+  if (list.length === 0) return null;
+  if (list.length === 1) return list[0] ?? null;
+
+  const largest = (values: (number | undefined)[]): number | undefined => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    if (defined.length === 0) return undefined;
+    // 0 means "no limit", which is the most generous of all
+    return defined.includes(0) ? 0 : Math.max(...defined);
+  };
+
+  const formats = new Set(
+    list.map((o) => o.outputFormat).filter((f) => f !== undefined)
+  );
+  const checks = list.map((o) => o.duplicateCheck).filter((c) => c !== undefined);
+
+  return {
+    skip: list.some((o) => o.skip),
+    // Display sizing keeps the full resolution, which satisfies every note
+    mode: list.some((o) => o.mode === "display")
+      ? "display"
+      : list.find((o) => o.mode !== undefined)?.mode,
+    maxWidth: largest(list.map((o) => o.maxWidth)),
+    maxHeight: largest(list.map((o) => o.maxHeight)),
+    quality: largest(list.map((o) => o.quality)),
+    // Only change format if every note that has an opinion agrees;
+    // conflicting notes keep whatever format the image is in
+    outputFormat:
+      formats.size === 0 ? undefined : formats.size === 1 ? [...formats][0] : "keep",
+    duplicateCheck: DUPLICATE_CHECKS.find((c) => checks.includes(c)),
+  };
+}
+
+/**
+ * Build a map from each linked file's path to the notes that link to or
+ * embed it, from the metadata cache's resolved links.
+ */
+export function buildEmbedderIndex(app: App): Map<string, TFile[]> {
+  const index = new Map<string, TFile[]>();
+  const resolved = app.metadataCache.resolvedLinks;
+
+  for (const sourcePath in resolved) {
+    const targets = resolved[sourcePath];
+    if (!targets) continue;
+
+    const note = app.vault.getAbstractFileByPath(sourcePath);
+    if (!(note instanceof TFile)) continue;
+
+    for (const targetPath in targets) {
+      const list = index.get(targetPath) ?? [];
+      list.push(note);
+      index.set(targetPath, list);
+    }
+  }
+
+  return index;
+}
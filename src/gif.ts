@@ -0,0 +1,457 @@
+import { Raster, createRaster } from "./raster";
+import { quantizeRaster } from "./quantize";
+
+/**
+ * One frame as stored in the file: palette indices for a rectangle of the
+ * logical screen.
+ */
+interface GifFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  indices: Uint8Array;
+  /** RGB triples. */
+  palette: Uint8Array;
+  transparentIndex: number | null;
+  /** Delay before the next frame, in hundredths of a second. */
+  delay: number;
+  /** What happens to the frame's area before the next one is drawn. */
+  disposal: number;
+}
+
+export interface Gif {
+  width: number;
+  height: number;
+  /** Times to repeat (0 = forever), or null to play once. */
+  loopCount: number | null;
+  frames: GifFrame[];
+}
+
+/**
+ * A frame reduced to at most 256 colours, ready to encode.
+ */
+export interface IndexedFrame {
+  indices: Uint8Array;
+  palette: Uint8Array;
+  transparentIndex: number | null;
+  delay: number;
+}
+
+const DISPOSE_BACKGROUND = 2;
+const DISPOSE_PREVIOUS = 3;
+
+const MAX_CODES = 4096;
+
+/**
+ * Decode GIF LZW data into `pixelCount` indices. Truncated data leaves
+ * the remaining pixels at index 0, as browsers do.
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const first = new Uint8Array(MAX_CODES);
+  const length = new Uint16Array(MAX_CODES);
+  for (let i = 0; i < clear; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let prev = -1;
+  let acc = 0;
+  let bits = 0;
+  let pos = 0;
+  let o = 0;
+
+  while (o < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return out;
+      acc |= (data[pos++] ?? 0) << bits;
+      bits += 8;
+    }
+    const code = acc & ((1 << codeSize) - 1);
+    acc >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === end || code > next || (prev === -1 && code >= clear)) break;
+
+    if (prev !== -1 && next < MAX_CODES) {
+      // The code may be the one being defined right now (KwKwK)
+      prefix[next] = prev;
+      suffix[next] = code === next ? first[prev] ?? 0 : first[code] ?? 0;
+      first[next] = first[prev] ?? 0;
+      length[next] = (length[prev] ?? 0) + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+
+    const len = length[code] ?? 0;
+    let c = code;
+    for (let i = len - 1; i >= 0; i--) {
+      if (o + i < pixelCount) out[o + i] = suffix[c] ?? 0;
+      c = prefix[c] ?? 0;
+    }
+    o += len;
+    prev = code;
+  }
+
+  return out;
+}
+
+/**
+ * Reorder the rows of an interlaced frame into top-to-bottom order.
+ */
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(indices.length);
+  let row = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]] as const) {
+    for (let y = start; y < height; y += step) {
+      out.set(indices.subarray(row * width, (row + 1) * width), y * width);
+      row++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Read the size of a block of data sub-blocks starting at `pos`, and
+ * return the concatenated data and the position after the terminator.
+ */
+function readSubBlocks(data: Uint8Array, pos: number): { bytes: Uint8Array; end: number } {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  while (pos < data.length) {
+    const size = data[pos] ?? 0;
+    pos++;
+    if (size === 0) break;
+    parts.push(data.subarray(pos, pos + size));
+    total += size;
+    pos += size;
+  }
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, end: pos };
+}
+
+/**
+ * Parse a GIF into its frames, decoding the pixel data of each.
+ */
+export function readGif(data: Uint8Array): Gif {
+  const signature = String.fromCharCode(...data.subarray(0, 6));
+  if (signature !== "GIF87a" && signature !== "GIF89a") {
+    throw new Error("Not a GIF file");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const packed = data[10] ?? 0;
+  let pos = 13;
+
+  let globalPalette: Uint8Array | null = null;
+  if (packed & 0x80) {
+    const size = 3 * (1 << ((packed & 7) + 1));
+    globalPalette = data.slice(pos, pos + size);
+    pos += size;
+  }
+
+  const gif: Gif = { width, height, loopCount: null, frames: [] };
+  let delay = 0;
+  let disposal = 0;
+  let transparentIndex: number | null = null;
+
+  while (pos < data.length) {
+    const block = data[pos];
+    if (block === 0x3b) break;
+
+    if (block === 0x21) {
+      const label = data[pos + 1];
+      if (label === 0xf9) {
+        // Graphic control extension
+        const flags = data[pos + 3] ?? 0;
+        disposal = (flags >> 2) & 7;
+        delay = view.getUint16(pos + 4, true);
+        transparentIndex = flags & 1 ? data[pos + 6] ?? 0 : null;
+        pos = readSubBlocks(data, pos + 2).end;
+      } else if (label === 0xff) {
+        const app = String.fromCharCode(...data.subarray(pos + 3, pos + 14));
+        const { bytes, end } = readSubBlocks(data, pos + 2 + 12);
+        if ((app === "NETSCAPE2.0" || app === "ANIMEXTS1.0") && bytes[0] === 1) {
+          gif.loopCount = (bytes[1] ?? 0) | ((bytes[2] ?? 0) << 8);
+        }
+        pos = end;
+      } else {
+        pos = readSubBlocks(data, pos + 2).end;
+      }
+      continue;
+    }
+
+    if (block !== 0x2c) {
+      throw new Error(`Unexpected GIF block 0x${(block ?? 0).toString(16)}`);
+    }
+
+    const left = view.getUint16(pos + 1, true);
+    const top = view.getUint16(pos + 3, true);
+    const frameWidth = view.getUint16(pos + 5, true);
+    const frameHeight = view.getUint16(pos + 7, true);
+    const flags = data[pos + 9] ?? 0;
+    pos += 10;
+
+    let palette = globalPalette;
+    if (flags & 0x80) {
+      const size = 3 * (1 << ((flags & 7) + 1));
+      palette = data.slice(pos, pos + size);
+      pos += size;
+    }
+
+    const minCodeSize = data[pos] ?? 2;
+    const { bytes, end } = readSubBlocks(data, pos + 1);
+    pos = end;
+
+    let indices = lzwDecode(bytes, minCodeSize, frameWidth * frameHeight);
+    if (flags & 0x40) {
+      indices = deinterlace(indices, frameWidth, frameHeight);
+    }
+
+    gif.frames.push({
+      left,
+      top,
+      width: frameWidth,
+      height: frameHeight,
+      indices,
+      palette: palette ?? new Uint8Array(768),
+      transparentIndex,
+      delay,
+      disposal,
+    });
+
+    // A graphic control extension only applies to the frame after it
+    delay = 0;
+    disposal = 0;
+    transparentIndex = null;
+  }
+
+  if (gif.frames.length === 0) {
+    throw new Error("GIF has no frames");
+  }
+  return gif;
+}
+
+/**
+ * Play the animation, yielding every frame as the full logical screen
+ * looks once it's drawn. Each raster is a fresh copy.
+ */
+export function* compositeGif(gif: Gif): Generator<{ raster: Raster; delay: number }> {
+  const screen = createRaster(gif.width, gif.height);
+
+  for (const frame of gif.frames) {
+    const saved = frame.disposal === DISPOSE_PREVIOUS ? screen.data.slice() : null;
+
+    for (let y = 0; y < frame.height; y++) {
+      const sy = frame.top + y;
+      if (sy >= gif.height) break;
+      for (let x = 0; x < frame.width; x++) {
+        const sx = frame.left + x;
+        if (sx >= gif.width) break;
+        const index = frame.indices[y * frame.width + x] ?? 0;
+        if (index === frame.transparentIndex) continue;
+        const o = (sy * gif.width + sx) * 4;
+        screen.data[o] = frame.palette[index * 3] ?? 0;
+        screen.data[o + 1] = frame.palette[index * 3 + 1] ?? 0;
+        screen.data[o + 2] = frame.palette[index * 3 + 2] ?? 0;
+        screen.data[o + 3] = 255;
+      }
+    }
+
+    yield {
+      raster: { width: gif.width, height: gif.height, data: screen.data.slice() },
+      delay: frame.delay,
+    };
+
+    if (saved) {
+      screen.data.set(saved);
+    } else if (frame.disposal === DISPOSE_BACKGROUND) {
+      // Browsers clear to transparent rather than the background colour
+      for (let y = frame.top; y < Math.min(gif.height, frame.top + frame.height); y++) {
+        const start = (y * gif.width + frame.left) * 4;
+        const end = (y * gif.width + Math.min(gif.width, frame.left + frame.width)) * 4;
+        screen.data.fill(0, start, end);
+      }
+    }
+  }
+}
+
+/**
+ * Reduce a full-screen frame to a palette, in place. GIF transparency is
+ * all or nothing, so pixels under half opacity become transparent.
+ */
+export function indexFrame(raster: Raster, delay: number): IndexedFrame {
+  const { data } = raster;
+  for (let i = 3; i < data.length; i += 4) {
+    if ((data[i] ?? 0) < 128) {
+      data.fill(0, i - 3, i + 1);
+    } else {
+      data[i] = 255;
+    }
+  }
+  quantizeRaster(raster, 256);
+
+  const colors = new Map<number, number>();
+  const palette: number[] = [];
+  let transparentIndex: number | null = null;
+  const indices = new Uint8Array(raster.width * raster.height);
+
+  for (let p = 0; p < indices.length; p++) {
+    if (data[p * 4 + 3] === 0) {
+      if (transparentIndex === null) {
+        transparentIndex = palette.length / 3;
+        palette.push(0, 0, 0);
+      }
+      indices[p] = transparentIndex;
+      continue;
+    }
+    const rgb = ((data[p * 4] ?? 0) << 16) | ((data[p * 4 + 1] ?? 0) << 8) | (data[p * 4 + 2] ?? 0);
+    let index = colors.get(rgb);
+    if (index === undefined) {
+      index = palette.length / 3;
+      colors.set(rgb, index);
+      palette.push(rgb >> 16, (rgb >> 8) & 0xff, rgb & 0xff);
+    }
+    indices[p] = index;
+  }
+
+  return { indices, palette: Uint8Array.from(palette), transparentIndex, delay };
+}
+
+/**
+ * Compress indices with GIF's variable-width LZW, clearing the table
+ * whenever it fills up.
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out: number[] = [];
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let table = new Map<number, number>();
+  let acc = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(acc & 0xff);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  let current = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i] ?? 0;
+    const key = (current << 8) | k;
+    const found = table.get(key);
+    if (found !== undefined) {
+      current = found;
+      continue;
+    }
+
+    emit(current);
+    if (next === MAX_CODES) {
+      emit(clear);
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      table = new Map();
+    } else {
+      // The decoder adds each entry one code later than we do, so widen
+      // the codes as soon as the next entry won't fit
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    current = k;
+  }
+  emit(current);
+  emit(end);
+  if (bits > 0) out.push(acc & 0xff);
+
+  return Uint8Array.from(out);
+}
+
+/**
+ * Encode frames covering the whole `width`×`height` screen as a GIF, each
+ * with its own colour table. Every frame clears the screen when it's
+ * done, so transparent areas don't show the frame before.
+ */
+export function encodeGif(
+  width: number,
+  height: number,
+  loopCount: number | null,
+  frames: IndexedFrame[]
+): Uint8Array {
+  const out: number[] = [];
+  const u16 = (value: number) => out.push(value & 0xff, (value >> 8) & 0xff);
+
+  out.push(..."GIF89a".split("").map((c) => c.charCodeAt(0)));
+  u16(width);
+  u16(height);
+  out.push(0, 0, 0);
+
+  if (loopCount !== null) {
+    out.push(0x21, 0xff, 11, ..."NETSCAPE2.0".split("").map((c) => c.charCodeAt(0)));
+    out.push(3, 1);
+    u16(loopCount);
+    out.push(0);
+  }
+
+  for (const frame of frames) {
+    const colors = Math.max(2, frame.palette.length / 3);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(colors)));
+
+    out.push(0x21, 0xf9, 4, (DISPOSE_BACKGROUND << 2) | (frame.transparentIndex !== null ? 1 : 0));
+    u16(frame.delay);
+    out.push(frame.transparentIndex ?? 0, 0);
+
+    out.push(0x2c);
+    u16(0);
+    u16(0);
+    u16(width);
+    u16(height);
+    out.push(0x80 | (tableBits - 1));
+
+    const table = new Uint8Array(3 * (1 << tableBits));
+    table.set(frame.palette);
+    out.push(...table);
+
+    const minCodeSize = Math.max(2, tableBits);
+    out.push(minCodeSize);
+    const compressed = lzwEncode(frame.indices, minCodeSize);
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.subarray(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0);
+  }
+
+  out.push(0x3b);
+  return Uint8Array.from(out);
+}
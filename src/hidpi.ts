@@ -0,0 +1,84 @@
+import type { ImageResizerSettings } from "./settings";
+import { probeDimensions, probePngDensity } from "./probe";
+
+/**
+ * The screen an image was pasted on: its size in CSS pixels, and how many
+ * device pixels each CSS pixel covers.
+ */
+export interface Display {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * The display the app window is on right now.
+ */
+export function currentDisplay(): Display {
+  return {
+    width: window.screen.width,
+    height: window.screen.height,
+    pixelRatio: window.devicePixelRatio || 1,
+  };
+}
+
+/**
+ * Density a 1× screenshot is saved at. macOS multiplies it by the
+ * display's backing scale, so a Retina screenshot declares 144 DPI.
+ */
+const BASE_DPI = 72;
+
+/**
+ * Scales a declared density is trusted for. Other densities, like the
+ * 300 DPI of scans and print artwork, say nothing about a screen.
+ */
+const SCREEN_SCALES = [2, 3];
+
+/**
+ * How many times its 1× size a pasted image appears to be: 2 for a
+ * screenshot from a Retina display, say, or 1 if it doesn't look like a
+ * HiDPI screenshot.
+ *
+ * A PNG declaring 144 or 216 DPI is taken at its word. Otherwise the image
+ * counts as a screenshot of `display` if its width or height is exactly
+ * the screen's size in device pixels — a full-screen, full-width or
+ * full-height capture.
+ */
+export function screenshotScale(data: ArrayBuffer, display: Display | null): number {
+  const dpi = probePngDensity(data);
+  if (dpi !== null) {
+    const scale = Math.round(dpi / BASE_DPI);
+    if (SCREEN_SCALES.includes(scale) && Math.abs(dpi - scale * BASE_DPI) < 1) {
+      return scale;
+    }
+  }
+
+  if (!display || display.pixelRatio <= 1) return 1;
+  const dims = probeDimensions(data);
+  if (!dims) return 1;
+
+  const screenWidth = Math.round(display.width * display.pixelRatio);
+  const screenHeight = Math.round(display.height * display.pixelRatio);
+  return dims.width === screenWidth || dims.height === screenHeight ? display.pixelRatio : 1;
+}
+
+/**
+ * Settings whose dimension limits first bring the image in `data` down to
+ * 1/`scale` of its size; the configured limits still apply on top.
+ */
+export function limitToScale(
+  settings: ImageResizerSettings,
+  data: ArrayBuffer,
+  scale: number
+): ImageResizerSettings {
+  const dims = probeDimensions(data);
+  if (!dims || scale <= 1) return settings;
+
+  const width = Math.max(1, Math.round(dims.width / scale));
+  const height = Math.max(1, Math.round(dims.height / scale));
+  return {
+    ...settings,
+    maxWidth: settings.maxWidth > 0 ? Math.min(settings.maxWidth, width) : width,
+    maxHeight: settings.maxHeight > 0 ? Math.min(settings.maxHeight, height) : height,
+  };
+}
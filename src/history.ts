@@ -0,0 +1,407 @@
+import { ItemView, Setting, TFile, WorkspaceLeaf } from "obsidian";
+import type ImageResizerPlugin from "./main";
+import type { ImageSource } from "./sources";
+import type { ResizeResult } from "./resizer";
+import { getExtension, isImageFile } from "./resizer";
+import { probeDimensions } from "./probe";
+import { isInFolder } from "./archive";
+import { formatBytes } from "./preview";
+import { describeError } from "./batch";
+
+export const HISTORY_VIEW_TYPE = "image-resizer-history";
+
+/**
+ * Most operations the log keeps. The oldest are dropped first.
+ */
+const MAX_HISTORY = 2000;
+
+/**
+ * Most operations the history view lists at once.
+ */
+const MAX_ROWS = 200;
+
+/**
+ * How many of the largest unprocessed images the history view lists.
+ */
+const MAX_LARGEST = 10;
+
+/**
+ * What started an operation: an automatic resize of an image from one of
+ * the image sources, a batch run, a command on a single image, or another
+ * plugin or a URI through the API.
+ */
+export type HistorySource = ImageSource | "batch" | "command" | "api";
+
+export const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+  paste: "Paste",
+  drop: "Drop",
+  external: "Import",
+  batch: "Batch",
+  command: "Command",
+  api: "API",
+};
+
+/**
+ * What an operation did, or tried to do.
+ */
+export type HistoryAction = "resize" | "optimize" | "convert" | "edit" | "restore" | "display";
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+  resize: "Resized",
+  optimize: "Optimized",
+  convert: "Converted",
+  edit: "Edited",
+  restore: "Restored",
+  display: "Display width set",
+};
+
+/**
+ * Dimensions and byte size of an image.
+ */
+export interface ImageStats {
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+/**
+ * A logged operation on an image.
+ */
+export interface HistoryEntry {
+  /** Epoch milliseconds when it finished. */
+  time: number;
+  /** Path of the image afterwards, kept up to date through renames. */
+  path: string;
+  source: HistorySource;
+  action: HistoryAction;
+  /** The image before and after, where known. */
+  before: ImageStats | null;
+  after: ImageStats | null;
+  /** Extension the image had, and the one it was given if that changed. */
+  fromFormat: string;
+  toFormat: string | null;
+  /** Why it failed, or null if it didn't. */
+  error: string | null;
+}
+
+/**
+ * How far back the history view looks.
+ */
+type HistoryPeriod = "all" | "day" | "week" | "month" | "year";
+
+const HISTORY_PERIOD_LABELS: Record<HistoryPeriod, string> = {
+  all: "Any time",
+  day: "Last 24 hours",
+  week: "Last 7 days",
+  month: "Last 30 days",
+  year: "Last 365 days",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HISTORY_PERIOD_MS: Record<HistoryPeriod, number> = {
+  all: Infinity,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS,
+};
+
+/**
+ * Bytes saved by the successful operations among `entries`. Restoring an
+ * original takes back what resizing it had saved.
+ */
+export function savedBytes(entries: HistoryEntry[]): number {
+  let saved = 0;
+  for (const { action, before, after, error } of entries) {
+    if (error || !before || !after) continue;
+    if (action === "restore") saved -= Math.max(0, after.bytes - before.bytes);
+    else saved += Math.max(0, before.bytes - after.bytes);
+  }
+  // The resize a restore undid may be older than the entries looked at
+  return Math.max(0, saved);
+}
+
+/**
+ * Add `entry` to the end of `history`, dropping the oldest entries past
+ * the limit.
+ */
+export function appendHistory(history: HistoryEntry[], entry: HistoryEntry) {
+  history.push(entry);
+  if (history.length > MAX_HISTORY) {
+    history.splice(0, history.length - MAX_HISTORY);
+  }
+}
+
+/**
+ * Dimensions and size of the image in `data`, or null if its header
+ * can't be read.
+ */
+export function statsOf(data: ArrayBuffer): ImageStats | null {
+  const dims = probeDimensions(data);
+  return dims ? { width: dims.width, height: dims.height, bytes: data.byteLength } : null;
+}
+
+/**
+ * Log entry for an image at `originalPath`, `original` bytes long, that
+ * was resized into `result` and is now at `path`. The action is an
+ * optimize or a resize unless given.
+ */
+export function resultEntry(
+  path: string,
+  source: HistorySource,
+  originalPath: string,
+  original: ArrayBuffer,
+  result: ResizeResult,
+  action?: HistoryAction
+): HistoryEntry {
+  return {
+    time: Date.now(),
+    path,
+    source,
+    action: action ?? (result.optimized ? "optimize" : "resize"),
+    before: {
+      width: result.originalWidth,
+      height: result.originalHeight,
+      bytes: original.byteLength,
+    },
+    after: { width: result.width, height: result.height, bytes: result.data.byteLength },
+    fromFormat: getExtension(originalPath),
+    toFormat: result.newExtension,
+    error: null,
+  };
+}
+
+/**
+ * Log entry for an `action` on the image at `path` that failed with `err`.
+ */
+export function failureEntry(
+  path: string,
+  source: HistorySource,
+  action: HistoryAction,
+  err: unknown
+): HistoryEntry {
+  return {
+    time: Date.now(),
+    path,
+    source,
+    action,
+    before: null,
+    after: null,
+    fromFormat: getExtension(path),
+    toFormat: null,
+    error: describeError(err),
+  };
+}
+
+function formatTime(time: number): string {
+  return window.moment
+    ? window.moment(time).format("YYYY-MM-DD HH:mm")
+    : new Date(time).toLocaleString();
+}
+
+function describeStats(stats: ImageStats | null): string {
+  return stats ? `${stats.width}×${stats.height} · ${formatBytes(stats.bytes)}` : "—";
+}
+
+/**
+ * A side panel with the log of operations, filterable by folder and
+ * period, the bytes they saved, the images in the vault by format, and
+ * the largest images the plugin hasn't processed yet.
+ */
+export class HistoryView extends ItemView {
+  private folder = "";
+  private period: HistoryPeriod = "all";
+  private resultsEl: HTMLElement | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: ImageResizerPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Image resize history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("image-resizer-history");
+
+    new Setting(contentEl)
+      .setName("Folder")
+      .addText((text) =>
+        text
+          .setPlaceholder("All folders")
+          .setValue(this.folder)
+          .onChange((value) => {
+            this.folder = value.trim().replace(/\/+$/, "");
+            this.render();
+          })
+      );
+
+    new Setting(contentEl).setName("Period").addDropdown((dropdown) => {
+      for (const [period, label] of Object.entries(HISTORY_PERIOD_LABELS)) {
+        dropdown.addOption(period, label);
+      }
+      dropdown.setValue(this.period).onChange((value) => {
+        this.period = value as HistoryPeriod;
+        this.render();
+      });
+    });
+
+    this.resultsEl = contentEl.createDiv();
+    this.render();
+  }
+
+  async onClose() {
+    this.contentEl.empty();
+    this.resultsEl = null;
+  }
+
+  private inFolder(path: string): boolean {
+    return !this.folder || isInFolder(path, this.folder);
+  }
+
+  /**
+   * Show the log and totals for the current filters.
+   */
+  render() {
+    const el = this.resultsEl;
+    if (!el) return;
+    el.empty();
+
+    const since = Date.now() - HISTORY_PERIOD_MS[this.period];
+    const entries = this.plugin.history.filter(
+      (entry) => entry.time >= since && this.inFolder(entry.path)
+    );
+    const images = this.app.vault
+      .getFiles()
+      .filter((file) => isImageFile(file.name) && this.inFolder(file.path));
+
+    this.renderTotals(el, entries, images);
+    this.renderLargest(el, images);
+    this.renderLog(el, entries);
+  }
+
+  private renderTotals(el: HTMLElement, entries: HistoryEntry[], images: TFile[]) {
+    new Setting(el).setName("Totals").setHeading();
+
+    const failed = entries.filter((entry) => entry.error).length;
+    el.createEl("p", {
+      text:
+        `${entries.length - failed} operation(s) saved ${formatBytes(savedBytes(entries))}` +
+        (failed > 0 ? `, ${failed} failed.` : "."),
+      cls: "setting-item-description",
+    });
+
+    const byFormat = new Map<string, { count: number; bytes: number }>();
+    for (const file of images) {
+      const format = getExtension(file.name).toUpperCase();
+      const totals = byFormat.get(format) ?? { count: 0, bytes: 0 };
+      totals.count++;
+      totals.bytes += file.stat.size;
+      byFormat.set(format, totals);
+    }
+
+    const table = el.createDiv({ cls: "image-resizer-preview" }).createEl("table");
+    const header = table.createEl("thead").createEl("tr");
+    for (const label of ["Format", "Images", "Size"]) {
+      header.createEl("th", { text: label });
+    }
+    const body = table.createEl("tbody");
+    for (const [format, { count, bytes }] of [...byFormat].sort((a, b) => b[1].bytes - a[1].bytes)) {
+      const row = body.createEl("tr");
+      row.createEl("td", { text: format });
+      row.createEl("td", { text: String(count) });
+      row.createEl("td", { text: formatBytes(bytes) });
+    }
+  }
+
+  /**
+   * List the largest images without a successful operation in the log or
+   * an archived original.
+   */
+  private renderLargest(el: HTMLElement, images: TFile[]) {
+    new Setting(el).setName("Largest unprocessed images").setHeading();
+
+    const processed = new Set(Object.keys(this.plugin.originals));
+    for (const entry of this.plugin.history) {
+      if (!entry.error) processed.add(entry.path);
+    }
+    const largest = images
+      .filter((file) => !processed.has(file.path))
+      .sort((a, b) => b.stat.size - a.stat.size)
+      .slice(0, MAX_LARGEST);
+
+    if (largest.length === 0) {
+      el.createEl("p", { text: "Every image has been processed.", cls: "setting-item-description" });
+      return;
+    }
+
+    const list = el.createEl("ul");
+    for (const file of largest) {
+      const item = list.createEl("li");
+      const link = item.createEl("a", { text: file.path, cls: "image-resizer-preview-path" });
+      link.addEventListener("click", () => {
+        void this.app.workspace.getLeaf(true).openFile(file);
+      });
+      item.appendText(` · ${formatBytes(file.stat.size)}`);
+    }
+  }
+
+  private renderLog(el: HTMLElement, entries: HistoryEntry[]) {
+    new Setting(el).setName("History").setHeading();
+
+    if (entries.length === 0) {
+      el.createEl("p", { text: "Nothing logged yet.", cls: "setting-item-description" });
+      return;
+    }
+    if (entries.length > MAX_ROWS) {
+      el.createEl("p", {
+        text: `Showing the latest ${MAX_ROWS} of ${entries.length}.`,
+        cls: "setting-item-description",
+      });
+    }
+
+    const table = el.createDiv({ cls: "image-resizer-preview" }).createEl("table");
+    const header = table.createEl("thead").createEl("tr");
+    for (const label of ["When", "Image", "Source", "Before", "After", "Format"]) {
+      header.createEl("th", { text: label });
+    }
+
+    const body = table.createEl("tbody");
+    for (const entry of entries.slice(-MAX_ROWS).reverse()) {
+      const row = body.createEl("tr", { cls: entry.error ? "image-resizer-history-failed" : "" });
+      row.createEl("td", { text: formatTime(entry.time) });
+
+      const image = row.createEl("td", { cls: "image-resizer-preview-path" });
+      image.createDiv({ text: entry.path });
+      image.createDiv({
+        text: entry.error
+          ? `${HISTORY_ACTION_LABELS[entry.action]} failed: ${entry.error}`
+          : HISTORY_ACTION_LABELS[entry.action],
+        cls: "setting-item-description",
+      });
+
+      row.createEl("td", { text: HISTORY_SOURCE_LABELS[entry.source] });
+      row.createEl("td", { text: describeStats(entry.before) });
+      row.createEl("td", { text: describeStats(entry.after) });
+      row.createEl("td", {
+        text: entry.toFormat
+          ? `${entry.fromFormat.toUpperCase()} → ${entry.toFormat.toUpperCase()}`
+          : entry.fromFormat.toUpperCase(),
+      });
+    }
+  }
+}
@@ -0,0 +1,1106 @@
+import { Raster, createRaster } from "./raster";
+
+/**
+ * Natural (row-major) index of each coefficient in zigzag order.
+ */
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48,
+  41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22,
+  15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+]);
+
+/**
+ * Orthonormal 8-point DCT basis: DCT_BASIS[x * 8 + u] = C(u)/2 · cos((2x+1)uπ/16).
+ * The forward transform is Bᵀ·f·B and the inverse B·F·Bᵀ.
+ */
+const DCT_BASIS = (() => {
+  const basis = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      basis[x * 8 + u] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+/**
+ * Inverse DCT of one block of dequantised coefficients (natural order),
+ * writing level-shifted samples to `out`.
+ */
+function inverseDct(coefficients: Float32Array, out: Uint8Array, outOffset: number, stride: number) {
+  const temp = new Float32Array(64);
+
+  // Rows: temp[v][x] = Σu F[v][u]·B[x][u]
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) {
+        sum += (coefficients[v * 8 + u] ?? 0) * (DCT_BASIS[x * 8 + u] ?? 0);
+      }
+      temp[v * 8 + x] = sum;
+    }
+  }
+
+  // Columns: f[y][x] = Σv B[y][v]·temp[v][x]
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += (DCT_BASIS[y * 8 + v] ?? 0) * (temp[v * 8 + x] ?? 0);
+      }
+      out[outOffset + y * stride + x] = clampByte(sum + 128);
+    }
+  }
+}
+
+/**
+ * Forward DCT of one block of level-shifted samples (natural order).
+ */
+function forwardDct(samples: Float32Array, out: Float32Array) {
+  const temp = new Float32Array(64);
+
+  // Rows: temp[y][u] = Σx f[y][x]·B[x][u]
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) {
+        sum += (samples[y * 8 + x] ?? 0) * (DCT_BASIS[x * 8 + u] ?? 0);
+      }
+      temp[y * 8 + u] = sum;
+    }
+  }
+
+  // Columns: F[v][u] = Σy B[y][v]·temp[y][u]
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) {
+        sum += (DCT_BASIS[y * 8 + v] ?? 0) * (temp[y * 8 + u] ?? 0);
+      }
+      out[v * 8 + u] = sum;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+
+/**
+ * A Huffman table as a 16-bit lookup: each entry is the code length in
+ * the high bits and the symbol in the low byte, or 0 for an invalid code.
+ */
+type HuffmanLookup = Uint32Array;
+
+function buildLookup(counts: Uint8Array, symbols: Uint8Array): HuffmanLookup {
+  const lookup = new Uint32Array(1 << 16);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < (counts[length - 1] ?? 0); i++) {
+      const symbol = symbols[k++] ?? 0;
+      const shift = 16 - length;
+      const first = code << shift;
+      lookup.fill((length << 8) | symbol, first, first + (1 << shift));
+      code++;
+    }
+    code <<= 1;
+  }
+  return lookup;
+}
+
+/**
+ * Reads entropy-coded bits, removing stuffed zero bytes. Stops at a
+ * marker and returns zero bits from then on.
+ */
+class BitReader {
+  private acc = 0;
+  private count = 0;
+  markerHit = false;
+
+  constructor(
+    private data: Uint8Array,
+    public pos: number
+  ) {}
+
+  private fill() {
+    while (this.count <= 24) {
+      let byte = 0;
+      if (!this.markerHit && this.pos < this.data.length) {
+        byte = this.data[this.pos] ?? 0;
+        if (byte === 0xff) {
+          const next = this.data[this.pos + 1] ?? 0;
+          if (next === 0) {
+            this.pos += 2;
+          } else {
+            this.markerHit = true;
+            byte = 0;
+          }
+        } else {
+          this.pos++;
+        }
+      }
+      this.acc = ((this.acc << 8) | byte) >>> 0;
+      this.count += 8;
+    }
+  }
+
+  bits(n: number): number {
+    if (n === 0) return 0;
+    this.fill();
+    this.count -= n;
+    return (this.acc >>> this.count) & ((1 << n) - 1);
+  }
+
+  bit(): number {
+    return this.bits(1);
+  }
+
+  /** Read `n` bits as a signed value (JPEG's EXTEND). */
+  signed(n: number): number {
+    if (n === 0) return 0;
+    const value = this.bits(n);
+    return value < 1 << (n - 1) ? value - (1 << n) + 1 : value;
+  }
+
+  decode(lookup: HuffmanLookup): number {
+    this.fill();
+    const entry = lookup[(this.acc >>> (this.count - 16)) & 0xffff] ?? 0;
+    if (entry === 0) throw new Error("Invalid JPEG Huffman code");
+    this.count -= entry >>> 8;
+    return entry & 0xff;
+  }
+
+  /** Drop buffered bits, e.g. at a restart marker. */
+  reset() {
+    this.acc = 0;
+    this.count = 0;
+    this.markerHit = false;
+  }
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per line/column including MCU padding. */
+  paddedBlocksPerLine: number;
+  paddedBlocksPerColumn: number;
+  coefficients: Int16Array;
+  pred: number;
+  dcTable: HuffmanLookup | null;
+  acTable: HuffmanLookup | null;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  components: FrameComponent[];
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+interface ScanParams {
+  components: FrameComponent[];
+  ss: number;
+  se: number;
+  ah: number;
+  al: number;
+  restartInterval: number;
+}
+
+/**
+ * Decode the entropy-coded data of one scan, starting at `pos`. Returns
+ * the position after it.
+ */
+function decodeScan(data: Uint8Array, pos: number, frame: Frame, scan: ScanParams): number {
+  const { components, ss, se, ah, al, restartInterval } = scan;
+  const reader = new BitReader(data, pos);
+  let eobrun = 0;
+
+  const decodeBaseline = (c: FrameComponent, block: number) => {
+    const t = reader.decode(c.dcTable!);
+    c.pred += reader.signed(t);
+    c.coefficients[block] = c.pred;
+    for (let k = 1; k < 64; ) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[block + (ZIGZAG[k] ?? 0)] = reader.signed(s);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (c: FrameComponent, block: number) => {
+    const t = reader.decode(c.dcTable!);
+    c.pred += reader.signed(t);
+    c.coefficients[block] = c.pred * (1 << al);
+  };
+
+  const decodeDcRefine = (c: FrameComponent, block: number) => {
+    if (reader.bit()) c.coefficients[block] = (c.coefficients[block] ?? 0) | (1 << al);
+  };
+
+  const decodeAcFirst = (c: FrameComponent, block: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    for (let k = ss; k <= se; ) {
+      const rs = reader.decode(c.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = (1 << r) - 1;
+          if (r) eobrun += reader.bits(r);
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[block + (ZIGZAG[k] ?? 0)] = reader.signed(s) * (1 << al);
+      k++;
+    }
+  };
+
+  const decodeAcRefine = (c: FrameComponent, block: number) => {
+    const coef = c.coefficients;
+    const p1 = 1 << al;
+    const m1 = -1 << al;
+
+    const refine = (z: number) => {
+      const value = coef[z] ?? 0;
+      if (reader.bit() && (value & p1) === 0) {
+        coef[z] = value + (value >= 0 ? p1 : m1);
+      }
+    };
+
+    let k = ss;
+    if (eobrun <= 0) {
+      while (k <= se) {
+        const rs = reader.decode(c.acTable!);
+        let r = rs >> 4;
+        let value = 0;
+        if ((rs & 15) !== 0) {
+          value = reader.bit() ? p1 : m1;
+        } else if (r !== 15) {
+          eobrun = 1 << r;
+          if (r) eobrun += reader.bits(r);
+          break;
+        }
+
+        // Skip r zero coefficients, refining non-zero ones on the way
+        while (k <= se) {
+          const z = block + (ZIGZAG[k] ?? 0);
+          if ((coef[z] ?? 0) !== 0) {
+            refine(z);
+          } else if (--r < 0) {
+            break;
+          }
+          k++;
+        }
+        if (value && k <= se) {
+          coef[block + (ZIGZAG[k] ?? 0)] = value;
+        }
+        k++;
+      }
+    }
+
+    if (eobrun > 0) {
+      for (; k <= se; k++) {
+        const z = block + (ZIGZAG[k] ?? 0);
+        if ((coef[z] ?? 0) !== 0) refine(z);
+      }
+      eobrun--;
+    }
+  };
+
+  let decodeBlock: (c: FrameComponent, block: number) => void;
+  if (!frame.progressive) decodeBlock = decodeBaseline;
+  else if (ss === 0) decodeBlock = ah === 0 ? decodeDcFirst : decodeDcRefine;
+  else decodeBlock = ah === 0 ? decodeAcFirst : decodeAcRefine;
+
+  const blockOffset = (c: FrameComponent, row: number, col: number) =>
+    (row * c.paddedBlocksPerLine + col) * 64;
+
+  // A single-component scan covers only that component's own blocks, one
+  // per MCU; an interleaved scan covers whole MCUs
+  const single = components.length === 1 ? components[0] : null;
+  const totalMcus = single
+    ? single.blocksPerLine * single.blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  const resetPredictors = () => {
+    for (const c of components) c.pred = 0;
+    eobrun = 0;
+  };
+  resetPredictors();
+
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      // Expect an RSTn marker; skip to it and start afresh
+      reader.reset();
+      let p = reader.pos;
+      while (p + 1 < data.length && !(data[p] === 0xff && (data[p + 1] ?? 0) >= 0xd0 && (data[p + 1] ?? 0) <= 0xd7)) {
+        p++;
+      }
+      reader.pos = p + 2;
+      resetPredictors();
+    }
+
+    if (single) {
+      const row = Math.floor(mcu / single.blocksPerLine);
+      const col = mcu % single.blocksPerLine;
+      decodeBlock(single, blockOffset(single, row, col));
+      continue;
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+    const mcuCol = mcu % frame.mcusPerLine;
+    for (const c of components) {
+      for (let v = 0; v < c.v; v++) {
+        for (let h = 0; h < c.h; h++) {
+          decodeBlock(c, blockOffset(c, mcuRow * c.v + v, mcuCol * c.h + h));
+        }
+      }
+    }
+  }
+
+  // Find the marker that ends the scan
+  let p = reader.pos;
+  while (p + 1 < data.length && !(data[p] === 0xff && data[p + 1] !== 0 && !((data[p + 1] ?? 0) >= 0xd0 && (data[p + 1] ?? 0) <= 0xd7))) {
+    p++;
+  }
+  return p;
+}
+
+/**
+ * Turn a component's coefficients into a plane of samples.
+ */
+function componentPlane(c: FrameComponent, quant: Uint16Array): Uint8Array {
+  const stride = c.paddedBlocksPerLine * 8;
+  const plane = new Uint8Array(stride * c.paddedBlocksPerColumn * 8);
+  const dequantised = new Float32Array(64);
+
+  for (let row = 0; row < c.paddedBlocksPerColumn; row++) {
+    for (let col = 0; col < c.paddedBlocksPerLine; col++) {
+      const block = (row * c.paddedBlocksPerLine + col) * 64;
+      for (let i = 0; i < 64; i++) {
+        dequantised[i] = (c.coefficients[block + i] ?? 0) * (quant[i] ?? 1);
+      }
+      inverseDct(dequantised, plane, row * 8 * stride + col * 8, stride);
+    }
+  }
+  return plane;
+}
+
+/**
+ * Decode a baseline or progressive Huffman-coded JPEG (greyscale, YCbCr,
+ * RGB or Adobe CMYK/YCCK) to RGBA. Chroma is upsampled by replication.
+ */
+export function decodeJpeg(data: Uint8Array): Raster {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error("Not a JPEG file");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanLookup[] = [];
+  const acTables: HuffmanLookup[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let jfif = false;
+
+  let pos = 2;
+  while (pos + 4 <= data.length) {
+    if (data[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = data[pos + 1] ?? 0;
+    if (marker === 0xff || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+      pos++;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = view.getUint16(pos + 2);
+    const start = pos + 4;
+    const end = pos + 2 + length;
+
+    switch (marker) {
+      case 0xdb: {
+        // DQT
+        let p = start;
+        while (p < end) {
+          const precision = (data[p] ?? 0) >> 4;
+          const id = (data[p] ?? 0) & 15;
+          const table = new Uint16Array(64);
+          p++;
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k] ?? 0] = precision ? view.getUint16(p + k * 2) : data[p + k] ?? 0;
+          }
+          p += precision ? 128 : 64;
+          quantTables[id] = table;
+        }
+        break;
+      }
+      case 0xc4: {
+        // DHT
+        let p = start;
+        while (p < end) {
+          const tableClass = (data[p] ?? 0) >> 4;
+          const id = (data[p] ?? 0) & 15;
+          const counts = data.subarray(p + 1, p + 17);
+          const total = counts.reduce((sum, n) => sum + n, 0);
+          const symbols = data.subarray(p + 17, p + 17 + total);
+          (tableClass === 0 ? dcTables : acTables)[id] = buildLookup(counts, symbols);
+          p += 17 + total;
+        }
+        break;
+      }
+      case 0xdd:
+        restartInterval = view.getUint16(start);
+        break;
+      case 0xe0:
+        if (String.fromCharCode(...data.subarray(start, start + 4)) === "JFIF") jfif = true;
+        break;
+      case 0xee:
+        if (String.fromCharCode(...data.subarray(start, start + 5)) === "Adobe") {
+          adobeTransform = data[start + 11] ?? 0;
+        }
+        break;
+      case 0xc0:
+      case 0xc1:
+      case 0xc2: {
+        const height = view.getUint16(start + 1);
+        const width = view.getUint16(start + 3);
+        const count = data[start + 5] ?? 0;
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const p = start + 6 + i * 3;
+          components.push({
+            id: data[p] ?? 0,
+            h: (data[p + 1] ?? 0x11) >> 4 || 1,
+            v: (data[p + 1] ?? 0x11) & 15 || 1,
+            quantTable: data[p + 2] ?? 0,
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            paddedBlocksPerLine: 0,
+            paddedBlocksPerColumn: 0,
+            coefficients: new Int16Array(0),
+            pred: 0,
+            dcTable: null,
+            acTable: null,
+          });
+        }
+        if (!width || !height || components.length === 0) {
+          throw new Error("Invalid JPEG frame header");
+        }
+
+        const maxH = Math.max(...components.map((c) => c.h));
+        const maxV = Math.max(...components.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / maxV) / 8);
+          c.paddedBlocksPerLine = mcusPerLine * c.h;
+          c.paddedBlocksPerColumn = mcusPerColumn * c.v;
+          c.coefficients = new Int16Array(c.paddedBlocksPerLine * c.paddedBlocksPerColumn * 64);
+        }
+
+        frame = {
+          width,
+          height,
+          progressive: marker === 0xc2,
+          components,
+          maxH,
+          maxV,
+          mcusPerLine,
+          mcusPerColumn,
+        };
+        break;
+      }
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new Error("Lossless, hierarchical and arithmetic-coded JPEGs aren't supported");
+      case 0xda: {
+        // SOS
+        if (!frame) throw new Error("JPEG scan before frame header");
+        const count = data[start] ?? 0;
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = data[start + 1 + i * 2] ?? 0;
+          const tables = data[start + 2 + i * 2] ?? 0;
+          const c = frame.components.find((fc) => fc.id === id);
+          if (!c) throw new Error("JPEG scan references an unknown component");
+          c.dcTable = dcTables[tables >> 4] ?? c.dcTable;
+          c.acTable = acTables[tables & 15] ?? c.acTable;
+          components.push(c);
+        }
+        const p = start + 1 + count * 2;
+        pos = decodeScan(data, end, frame, {
+          components,
+          ss: data[p] ?? 0,
+          se: data[p + 1] ?? 63,
+          ah: (data[p + 2] ?? 0) >> 4,
+          al: (data[p + 2] ?? 0) & 15,
+          restartInterval,
+        });
+        continue;
+      }
+    }
+
+    pos = end;
+  }
+
+  if (!frame) throw new Error("JPEG has no frame header");
+
+  const { width, height, components, maxH, maxV } = frame;
+  const planes = components.map((c) =>
+    componentPlane(c, quantTables[c.quantTable] ?? new Uint16Array(64).fill(1))
+  );
+
+  // Component ids 'R', 'G', 'B' or an Adobe marker saying so mean the
+  // samples are RGB rather than YCbCr
+  const rgbIds = components.map((c) => c.id).join() === "82,71,66";
+  const transform =
+    components.length === 3
+      ? adobeTransform !== null
+        ? adobeTransform !== 0
+        : jfif || !rgbIds
+      : components.length === 4 && adobeTransform === 2;
+
+  const out = createRaster(width, height);
+  const sample = (i: number, x: number, y: number): number => {
+    const c = components[i]!;
+    const sx = Math.floor((x * c.h) / maxH);
+    const sy = Math.floor((y * c.v) / maxV);
+    return planes[i]?.[sy * c.paddedBlocksPerLine * 8 + sx] ?? 0;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r: number;
+      let g: number;
+      let b: number;
+
+      if (components.length < 3) {
+        r = g = b = sample(0, x, y);
+      } else {
+        const c0 = sample(0, x, y);
+        const c1 = sample(1, x, y);
+        const c2 = sample(2, x, y);
+        if (transform) {
+          r = clampByte(c0 + 1.402 * (c2 - 128));
+          g = clampByte(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+          b = clampByte(c0 + 1.772 * (c1 - 128));
+        } else {
+          r = c0;
+          g = c1;
+          b = c2;
+        }
+        if (components.length === 4) {
+          // Adobe stores CMYK inverted
+          const k = sample(3, x, y);
+          r = clampByte((r * k) / 255);
+          g = clampByte((g * k) / 255);
+          b = clampByte((b * k) / 255);
+        }
+      }
+
+      out.data[o] = r;
+      out.data[o + 1] = g;
+      out.data[o + 2] = b;
+      out.data[o + 3] = 255;
+    }
+  }
+
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+
+/**
+ * Example quantisation tables from the JPEG standard (Annex K), natural order.
+ */
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24,
+  40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103,
+  77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72,
+  92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99,
+  99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99,
+];
+
+/**
+ * Quality at or above which chroma is kept at full resolution (4:4:4)
+ * instead of halved both ways (4:2:0).
+ */
+const FULL_CHROMA_QUALITY = 90;
+
+/**
+ * Scale a base table to `quality` (1–100) the way libjpeg does.
+ */
+function scaleQuant(base: number[], quality: number): Uint16Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return Uint16Array.from(base, (value) =>
+    Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100)))
+  );
+}
+
+/**
+ * Estimate the libjpeg quality a JPEG was saved at, by finding the
+ * quality whose scaled luma table is closest to the file's first
+ * quantisation table. Returns null if the file has none.
+ */
+export function estimateJpegQuality(data: Uint8Array): number | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let luma: Uint16Array | null = null;
+
+  let pos = 2;
+  while (!luma && pos + 4 <= data.length && data[pos] === 0xff) {
+    const marker = data[pos + 1] ?? 0;
+    // Stop at start of scan; tables all come before it
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = view.getUint16(pos + 2);
+    const end = Math.min(data.length, pos + 2 + length);
+    if (marker === 0xdb) {
+      let p = pos + 4;
+      while (p < end) {
+        const precision = (data[p] ?? 0) >> 4;
+        const id = (data[p] ?? 0) & 15;
+        p++;
+        if (id === 0 && p + (precision ? 128 : 64) <= end) {
+          luma = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            luma[ZIGZAG[k] ?? 0] = precision ? view.getUint16(p + k * 2) : data[p + k] ?? 0;
+          }
+        }
+        p += precision ? 128 : 64;
+      }
+    }
+    pos += 2 + length;
+  }
+  if (!luma) return null;
+
+  let best = 1;
+  let bestError = Infinity;
+  for (let quality = 1; quality <= 100; quality++) {
+    const table = scaleQuant(LUMA_QUANT, quality);
+    let error = 0;
+    for (let i = 0; i < 64; i++) {
+      error += Math.abs((table[i] ?? 0) - (luma[i] ?? 0));
+    }
+    if (error < bestError) {
+      best = quality;
+      bestError = error;
+    }
+  }
+  return best;
+}
+
+/**
+ * Number of bits needed for the magnitude of `value` (its JPEG category).
+ */
+function category(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+interface HuffmanSpec {
+  counts: Uint8Array;
+  symbols: Uint8Array;
+}
+
+/**
+ * Build an optimal, length-limited Huffman table for symbol frequencies,
+ * following the procedure in the JPEG standard (Annex K.2).
+ */
+function optimalTable(frequencies: Uint32Array): HuffmanSpec {
+  const freq = new Float64Array(257);
+  freq.set(frequencies);
+  // Reserve one code point so no code is all ones
+  freq[256] = 1;
+
+  const codeSize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+
+  for (;;) {
+    let c1 = -1;
+    let c2 = -1;
+    let v1 = Infinity;
+    let v2 = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      const f = freq[i] ?? 0;
+      if (f === 0) continue;
+      if (f <= v1) {
+        v2 = v1;
+        c2 = c1;
+        v1 = f;
+        c1 = i;
+      } else if (f <= v2) {
+        v2 = f;
+        c2 = i;
+      }
+    }
+    if (c2 < 0) break;
+
+    freq[c1] = (freq[c1] ?? 0) + (freq[c2] ?? 0);
+    freq[c2] = 0;
+
+    codeSize[c1] = (codeSize[c1] ?? 0) + 1;
+    while ((others[c1] ?? -1) >= 0) {
+      c1 = others[c1] ?? -1;
+      codeSize[c1] = (codeSize[c1] ?? 0) + 1;
+    }
+    others[c1] = c2;
+
+    codeSize[c2] = (codeSize[c2] ?? 0) + 1;
+    while ((others[c2] ?? -1) >= 0) {
+      c2 = others[c2] ?? -1;
+      codeSize[c2] = (codeSize[c2] ?? 0) + 1;
+    }
+  }
+
+  const bits = new Int32Array(33);
+  for (let i = 0; i <= 256; i++) {
+    const size = codeSize[i] ?? 0;
+    if (size) bits[size] = (bits[size] ?? 0) + 1;
+  }
+
+  // Limit code lengths to 16 bits
+  for (let i = 32; i > 16; i--) {
+    while ((bits[i] ?? 0) > 0) {
+      let j = i - 2;
+      while ((bits[j] ?? 0) === 0) j--;
+      bits[i] = (bits[i] ?? 0) - 2;
+      bits[i - 1] = (bits[i - 1] ?? 0) + 1;
+      bits[j + 1] = (bits[j + 1] ?? 0) + 2;
+      bits[j] = (bits[j] ?? 0) - 1;
+    }
+  }
+
+  // Remove the reserved code point from the longest length
+  let longest = 16;
+  while ((bits[longest] ?? 0) === 0) longest--;
+  bits[longest] = (bits[longest] ?? 0) - 1;
+
+  const symbols: number[] = [];
+  for (let length = 1; length <= 32; length++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (codeSize[symbol] === length) symbols.push(symbol);
+    }
+  }
+
+  return { counts: Uint8Array.from(bits.subarray(1, 17)), symbols: Uint8Array.from(symbols) };
+}
+
+/**
+ * Code and length for each symbol of a Huffman table.
+ */
+function huffmanCodes({ counts, symbols }: HuffmanSpec): { codes: Uint16Array; lengths: Uint8Array } {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < (counts[length - 1] ?? 0); i++) {
+      const symbol = symbols[k++] ?? 0;
+      codes[symbol] = code++;
+      lengths[symbol] = length;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private acc = 0;
+  private count = 0;
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.acc = (this.acc << 1) | ((value >> i) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.acc);
+        // Stuff a zero after 0xFF so it isn't read as a marker
+        if (this.acc === 0xff) this.bytes.push(0);
+        this.acc = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  /** Pad the last byte with ones and return everything written. */
+  finish(): Uint8Array {
+    if (this.count > 0) this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+interface EncodeComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantId: number;
+  tableId: number;
+  /** Quantised coefficients in zigzag order, block by block in MCU order. */
+  blocks: Int16Array[];
+}
+
+/**
+ * Call `emit` with the Huffman symbol and extra bits of every coefficient,
+ * in file order. Run once to count symbols and once to write them.
+ */
+function walkSymbols(
+  components: EncodeComponent[],
+  blocksPerMcu: number[],
+  mcuCount: number,
+  emit: (table: "dc" | "ac", tableId: number, symbol: number, extra: number, extraBits: number) => void
+) {
+  const pred = components.map(() => 0);
+
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    components.forEach((c, ci) => {
+      const perMcu = blocksPerMcu[ci] ?? 1;
+      for (let b = 0; b < perMcu; b++) {
+        const block = c.blocks[mcu * perMcu + b]!;
+
+        const diff = (block[0] ?? 0) - (pred[ci] ?? 0);
+        pred[ci] = block[0] ?? 0;
+        const dcSize = category(diff);
+        emit("dc", c.tableId, dcSize, diff < 0 ? diff - 1 : diff, dcSize);
+
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+          const value = block[k] ?? 0;
+          if (value === 0) {
+            run++;
+            continue;
+          }
+          while (run > 15) {
+            emit("ac", c.tableId, 0xf0, 0, 0);
+            run -= 16;
+          }
+          const size = category(value);
+          emit("ac", c.tableId, (run << 4) | size, value < 0 ? value - 1 : value, size);
+          run = 0;
+        }
+        if (run > 0) emit("ac", c.tableId, 0x00, 0, 0);
+      }
+    });
+  }
+}
+
+function segment(marker: number, payload: number[] | Uint8Array): Uint8Array {
+  const out = new Uint8Array(payload.length + 4);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+}
+
+/**
+ * Encode a raster as a baseline JPEG at `quality` (1–100), ignoring alpha.
+ * Greyscale images are written with a single component, colour ones as
+ * 4:2:0 YCbCr (4:4:4 at high quality), and the Huffman tables are
+ * optimised for the image as mozjpeg does. The output depends only on
+ * the pixels and quality.
+ */
+export function encodeJpeg(raster: Raster, quality: number): Uint8Array {
+  const { width, height, data } = raster;
+
+  let gray = true;
+  for (let i = 0; i < data.length && gray; i += 4) {
+    if (data[i] !== data[i + 1] || data[i + 1] !== data[i + 2]) gray = false;
+  }
+
+  const subsample = !gray && quality < FULL_CHROMA_QUALITY ? 2 : 1;
+  const mcuSize = 8 * subsample;
+  const mcusPerLine = Math.ceil(width / mcuSize);
+  const mcusPerColumn = Math.ceil(height / mcuSize);
+  const mcuCount = mcusPerLine * mcusPerColumn;
+
+  const quant = [scaleQuant(LUMA_QUANT, quality), scaleQuant(CHROMA_QUANT, quality)];
+
+  // Full-resolution planes, clamped at the edges
+  const planes: Float32Array[] = gray ? [new Float32Array(width * height)] : [0, 1, 2].map(() => new Float32Array(width * height));
+  for (let p = 0; p < width * height; p++) {
+    const r = data[p * 4] ?? 0;
+    const g = data[p * 4 + 1] ?? 0;
+    const b = data[p * 4 + 2] ?? 0;
+    planes[0]![p] = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (!gray) {
+      planes[1]![p] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+      planes[2]![p] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+    }
+  }
+
+  const samples = new Float32Array(64);
+  const coefficients = new Float32Array(64);
+
+  /**
+   * Quantised zigzag coefficients of the 8×8 block at (bx, by) in a plane
+   * scaled down by `scale`, averaging scale×scale source pixels per sample.
+   */
+  const encodeBlock = (plane: Float32Array, bx: number, by: number, scale: number, table: Uint16Array): Int16Array => {
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            const sx = Math.min(width - 1, (bx * 8 + x) * scale + dx);
+            const sy = Math.min(height - 1, (by * 8 + y) * scale + dy);
+            sum += plane[sy * width + sx] ?? 0;
+          }
+        }
+        samples[y * 8 + x] = sum / (scale * scale) - 128;
+      }
+    }
+    forwardDct(samples, coefficients);
+    const block = new Int16Array(64);
+    for (let k = 0; k < 64; k++) {
+      const i = ZIGZAG[k] ?? 0;
+      block[k] = Math.round((coefficients[i] ?? 0) / (table[i] ?? 1));
+    }
+    return block;
+  };
+
+  const components: EncodeComponent[] = gray
+    ? [{ id: 1, h: 1, v: 1, quantId: 0, tableId: 0, blocks: [] }]
+    : [
+        { id: 1, h: subsample, v: subsample, quantId: 0, tableId: 0, blocks: [] },
+        { id: 2, h: 1, v: 1, quantId: 1, tableId: 1, blocks: [] },
+        { id: 3, h: 1, v: 1, quantId: 1, tableId: 1, blocks: [] },
+      ];
+
+  for (let my = 0; my < mcusPerColumn; my++) {
+    for (let mx = 0; mx < mcusPerLine; mx++) {
+      components.forEach((c, ci) => {
+        const plane = planes[ci]!;
+        const table = quant[c.quantId]!;
+        const scale = subsample / c.h;
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            c.blocks.push(encodeBlock(plane, mx * c.h + h, my * c.v + v, scale, table));
+          }
+        }
+      });
+    }
+  }
+
+  const blocksPerMcu = components.map((c) => c.h * c.v);
+  const tableCount = gray ? 1 : 2;
+
+  // First pass: symbol statistics for optimised tables
+  const dcFreq = Array.from({ length: tableCount }, () => new Uint32Array(256));
+  const acFreq = Array.from({ length: tableCount }, () => new Uint32Array(256));
+  walkSymbols(components, blocksPerMcu, mcuCount, (table, id, symbol) => {
+    const freq = (table === "dc" ? dcFreq : acFreq)[id]!;
+    freq[symbol] = (freq[symbol] ?? 0) + 1;
+  });
+  const dcSpecs = dcFreq.map(optimalTable);
+  const acSpecs = acFreq.map(optimalTable);
+  const dcCodes = dcSpecs.map(huffmanCodes);
+  const acCodes = acSpecs.map(huffmanCodes);
+
+  // Second pass: entropy-coded data
+  const writer = new BitWriter();
+  walkSymbols(components, blocksPerMcu, mcuCount, (table, id, symbol, extra, extraBits) => {
+    const { codes, lengths } = (table === "dc" ? dcCodes : acCodes)[id]!;
+    writer.write(codes[symbol] ?? 0, lengths[symbol] ?? 0);
+    if (extraBits) writer.write(extra & ((1 << extraBits) - 1), extraBits);
+  });
+  const scanData = writer.finish();
+
+  const parts: Uint8Array[] = [new Uint8Array([0xff, 0xd8])];
+
+  // JFIF APP0, 1:1 pixel aspect
+  parts.push(segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]));
+
+  for (let id = 0; id < tableCount; id++) {
+    const table = quant[id]!;
+    const payload = [id];
+    for (let k = 0; k < 64; k++) payload.push(table[ZIGZAG[k] ?? 0] ?? 1);
+    parts.push(segment(0xdb, payload));
+  }
+
+  const sof = [8, height >> 8, height & 0xff, width >> 8, width & 0xff, components.length];
+  for (const c of components) sof.push(c.id, (c.h << 4) | c.v, c.quantId);
+  parts.push(segment(0xc0, sof));
+
+  for (let id = 0; id < tableCount; id++) {
+    for (const [tableClass, spec] of [
+      [0, dcSpecs[id]!],
+      [1, acSpecs[id]!],
+    ] as const) {
+      parts.push(segment(0xc4, [(tableClass << 4) | id, ...spec.counts, ...spec.symbols]));
+    }
+  }
+
+  const sos = [components.length];
+  for (const c of components) sos.push(c.id, (c.tableId << 4) | c.tableId);
+  sos.push(0, 63, 0);
+  parts.push(segment(0xda, sos));
+
+  parts.push(scanData);
+  parts.push(new Uint8Array([0xff, 0xd9]));
+
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
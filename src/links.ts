@@ -0,0 +1,352 @@
+import { App, EmbedCache, MarkdownView, TFile, getLinkpath } from "obsidian";
+
+/**
+ * How images over the limits are brought down to size.
+ * - `pixels`: resize the file itself
+ * - `display`: keep the file at full resolution and give the embeds that
+ *   show it a display width instead
+ */
+export type ResizeMode = "pixels" | "display";
+
+export const RESIZE_MODE_LABELS: Record<ResizeMode, string> = {
+  pixels: "Resize pixels",
+  display: "Set display width",
+};
+
+/**
+ * An embed of an image inside a specific note.
+ */
+export interface EmbedRef {
+  note: TFile;
+  embed: EmbedCache;
+}
+
+/**
+ * An embed found in a note's text, with its character offsets and the
+ * link it points at.
+ */
+export interface EmbedMatch {
+  start: number;
+  end: number;
+  original: string;
+  link: string;
+}
+
+const EMBED_PATTERN = /!\[\[[^\]\n]*\]\]|!\[[^\]\n]*\]\([^)\n]*\)/;
+
+/**
+ * A display size in an embed, e.g. `800` or `800x600`.
+ */
+const SIZE_PATTERN = /^\s*(\d+)(?:x\d+)?\s*$/;
+
+/**
+ * Split an embed around the `|`-separated parts that can hold a display
+ * size: the inner text of a wikilink (target first), or the alt text of
+ * a Markdown embed.
+ */
+function splitEmbed(original: string): { open: string; parts: string[]; close: string } | null {
+  const wiki = /^(!\[\[)([^\]]*)(\]\])$/.exec(original);
+  const markdown = /^(!\[)([^\]]*)(\]\(.*\))$/.exec(original);
+  const match = wiki ?? markdown;
+  if (!match) return null;
+  return { open: match[1] ?? "", parts: (match[2] ?? "").split("|"), close: match[3] ?? "" };
+}
+
+/**
+ * The display width set in a wikilink or Markdown embed, or null if it
+ * has none.
+ */
+export function getEmbedWidth(original: string): number | null {
+  const split = splitEmbed(original);
+  if (!split || split.parts.length < 2) return null;
+  const size = SIZE_PATTERN.exec(split.parts[split.parts.length - 1] ?? "");
+  return size ? parseInt(size[1] ?? "", 10) : null;
+}
+
+/**
+ * Set the display width of a wikilink or Markdown embed, e.g.
+ * `![[image.png|800]]` or `![alt|800](image.png)`, or remove it with
+ * null. Any alias or alt text is kept.
+ */
+export function setEmbedWidth(original: string, width: number | null): string {
+  const split = splitEmbed(original);
+  if (!split) return original;
+
+  const parts = split.parts;
+  if (parts.length > 1 && SIZE_PATTERN.test(parts[parts.length - 1] ?? "")) {
+    parts.pop();
+  }
+  if (width !== null) {
+    parts.push(String(width));
+  }
+  return split.open + parts.join("|") + split.close;
+}
+
+/**
+ * Narrow an embed to at most `width`, keeping a smaller width already set.
+ */
+function limitEmbedWidth(original: string, width: number): string {
+  const current = getEmbedWidth(original);
+  return current !== null && current <= width ? original : setEmbedWidth(original, width);
+}
+
+/**
+ * Find every wikilink and Markdown embed in `text`. Unlike the metadata
+ * cache, this sees embeds that were only just typed or pasted.
+ */
+export function findEmbedsInText(text: string): EmbedMatch[] {
+  const matches: EmbedMatch[] = [];
+  const pattern = new RegExp(EMBED_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const original = match[0];
+    const start = match.index;
+    const link = original.startsWith("![[")
+      ? original.slice(3, -2).split("|")[0] ?? ""
+      : markdownTarget(original);
+    matches.push({ start, end: start + original.length, original, link });
+  }
+  return matches;
+}
+
+/**
+ * Link target of a Markdown embed, without any angle brackets or title.
+ */
+function markdownTarget(original: string): string {
+  const inner = original.slice(original.indexOf("](") + 2, -1).trim();
+  const target = inner.startsWith("<")
+    ? inner.slice(1, inner.indexOf(">"))
+    : inner.split(/\s/)[0] ?? "";
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Find every embed in the vault that resolves to `file`.
+ */
+export function findEmbedsOf(app: App, file: TFile): EmbedRef[] {
+  const refs: EmbedRef[] = [];
+  const resolved = app.metadataCache.resolvedLinks;
+
+  for (const sourcePath in resolved) {
+    if (!resolved[sourcePath]?.[file.path]) continue;
+
+    const note = app.vault.getAbstractFileByPath(sourcePath);
+    if (!(note instanceof TFile)) continue;
+
+    const embeds = app.metadataCache.getFileCache(note)?.embeds ?? [];
+    for (const embed of embeds) {
+      const dest = app.metadataCache.getFirstLinkpathDest(
+        getLinkpath(embed.link),
+        sourcePath
+      );
+      if (dest === file) {
+        refs.push({ note, embed });
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Swap the link target inside a wikilink or Markdown embed, keeping any
+ * alias, size or title.
+ */
+export function replaceEmbedTarget(original: string, target: string): string {
+  if (original.startsWith("![[")) {
+    return original.replace(/^!\[\[[^|#\]]*/, `![[${target}`);
+  }
+  return original.replace(/\]\([^)#\s]*/, `](${encodeURI(target)}`);
+}
+
+/**
+ * Rewrite the given embeds with `rewrite`, one note at a time. An embed is
+ * only rewritten if the note still contains the exact text that was
+ * collected. Returns the number of embeds changed.
+ */
+async function rewriteEmbeds(
+  app: App,
+  refs: EmbedRef[],
+  rewrite: (note: TFile, original: string) => string
+): Promise<number> {
+  const byNote = new Map<TFile, EmbedCache[]>();
+  for (const { note, embed } of refs) {
+    const list = byNote.get(note) ?? [];
+    list.push(embed);
+    byNote.set(note, list);
+  }
+
+  let updated = 0;
+
+  for (const [note, embeds] of byNote) {
+    // Replace from the end so earlier offsets stay valid
+    embeds.sort((a, b) => b.position.start.offset - a.position.start.offset);
+
+    await app.vault.process(note, (text) => {
+      for (const embed of embeds) {
+        const start = embed.position.start.offset;
+        const end = embed.position.end.offset;
+        if (text.substring(start, end) !== embed.original) continue;
+
+        const replacement = rewrite(note, embed.original);
+        if (replacement === embed.original) continue;
+
+        text = text.substring(0, start) + replacement + text.substring(end);
+        updated++;
+      }
+      return text;
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Point the given embeds at `file`, so links Obsidian didn't update on
+ * rename are fixed; ones it already updated are left alone.
+ */
+export function retargetEmbeds(app: App, refs: EmbedRef[], file: TFile): Promise<number> {
+  return rewriteEmbeds(app, refs, (note, original) =>
+    replaceEmbedTarget(original, app.metadataCache.fileToLinktext(file, note.path, false))
+  );
+}
+
+/**
+ * Give the given embeds a display width of at most `width`. Embeds already
+ * set narrower are left alone.
+ */
+export function limitEmbeds(app: App, refs: EmbedRef[], width: number): Promise<number> {
+  return rewriteEmbeds(app, refs, (_note, original) => limitEmbedWidth(original, width));
+}
+
+/**
+ * True if the embed `match` in `note` shows `file`.
+ */
+function embedsFile(app: App, match: EmbedMatch, note: TFile, file: TFile): boolean {
+  return app.metadataCache.getFirstLinkpathDest(getLinkpath(match.link), note.path) === file;
+}
+
+/**
+ * Embeds of `file` in the notes open in an editor, including ones not
+ * saved yet, as their text by note.
+ */
+export function findOpenEmbedsOf(app: App, file: TFile): Map<TFile, string[]> {
+  const found = new Map<TFile, string[]>();
+  for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view;
+    if (!(view instanceof MarkdownView) || !view.file || found.has(view.file)) continue;
+
+    const note = view.file;
+    const originals = findEmbedsInText(view.editor.getValue())
+      .filter((match) => embedsFile(app, match, note, file))
+      .map((match) => match.original);
+    if (originals.length > 0) found.set(note, originals);
+  }
+  return found;
+}
+
+/**
+ * Rewrite the embeds in `note` that `isTarget` picks with `rewrite`. Works
+ * on the note's open editor when there is one, since an embed that was
+ * just pasted may not have been saved yet. Returns the number of embeds
+ * changed.
+ */
+async function rewriteEmbedsInNote(
+  app: App,
+  note: TFile,
+  isTarget: (match: EmbedMatch) => boolean,
+  rewrite: (original: string) => string
+): Promise<number> {
+  for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view;
+    if (!(view instanceof MarkdownView) || view.file !== note) continue;
+
+    const editor = view.editor;
+    let updated = 0;
+    // Replace from the end so earlier offsets stay valid
+    for (const match of findEmbedsInText(editor.getValue()).filter(isTarget).reverse()) {
+      const replacement = rewrite(match.original);
+      if (replacement === match.original) continue;
+      editor.replaceRange(
+        replacement,
+        editor.offsetToPos(match.start),
+        editor.offsetToPos(match.end)
+      );
+      updated++;
+    }
+    return updated;
+  }
+
+  let updated = 0;
+  await app.vault.process(note, (text) => {
+    for (const match of findEmbedsInText(text).filter(isTarget).reverse()) {
+      const replacement = rewrite(match.original);
+      if (replacement === match.original) continue;
+      text = text.substring(0, match.start) + replacement + text.substring(match.end);
+      updated++;
+    }
+    return text;
+  });
+  return updated;
+}
+
+/**
+ * Give the embeds of `file` in `note` a display width of at most `width`,
+ * including ones not saved yet.
+ */
+export function limitEmbedsInNote(
+  app: App,
+  note: TFile,
+  file: TFile,
+  width: number
+): Promise<number> {
+  return rewriteEmbedsInNote(
+    app,
+    note,
+    (match) => embedsFile(app, match, note, file),
+    (original) => limitEmbedWidth(original, width)
+  );
+}
+
+/**
+ * Point the embeds of `file` in `note` at `target` instead, including
+ * ones not saved yet.
+ */
+export function retargetEmbedsInNote(
+  app: App,
+  note: TFile,
+  file: TFile,
+  target: TFile
+): Promise<number> {
+  const linktext = app.metadataCache.fileToLinktext(target, note.path, false);
+  return rewriteEmbedsInNote(
+    app,
+    note,
+    (match) => embedsFile(app, match, note, file),
+    (original) => replaceEmbedTarget(original, linktext)
+  );
+}
+
+/**
+ * Point embeds in `note` at `file` after it was renamed, if they are still
+ * one of `originals`, as found by `findOpenEmbedsOf` before the rename.
+ * Ones Obsidian already updated are left alone.
+ */
+export function retargetRenamedEmbedsInNote(
+  app: App,
+  note: TFile,
+  originals: string[],
+  file: TFile
+): Promise<number> {
+  const linktext = app.metadataCache.fileToLinktext(file, note.path, false);
+  return rewriteEmbedsInNote(
+    app,
+    note,
+    (match) => originals.includes(match.original),
+    (original) => replaceEmbedTarget(original, linktext)
+  );
+}
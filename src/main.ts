@@ -1,14 +1,217 @@
-import { Notice, Plugin, TFile, Menu, Editor } from "obsidian";
+import {
+  Notice,
+  Plugin,
+  TFile,
+  Menu,
+  Editor,
+  MarkdownView,
+  MarkdownFileInfo,
+  EditorPosition,
+  TAbstractFile,
+  TFolder,
+  ObsidianProtocolData,
+  debounce,
+  getLinkpath,
+  normalizePath,
+} from "obsidian";
 import {
   ImageResizerSettings,
   DEFAULT_SETTINGS,
   ImageResizerSettingTab,
 } from "./settings";
-import { isImageFile, resizeImage, getExtension } from "./resizer";
+import {
+  getExtension,
+  isImageFile,
+  isSameType,
+  limitedSize,
+  planResize,
+  ImageEdit,
+  ResizePlan,
+  ResizeResult,
+  describeOutput,
+} from "./resizer";
+import { EncodeFormat, getNativeFormat, getSourceFormat } from "./formats";
+import { probeDimensions } from "./probe";
+import { ArchiveIndex, archiveOriginal, isInFolder } from "./archive";
+import {
+  EmbedMatch,
+  ResizeMode,
+  findEmbedsInText,
+  findEmbedsOf,
+  findOpenEmbedsOf,
+  getEmbedWidth,
+  limitEmbeds,
+  limitEmbedsInNote,
+  replaceEmbedTarget,
+  retargetEmbeds,
+  retargetEmbedsInNote,
+  retargetRenamedEmbedsInNote,
+  setEmbedWidth,
+} from "./links";
+import { describeMetadata } from "./metadata";
+import { currentDisplay, limitToScale, screenshotScale } from "./hidpi";
+import { BatchCandidate, BatchPreviewModal, formatBytes } from "./preview";
+import { ResizePool } from "./pool";
+import {
+  BatchFailuresModal,
+  BatchJob,
+  JOB_SAVE_INTERVAL,
+  BatchAction,
+  createBatchJob,
+  describeError,
+  describeProgress,
+  runQueue,
+  summarizeJob,
+} from "./batch";
+import {
+  EXTERNAL_ORIGIN,
+  ImageOrigin,
+  ImageSource,
+  SourceTracker,
+  countImageFiles,
+} from "./sources";
+import { applyOverrides, resolveSettings, ResizeOverrides } from "./rules";
+import {
+  buildEmbedderIndex,
+  mergeNoteOverrides,
+  readNoteOverrides,
+} from "./frontmatter";
+import { ChoiceModal, IMAGE_ACTIONS, ImageAction, chooseFormat } from "./actions";
+import { PasteEditModal } from "./pasteedit";
+import { NameContext, availableImagePath } from "./naming";
+import {
+  DuplicateClustersModal,
+  DuplicateModal,
+  FingerprintIndex,
+  contentHash,
+  findDuplicateClusters,
+  findIdentical,
+  findSimilar,
+  recordFingerprint,
+} from "./duplicates";
+import {
+  HISTORY_ACTION_LABELS,
+  HISTORY_VIEW_TYPE,
+  HistoryEntry,
+  HistorySource,
+  HistoryView,
+  appendHistory,
+  failureEntry,
+  resultEntry,
+  statsOf,
+} from "./history";
+import { PluginApi, ResizeOptions, URI_ACTION, parseUriOptions } from "./api";
+import { SettingsProfile, loadProfiles, mergeProfiles } from "./profiles";
+import { SETTINGS_VERSION, cloneSettings, upgradeSettings } from "./schema";
+
+/**
+ * Icons for the batch actions in the file explorer menu.
+ */
+const FILE_ACTION_ICONS: Record<BatchAction, string> = {
+  resize: "scaling",
+  optimize: "gauge",
+  convert: "file-output",
+  restore: "history",
+};
+
+/**
+ * How long to wait after the last logged operation before saving the
+ * history, in milliseconds.
+ */
+const HISTORY_SAVE_DELAY_MS = 2000;
+
+/**
+ * Shortest time between refreshes of the history view, in milliseconds.
+ */
+const HISTORY_RENDER_DELAY_MS = 1000;
+
+/**
+ * Most invalid settings listed in the notice after loading. The rest are
+ * only in the console.
+ */
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * An image embed in the editor, with the image it shows.
+ */
+interface EditorEmbed {
+  match: EmbedMatch;
+  file: TFile;
+  from: EditorPosition;
+  to: EditorPosition;
+}
+
+/**
+ * Shape of the plugin's data.json.
+ */
+interface PluginData {
+  settings: ImageResizerSettings;
+  originals: ArchiveIndex;
+  fingerprints: FingerprintIndex;
+  history: HistoryEntry[];
+  job: BatchJob | null;
+  /** Version of the settings format, for migrating older data. */
+  version: number;
+  profiles: SettingsProfile[];
+  activeProfile: string | null;
+}
 
 export default class ImageResizerPlugin extends Plugin {
   settings: ImageResizerSettings = DEFAULT_SETTINGS;
 
+  /**
+   * Archived originals, keyed by the current path of the resized image.
+   */
+  originals: ArchiveIndex = {};
+
+  /**
+   * Hashes of images in the vault, for finding duplicates.
+   */
+  fingerprints: FingerprintIndex = {};
+
+  /**
+   * Log of operations on images, oldest first.
+   */
+  history: HistoryEntry[] = [];
+
+  /**
+   * Named sets of settings to switch between.
+   */
+  profiles: SettingsProfile[] = [];
+
+  /**
+   * Name of the profile the current settings belong to, which is kept in
+   * step with them, or null if they aren't in a profile.
+   */
+  activeProfile: string | null = null;
+
+  /**
+   * What other plugins and scripts can call. See `ImageResizerApi`.
+   */
+  api: PluginApi = new PluginApi(this.app, {
+    resizeFile: (file, options) => this.resizeForApi(file, options),
+    resizeBuffer: (data, filename, options) =>
+      this.pool.resize(data, filename, this.withOptions(this.settings, options)),
+    optimizeFolder: (folder, recursive) => this.optimizeFolder(folder, recursive, false),
+  });
+
+  /**
+   * The current or interrupted batch run, or the last one if it had
+   * failures.
+   */
+  job: BatchJob | null = null;
+
+  /**
+   * True while `runBatch` is working through the job queue.
+   */
+  private batchRunning = false;
+
+  /**
+   * Set to stop the running batch: `cancel` discards the job, `pause`
+   * keeps it for the next launch.
+   */
+  private batchStop: "cancel" | "pause" | null = null;
+
   /**
    * Track files we've already resized to avoid infinite loops
    * (modifying a file can re-trigger the create/modify event).
@@ -16,9 +219,56 @@ export default class ImageResizerPlugin extends Plugin {
   private processing = new Set<string>();
 
   /**
-   * Debounce timer per file path so rapid events don't cause races.
+   * Debounce timer per file path so rapid events don't cause races,
+   * along with where the file came from.
+   */
+  private pending = new Map<
+    string,
+    { timer: ReturnType<typeof setTimeout>; origin: ImageOrigin }
+  >();
+
+  /**
+   * Workers that decode and encode images off the UI thread.
+   */
+  private pool!: ResizePool;
+
+  /**
+   * Attributes newly created files to editor paste/drop events.
+   */
+  private sources = new SourceTracker();
+
+  /**
+   * The duplicate prompt showing or last shown, so several new images
+   * that duplicate others are asked about one at a time.
+   */
+  private duplicatePrompt: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Status bar item showing the active profile, hidden without profiles.
+   */
+  private profileStatus: HTMLElement | null = null;
+
+  /**
+   * Save the history once operations stop being logged, rather than after
+   * every one of a batch.
+   */
+  private requestHistorySave = debounce(
+    () => {
+      void this.saveSettings();
+    },
+    HISTORY_SAVE_DELAY_MS,
+    true
+  );
+
+  /**
+   * Refresh open history views at most once a second while operations
+   * are logged, since each refresh lists and sorts the vault's images.
    */
-  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+  private requestHistoryRender = debounce(() => {
+    for (const leaf of this.app.workspace.getLeavesOfType(HISTORY_VIEW_TYPE)) {
+      if (leaf.view instanceof HistoryView) leaf.view.render();
+    }
+  }, HISTORY_RENDER_DELAY_MS);
 
   /**
    * Guard against processing files during vault startup.
@@ -29,27 +279,105 @@ export default class ImageResizerPlugin extends Plugin {
   async onload() {
     await this.loadSettings();
 
+    this.pool = new ResizePool();
+
     this.addSettingTab(new ImageResizerSettingTab(this.app, this));
 
+    this.registerView(HISTORY_VIEW_TYPE, (leaf) => new HistoryView(leaf, this));
+
+    // Show the active profile, with a menu to switch to another one
+    this.profileStatus = this.addStatusBarItem();
+    this.profileStatus.addClass("mod-clickable");
+    this.profileStatus.setAttribute("aria-label", "Switch settings profile");
+    this.profileStatus.onClickEvent((evt) => this.showProfileMenu(evt));
+    this.updateProfileStatus();
+
+    // Let shell scripts resize images through obsidian://image-resizer URIs
+    this.registerObsidianProtocolHandler(URI_ACTION, (params) => {
+      void this.handleUri(params);
+    });
+
     // Wait for the workspace to be fully loaded before processing events
     this.app.workspace.onLayoutReady(() => {
       this.ready = true;
+
+      // Pick up a batch run that was interrupted by closing Obsidian
+      if (this.job && this.job.queue.length > 0) {
+        new Notice(
+          `Resuming batch resize of ${this.job.scope}: ${this.job.queue.length} image(s) left.`
+        );
+        void this.runBatch();
+      }
     });
 
+    // Tag the files that editor pastes and drops are about to create
+    this.registerEvent(
+      this.app.workspace.on(
+        "editor-paste",
+        (evt: ClipboardEvent, _editor, info: MarkdownView | MarkdownFileInfo) => {
+          this.sources.expect(
+            "paste",
+            countImageFiles(evt.clipboardData),
+            this.notePathFor(info),
+            currentDisplay()
+          );
+        }
+      )
+    );
+
+    this.registerEvent(
+      this.app.workspace.on(
+        "editor-drop",
+        (evt: DragEvent, _editor, info: MarkdownView | MarkdownFileInfo) => {
+          this.sources.expect(
+            "drop",
+            countImageFiles(evt.dataTransfer),
+            this.notePathFor(info),
+            currentDisplay()
+          );
+        }
+      )
+    );
+
     // Listen for new files added to the vault
     this.registerEvent(
       this.app.vault.on("create", (file) => {
-        if (file instanceof TFile) {
-          this.scheduleResize(file);
-        }
+        if (!this.ready || !(file instanceof TFile) || !isImageFile(file.name)) return;
+        // Files the plugin writes itself, like archived originals, mustn't
+        // use up the origin of an image from the same paste or drop
+        if (this.processing.has(file.path) || this.isExcluded(file)) return;
+        this.scheduleResize(file, this.sources.take());
       })
     );
 
-    // Also catch modifications — some paste/drop flows modify an existing file
+    // Also catch modifications — some paste/drop flows modify an existing
+    // file. A file still waiting from its create event keeps that origin;
+    // anything else was changed from outside (e.g. sync).
     this.registerEvent(
       this.app.vault.on("modify", (file) => {
         if (file instanceof TFile) {
-          this.scheduleResize(file);
+          const origin = this.pending.get(file.path)?.origin ?? EXTERNAL_ORIGIN;
+          this.scheduleResize(file, origin);
+        }
+      })
+    );
+
+    // Keep the originals index pointing at the current paths of resized
+    // images (and their archived copies) when files are renamed or moved
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (this.trackRename(file.path, oldPath)) {
+          void this.saveSettings();
+        }
+      })
+    );
+
+    // Forget the hashes of deleted images
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        if (this.fingerprints[file.path]) {
+          delete this.fingerprints[file.path];
+          void this.saveSettings();
         }
       })
     );
@@ -68,6 +396,54 @@ export default class ImageResizerPlugin extends Plugin {
       callback: () => this.resizeImagesInCurrentFolder(),
     });
 
+    // Command to stop a running batch
+    this.addCommand({
+      id: "cancel-batch-resize",
+      name: "Cancel batch resize",
+      checkCallback: (checking: boolean) => {
+        if (!this.batchRunning) return false;
+        if (!checking) {
+          this.cancelBatch();
+        }
+        return true;
+      },
+    });
+
+    // Command to review the images the last batch failed on
+    this.addCommand({
+      id: "show-batch-failures",
+      name: "Show failed images from last batch",
+      checkCallback: (checking: boolean) => {
+        const failed = this.job?.failed ?? [];
+        if (failed.length === 0) return false;
+        if (!checking) {
+          new BatchFailuresModal(this.app, failed).open();
+        }
+        return true;
+      },
+    });
+
+    // Command to open the log of operations and the savings dashboard
+    this.addCommand({
+      id: "open-resize-history",
+      name: "Open resize history",
+      callback: () => this.openHistory(),
+    });
+
+    // Command to report groups of identical or similar images
+    this.addCommand({
+      id: "find-duplicate-images",
+      name: "Find duplicate images",
+      callback: () => this.findDuplicates(),
+    });
+
+    // Command to switch to another settings profile
+    this.addCommand({
+      id: "switch-settings-profile",
+      name: "Switch settings profile",
+      callback: () => this.chooseProfile(),
+    });
+
     // Command to paste without resizing (can be bound to a hotkey)
     this.addCommand({
       id: "paste-full-size-image",
@@ -77,9 +453,74 @@ export default class ImageResizerPlugin extends Plugin {
       },
     });
 
+    // Command to crop, size and convert the clipboard image before pasting
+    this.addCommand({
+      id: "paste-image-with-editor",
+      name: "Paste image with editor",
+      editorCallback: (editor: Editor) => {
+        void this.pasteWithEditor(editor);
+      },
+    });
+
+    // Command to paste at full resolution, shown at the limited width
+    this.addCommand({
+      id: "paste-display-size-image",
+      name: "Paste image at display width",
+      editorCallback: (editor: Editor) => {
+        void this.pasteFullSize(editor, "display");
+      },
+    });
+
+    // Command to switch an embed between display sizing and a pixel resize
+    this.addCommand({
+      id: "toggle-embed-display-width",
+      name: "Toggle display width of image embed under cursor",
+      editorCallback: (editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+        if (info.file) void this.toggleEmbedSize(editor, info.file);
+      },
+    });
+
+    // Commands to resize, rotate, flip or convert the image under the cursor
+    for (const action of IMAGE_ACTIONS) {
+      this.addCommand({
+        id: action.id,
+        name: action.name,
+        editorCallback: (editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+          if (info.file) void this.editEmbeddedImage(editor, info.file, action);
+        },
+      });
+    }
+
+    // Command to undo a resize using the archived original
+    this.addCommand({
+      id: "restore-original-image",
+      name: "Restore original image",
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.canRestore(file.path)) return false;
+        if (!checking) {
+          void this.restoreOriginal(file);
+        }
+        return true;
+      },
+    });
+
+    // Add resize, optimize, convert and restore actions to the file
+    // explorer menu of images, folders and multiple selections
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu: Menu, file) => {
+        this.addFileMenuItems(menu, [file]);
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on("files-menu", (menu: Menu, files) => {
+        this.addFileMenuItems(menu, files);
+      })
+    );
+
     // Add "Paste full size image" to the editor right-click context menu
     this.registerEvent(
-      this.app.workspace.on("editor-menu", (menu: Menu, editor: Editor) => {
+      this.app.workspace.on("editor-menu", (menu: Menu, editor: Editor, info) => {
         menu.addItem((item) => {
           item
             .setTitle("Paste full size image")
@@ -88,118 +529,355 @@ export default class ImageResizerPlugin extends Plugin {
               this.pasteFullSize(editor);
             });
         });
+
+        // Image actions, when right-clicking an image embed
+        const note = info.file;
+        if (!note || !this.findImageEmbed(editor, note)) return;
+        for (const action of IMAGE_ACTIONS) {
+          menu.addItem((item) => {
+            item
+              .setTitle(action.name)
+              .setIcon(action.icon)
+              .setSection("image-resizer")
+              .onClick(() => {
+                void this.editEmbeddedImage(editor, note, action);
+              });
+          });
+        }
       })
     );
   }
 
   onunload() {
     // Clear any pending timers
-    for (const timer of this.pending.values()) {
+    for (const { timer } of this.pending.values()) {
       clearTimeout(timer);
     }
     this.pending.clear();
     this.processing.clear();
+    this.requestHistoryRender.cancel();
+
+    // Leave an unfinished batch queued for the next launch
+    if (this.batchRunning) {
+      this.batchStop = "pause";
+    }
+    this.sources.clear();
+    this.pool.destroy();
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = (await this.loadData()) as
+      | (Partial<PluginData> & Partial<ImageResizerSettings>)
+      | null;
+
+    const version = typeof data?.version === "number" ? data.version : 0;
+    if (version > SETTINGS_VERSION) {
+      console.warn(
+        "[Image Resizer] Settings were saved by a newer version; options it added are ignored."
+      );
+    }
+
+    // Older versions stored the settings object at the top level
+    const checked = upgradeSettings(data?.settings ?? data ?? undefined, version);
+    const loaded = loadProfiles(data?.profiles, version);
+    this.settings = checked.settings;
+    this.profiles = loaded.profiles;
+    this.activeProfile = this.profiles.some((profile) => profile.name === data?.activeProfile)
+      ? (data?.activeProfile ?? null)
+      : null;
+
+    this.originals = data?.originals ?? {};
+    this.fingerprints = data?.fingerprints ?? {};
+    this.history = data?.history ?? [];
+    // Jobs saved by older versions may lack newer counters
+    this.job = data?.job
+      ? { ...createBatchJob(data.job.scope, []), ...data.job }
+      : null;
+
+    const problems = [...checked.problems, ...loaded.problems];
+    if (problems.length > 0) this.reportSettingsProblems(problems);
+
+    // Save the migrated and fixed settings so this happens only once
+    if (data && version <= SETTINGS_VERSION && (version < SETTINGS_VERSION || problems.length > 0)) {
+      await this.saveSettings();
+    }
+  }
+
+  /**
+   * Say which saved settings were invalid and what they were changed to.
+   */
+  private reportSettingsProblems(problems: string[]) {
+    console.warn(`[Image Resizer] Fixed invalid settings:\n${problems.join("\n")}`);
+
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).map((problem) => `• ${problem}`);
+    if (problems.length > shown.length) {
+      shown.push(`…and ${problems.length - shown.length} more, listed in the console.`);
+    }
+    new Notice(
+      `Some saved image resizer settings were invalid and have been fixed:\n${shown.join("\n")}`,
+      15000
+    );
+  }
+
+  /**
+   * Put every option back to its default. Profiles, archived originals
+   * and the history are kept; the active profile gets the defaults too.
+   */
+  async resetSettings() {
+    this.settings = cloneSettings(DEFAULT_SETTINGS);
+    await this.saveSettings();
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    // Changes to the settings belong to the active profile too
+    const active = this.profiles.find((profile) => profile.name === this.activeProfile);
+    if (active) active.settings = cloneSettings(this.settings);
+
+    const data: PluginData = {
+      settings: this.settings,
+      originals: this.originals,
+      fingerprints: this.fingerprints,
+      history: this.history,
+      job: this.job,
+      version: SETTINGS_VERSION,
+      profiles: this.profiles,
+      activeProfile: this.activeProfile,
+    };
+    await this.saveData(data);
+  }
+
+  /**
+   * Load the settings of the profile named `name` and make it the active
+   * one. The current settings are already saved in the profile they
+   * belong to, if any. With null, the current settings stay but no longer
+   * belong to a profile.
+   */
+  async switchProfile(name: string | null) {
+    const profile = this.profiles.find((p) => p.name === name);
+    if (name !== null && !profile) return;
+
+    if (profile) this.settings = cloneSettings(profile.settings);
+    this.activeProfile = profile?.name ?? null;
+    await this.saveSettings();
+    this.updateProfileStatus();
+  }
+
+  /**
+   * Save the current settings as a profile named `name`, replacing any
+   * with that name, and make it the active one.
+   */
+  async saveProfile(name: string) {
+    this.profiles = mergeProfiles(this.profiles, [
+      { name, settings: cloneSettings(this.settings) },
+    ]);
+    this.activeProfile = name;
+    await this.saveSettings();
+    this.updateProfileStatus();
+  }
+
+  async renameProfile(name: string, newName: string) {
+    const profile = this.profiles.find((p) => p.name === name);
+    if (!profile) return;
+
+    profile.name = newName;
+    if (this.activeProfile === name) this.activeProfile = newName;
+    await this.saveSettings();
+    this.updateProfileStatus();
+  }
+
+  /**
+   * Delete the profile named `name`. Deleting the active profile keeps
+   * its settings as the current ones.
+   */
+  async deleteProfile(name: string) {
+    this.profiles = this.profiles.filter((profile) => profile.name !== name);
+    if (this.activeProfile === name) this.activeProfile = null;
+    await this.saveSettings();
+    this.updateProfileStatus();
+  }
+
+  /**
+   * Add `imported` profiles, replacing ones with the same name. If the
+   * active profile is replaced, its new settings take effect.
+   */
+  async importProfiles(imported: SettingsProfile[]) {
+    // Keep unsaved edits out of a profile that is about to be replaced
+    await this.saveSettings();
+
+    this.profiles = mergeProfiles(this.profiles, imported);
+    const active = imported.find((profile) => profile.name === this.activeProfile);
+    if (active) this.settings = cloneSettings(active.settings);
+    await this.saveSettings();
+    this.updateProfileStatus();
+  }
+
+  private updateProfileStatus() {
+    const status = this.profileStatus;
+    if (!status) return;
+    status.toggle(this.profiles.length > 0);
+    status.setText(`Profile: ${this.activeProfile ?? "none"}`);
+  }
+
+  private showProfileMenu(evt: MouseEvent) {
+    const menu = new Menu();
+    for (const { name } of this.profiles) {
+      menu.addItem((item) =>
+        item
+          .setTitle(name)
+          .setChecked(name === this.activeProfile)
+          .onClick(() => {
+            void this.switchProfile(name);
+          })
+      );
+    }
+    menu.showAtMouseEvent(evt);
+  }
+
+  /**
+   * Ask which profile to switch to.
+   */
+  private async chooseProfile() {
+    const choices = this.profiles
+      .filter((profile) => profile.name !== this.activeProfile)
+      .map((profile) => ({ label: profile.name, value: profile.name }));
+    if (choices.length === 0) {
+      new Notice("No other settings profiles. Save one in the plugin settings first.");
+      return;
+    }
+
+    const name = await new ChoiceModal(this.app, "Switch to profile…", choices).choose();
+    if (!name) return;
+    await this.switchProfile(name);
+    new Notice(`Switched to the ${name} profile.`);
+  }
+
+  /**
+   * Update the originals and fingerprint indexes and the history after a
+   * rename. Returns true if anything changed.
+   */
+  private trackRename(newPath: string, oldPath: string): boolean {
+    let changed = false;
+
+    const fingerprint = this.fingerprints[oldPath];
+    if (fingerprint) {
+      delete this.fingerprints[oldPath];
+      this.fingerprints[newPath] = fingerprint;
+      changed = true;
+    }
+
+    const record = this.originals[oldPath];
+    if (record) {
+      delete this.originals[oldPath];
+      this.originals[newPath] = record;
+      changed = true;
+    }
+
+    for (const entry of Object.values(this.originals)) {
+      if (entry.archivePath === oldPath) {
+        entry.archivePath = newPath;
+        changed = true;
+      }
+    }
+
+    for (const entry of this.history) {
+      if (entry.path === oldPath) {
+        entry.path = newPath;
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Add `entry` to the history, and show it in open history views.
+   */
+  private logHistory(entry: HistoryEntry) {
+    appendHistory(this.history, entry);
+    this.requestHistorySave();
+    this.api.trigger("image-processed", entry);
+    this.requestHistoryRender();
+  }
+
+  /**
+   * Show the history view, opening it in the right sidebar if it isn't
+   * open yet.
+   */
+  private async openHistory() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(HISTORY_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: HISTORY_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * True for images the automatic and batch flows must never touch.
+   */
+  private isExcluded(file: TFile): boolean {
+    return isInFolder(file.path, this.settings.archiveFolder);
   }
 
   /**
    * Debounce resize for a file — waits 500ms after the last event
    * to avoid processing a file that's still being written.
    */
-  private scheduleResize(file: TFile) {
+  private scheduleResize(file: TFile, origin: ImageOrigin) {
     if (!this.ready) return;
     if (!isImageFile(file.name)) return;
     if (this.processing.has(file.path)) return;
+    if (this.isExcluded(file)) return;
 
     // Clear any existing pending timer for this file
     const existing = this.pending.get(file.path);
     if (existing) {
-      clearTimeout(existing);
+      clearTimeout(existing.timer);
     }
 
     const timer = setTimeout(() => {
       this.pending.delete(file.path);
-      this.processFile(file);
+      this.processFile(file, origin);
     }, 500);
 
-    this.pending.set(file.path, timer);
+    this.pending.set(file.path, { timer, origin });
   }
 
   /**
    * Read an image directly from the clipboard, save it to the vault
-   * without resizing, and insert the embed link into the editor.
+   * without resizing, and insert the embed link into the editor. The embed
+   * gets a display width when `mode`, or else the image's effective resize
+   * mode, is display sizing.
    */
-  private async pasteFullSize(editor: Editor) {
+  private async pasteFullSize(editor: Editor, mode?: ResizeMode) {
     try {
-      const clipboardItems = await navigator.clipboard.read();
-
-      let imageBlob: Blob | null = null;
-      let mimeType = "";
-
-      for (const item of clipboardItems) {
-        for (const type of item.types) {
-          if (type.startsWith("image/")) {
-            imageBlob = await item.getType(type);
-            mimeType = type;
-            break;
-          }
-        }
-        if (imageBlob) break;
-      }
-
-      if (!imageBlob) {
+      const image = await this.readClipboardImage();
+      if (!image) {
         new Notice("No image found on clipboard.");
         return;
       }
 
-      // Determine file extension from mime type
-      const extMap: Record<string, string> = {
-        "image/png": "png",
-        "image/jpeg": "jpg",
-        "image/webp": "webp",
-        "image/bmp": "bmp",
-      };
-      const ext = extMap[mimeType] ?? "png";
-
-      // Generate a filename matching Obsidian's default pattern
-      const timestamp = window.moment
-        ? window.moment().format("YYYYMMDDHHmmss")
-        : Date.now().toString();
-      const filename = `Pasted image ${timestamp}.${ext}`;
-
-      // Determine the attachment folder using Obsidian's built-in logic
       const activeFile = this.app.workspace.getActiveFile();
-      const folderPath = await this.getAttachmentFolder(activeFile);
-
-      const fullPath = folderPath ? `${folderPath}/${filename}` : filename;
-
-      // Mark as processing so our resize handler ignores it
-      this.processing.add(fullPath);
-
-      // Write the file to the vault
-      const buffer = await imageBlob.arrayBuffer();
-      await this.app.vault.createBinary(fullPath, buffer);
-
-      // Insert the embed link at the cursor
-      const embedLink = `![[${filename}]]`;
-      editor.replaceSelection(embedLink);
+      const buffer = await image.blob.arrayBuffer();
+      const fullPath = await this.pastedImagePath(activeFile, image.ext, buffer);
+
+      // In display mode, the embed gets the width the image would have been
+      // resized to
+      const settings = this.settingsFor(fullPath, activeFile ? [activeFile] : []);
+      const size =
+        settings && (mode ?? settings.resizeMode) === "display"
+          ? await limitedSize(buffer, settings)
+          : null;
+      await this.savePastedImage(editor, activeFile, fullPath, buffer, size?.width ?? null);
 
       if (this.settings.showNotice) {
         const kb = Math.round(buffer.byteLength / 1024);
-        new Notice(`Pasted full size image (${kb} KB)`);
+        new Notice(
+          `Pasted full size image (${kb} KB)` + (size ? `, shown ${size.width} px wide` : "")
+        );
       }
-
-      // Clean up processing guard after a delay
-      setTimeout(() => {
-        this.processing.delete(fullPath);
-      }, 2000);
     } catch (err) {
       console.error("[Image Resizer] Failed to paste full size image:", err);
       new Notice("Failed to paste image. Make sure an image is copied to your clipboard.");
@@ -207,29 +885,158 @@ export default class ImageResizerPlugin extends Plugin {
   }
 
   /**
-   * Resolve the attachment folder path using Obsidian's configured setting.
-   * Falls back to the vault root if it can't be determined.
+   * Open the clipboard image in an editor to crop it and pick its size,
+   * format and quality, then paste the result.
    */
-  private async getAttachmentFolder(activeFile: TFile | null): Promise<string> {
-    // Use Obsidian's internal method if available
-    // @ts-ignore — getAvailablePathForAttachment is not in the public API typings
-    if (this.app.vault.getAvailablePathForAttachment) {
-      try {
-        // This returns a full path like "attachments/image.png"
-        // @ts-ignore
-        const suggestedPath: string = await this.app.vault.getAvailablePathForAttachment(
-          "temp",
-          activeFile?.path
+  private async pasteWithEditor(editor: Editor) {
+    try {
+      const image = await this.readClipboardImage();
+      if (!image) {
+        new Notice("No image found on clipboard.");
+        return;
+      }
+
+      const activeFile = this.app.workspace.getActiveFile();
+      const notes = activeFile ? [activeFile] : [];
+      const data = await image.blob.arrayBuffer();
+      const path = await this.pastedImagePath(activeFile, image.ext, data);
+      const filename = path.substring(path.lastIndexOf("/") + 1);
+
+      // The choices are made by hand, so a rule that skips the image only
+      // stops it being resized automatically
+      const settings = this.settingsFor(path, notes) ?? this.settings;
+      const choice = await new PasteEditModal(this.app, image.blob, filename, settings, (edit) =>
+        this.pool.resize(data, filename, settings, edit)
+      ).choose();
+      if (!choice) return;
+
+      // Named again, as the template's hash is of the edited bytes
+      const { result } = choice;
+      const written = result?.data ?? data;
+      const fullPath = await this.pastedImagePath(
+        activeFile,
+        result?.newExtension ?? image.ext,
+        written
+      );
+      await this.savePastedImage(editor, activeFile, fullPath, written, null);
+      if (result) {
+        this.logHistory(resultEntry(fullPath, "paste", path, data, result, "edit"));
+      }
+
+      if (this.settings.showNotice) {
+        new Notice(
+          result
+            ? `Pasted edited image: ${result.width}×${result.height} (${formatBytes(written.byteLength)})`
+            : `Pasted image (${formatBytes(written.byteLength)})`
         );
-        const lastSlash = suggestedPath.lastIndexOf("/");
-        return lastSlash >= 0 ? suggestedPath.substring(0, lastSlash) : "";
-      } catch {
-        // Fall through to manual detection
       }
+    } catch (err) {
+      console.error("[Image Resizer] Failed to paste edited image:", err);
+      new Notice(`Image Resizer: Failed to paste image: ${describeError(err)}`);
     }
+  }
 
-    // Fallback: read the config directly
-    // @ts-ignore
+  /**
+   * The first image on the clipboard, with the file extension for its
+   * type. Returns null if there is none.
+   */
+  private async readClipboardImage(): Promise<{ blob: Blob; ext: string } | null> {
+    const clipboardItems = await navigator.clipboard.read();
+
+    for (const item of clipboardItems) {
+      for (const type of item.types) {
+        if (type.startsWith("image/")) {
+          // Determine file extension from mime type
+          const extMap: Record<string, string> = {
+            "image/png": "png",
+            "image/jpeg": "jpg",
+            "image/webp": "webp",
+            "image/bmp": "bmp",
+            "image/gif": "gif",
+            "image/tiff": "tiff",
+            "image/heic": "heic",
+            "image/avif": "avif",
+          };
+          return { blob: await item.getType(type), ext: extMap[type] ?? "png" };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * A free path for a new pasted image of `data` with extension `ext`, in
+   * the attachment folder for `activeFile` and named by the file-name
+   * template.
+   */
+  private async pastedImagePath(
+    activeFile: TFile | null,
+    ext: string,
+    data: ArrayBuffer
+  ): Promise<string> {
+    // Determine the attachment folder using Obsidian's built-in logic
+    const folderPath = await this.getAttachmentFolder(activeFile);
+    return availableImagePath(
+      this.app,
+      folderPath,
+      this.settings.fileNameTemplate,
+      { note: activeFile?.basename ?? null, data },
+      ext
+    );
+  }
+
+  /**
+   * Write a pasted image to `fullPath` as it is and embed it at the
+   * cursor in `note`, shown `width` pixels wide if given. The embed
+   * follows the vault's link format settings.
+   */
+  private async savePastedImage(
+    editor: Editor,
+    note: TFile | null,
+    fullPath: string,
+    data: ArrayBuffer,
+    width: number | null
+  ) {
+    // Mark as processing so our resize handler ignores it
+    this.processing.add(fullPath);
+
+    // Write the file to the vault
+    const created = await this.app.vault.createBinary(fullPath, data);
+
+    // Insert the embed link at the cursor
+    const embedLink = "!" + this.app.fileManager.generateMarkdownLink(created, note?.path ?? "");
+    editor.replaceSelection(width !== null ? setEmbedWidth(embedLink, width) : embedLink);
+
+    // Clean up processing guard after a delay
+    setTimeout(() => {
+      this.processing.delete(fullPath);
+    }, 2000);
+  }
+
+  /**
+   * Resolve the attachment folder path using Obsidian's configured setting.
+   * Falls back to the vault root if it can't be determined.
+   */
+  private async getAttachmentFolder(activeFile: TFile | null): Promise<string> {
+    // Use Obsidian's internal method if available
+    // @ts-ignore — getAvailablePathForAttachment is not in the public API typings
+    if (this.app.vault.getAvailablePathForAttachment) {
+      try {
+        // This returns a full path like "attachments/image.png"
+        // @ts-ignore
+        const suggestedPath: string = await this.app.vault.getAvailablePathForAttachment(
+          "temp",
+          activeFile?.path
+        );
+        const lastSlash = suggestedPath.lastIndexOf("/");
+        return lastSlash >= 0 ? suggestedPath.substring(0, lastSlash) : "";
+      } catch {
+        // Fall through to manual detection
+      }
+    }
+
+    // Fallback: read the config directly
+    // @ts-ignore
     const config = this.app.vault.config;
     const attachmentSetting = config?.attachmentFolderPath ?? "/";
 
@@ -262,83 +1069,760 @@ export default class ImageResizerPlugin extends Plugin {
   }
 
   /**
-   * Process a single image file — resize if needed.
+   * The note a paste or drop went into, falling back to the active file.
+   */
+  private notePathFor(info: MarkdownView | MarkdownFileInfo): string | null {
+    const note = info.file ?? this.app.workspace.getActiveFile();
+    return note?.path ?? null;
+  }
+
+  /**
+   * Effective settings for the image at `path`: the global settings, then
+   * the first matching rule, then frontmatter overrides from `notes` (the
+   * notes the image was pasted into or is embedded in). Returns null to
+   * skip it.
+   */
+  private settingsFor(
+    path: string,
+    notes: TFile[]
+  ): ImageResizerSettings | null {
+    const settings = resolveSettings(this.settings, path);
+    if (!settings) return null;
+
+    const overrides = notes
+      .map((note) => readNoteOverrides(this.app, note))
+      .filter((o): o is ResizeOverrides => o !== null);
+
+    return applyOverrides(settings, mergeNoteOverrides(overrides));
+  }
+
+  /**
+   * True if automatic resizing is turned on for images from `source`.
+   */
+  private isSourceEnabled(source: ImageSource): boolean {
+    switch (source) {
+      case "paste":
+        return this.settings.resizeOnPaste;
+      case "drop":
+        return this.settings.resizeOnDrop;
+      case "external":
+        return this.settings.resizeOnImport;
+    }
+  }
+
+  /**
+   * Process a single image file that arrived automatically — resize if
+   * needed and enabled for its source.
    */
-  private async processFile(file: TFile) {
+  private async processFile(file: TFile, origin: ImageOrigin) {
     if (this.processing.has(file.path)) return;
     if (!isImageFile(file.name)) return;
+    if (!this.isSourceEnabled(origin.source)) return;
+
+    const note = origin.notePath
+      ? this.app.vault.getAbstractFileByPath(origin.notePath)
+      : null;
+    const settings = this.settingsFor(
+      file.path,
+      note instanceof TFile ? [note] : []
+    );
+    if (!settings) return;
 
-    // Check toggle settings
-    // We can't easily distinguish paste vs drop vs manual add,
-    // so we check both toggles — if either is disabled, the user
-    // can use the manual commands instead.
-    if (!this.settings.resizeOnPaste && !this.settings.resizeOnDrop) return;
-
-    this.processing.add(file.path);
+    // The file may be renamed if its format changes, so remember where it
+    // started for the guard cleanup below
+    const originalPath = file.path;
+    this.processing.add(originalPath);
 
     try {
       const data = await this.app.vault.readBinary(file);
-      const result = await resizeImage(data, file.name, this.settings);
 
-      if (!result) {
-        // Image is already within bounds
-        return;
+      // A copy of an image already in the vault can be swapped for it
+      // before any work is done on it
+      const check = settings.duplicateCheck;
+      const hash = check !== "off" ? await contentHash(data) : null;
+      if (hash) {
+        const images = this.indexableImages(file);
+        const existing = await findIdentical(
+          this.app,
+          this.fingerprints,
+          images,
+          hash,
+          data.byteLength
+        );
+        if (existing && (await this.resolveDuplicate(file, existing, note, true))) return;
       }
 
-      // If converting format (e.g. png -> jpg), rename the file
-      if (result.newExtension) {
-        const newName = file.name.replace(
-          /\.[^.]+$/,
-          `.${result.newExtension}`
+      // Pasted HiDPI screenshots are brought down to 1× first
+      const scale =
+        origin.source === "paste" && settings.normalizeHiDpi
+          ? screenshotScale(data, origin.display)
+          : 1;
+      const scaled = limitToScale(settings, data, scale);
+
+      if (settings.resizeMode === "display") {
+        const size = await this.setDisplayWidth(
+          file,
+          data,
+          scaled,
+          note instanceof TFile ? note : null
         );
-        const newPath = file.path.replace(file.name, newName);
+        if (size) this.logDisplayWidth(file, origin.source, data, size);
+        if (hash) {
+          await recordFingerprint(this.fingerprints, file, data, null, null);
+          await this.saveSettings();
+        }
+        if (size && this.settings.showNotice) {
+          new Notice(`Image kept at full size, shown ${size.width} px wide`);
+        }
+        return;
+      }
 
-        // Write new data then rename
-        await this.app.vault.modifyBinary(file, result.data);
+      const result = await this.pool.resize(data, file.name, scaled);
+      const output = result?.data ?? data;
+
+      // Near-duplicates are compared as they will be saved, before the
+      // original is archived or overwritten
+      let phash: string | null = null;
+      if (check === "similar") {
+        const outputName = result?.newExtension
+          ? `${file.basename}.${result.newExtension}`
+          : file.name;
+        phash = await this.pool.perceptualHash(output, outputName, settings);
+        const similar = phash
+          ? findSimilar(this.fingerprints, this.indexableImages(file), phash)
+          : null;
+        if (similar && (await this.resolveDuplicate(file, similar, note, false))) return;
+      }
 
-        // Check if a file at the new path already exists
-        const existingFile = this.app.vault.getAbstractFileByPath(newPath);
-        if (!existingFile) {
-          this.processing.add(newPath);
-          await this.app.fileManager.renameFile(file, newPath);
+      if (!result) {
+        // Image is already within bounds
+        if (hash) {
+          await recordFingerprint(this.fingerprints, file, data, null, phash);
+          await this.saveSettings();
         }
-      } else {
-        await this.app.vault.modifyBinary(file, result.data);
+        return;
+      }
+
+      // Pastes and drops can be named by the template, now that the bytes
+      // its hash is of are known
+      const naming =
+        this.settings.renameResized && origin.source !== "external"
+          ? { note: note instanceof TFile ? note.basename : null, data: result.data }
+          : null;
+      await this.writeResized(file, data, result, naming);
+      this.logHistory(resultEntry(file.path, origin.source, originalPath, data, result));
+      if (hash) {
+        await recordFingerprint(this.fingerprints, file, output, hash, phash);
+        await this.saveSettings();
       }
 
       if (this.settings.showNotice) {
         const originalKB = Math.round(data.byteLength / 1024);
         const newKB = Math.round(result.data.byteLength / 1024);
+        const output = describeOutput(result);
+        const metadata = describeMetadata(result.metadata);
+        const attempts =
+          settings.targetFileSizeKB > 0
+            ? ` (${result.attempts} attempt${result.attempts === 1 ? "" : "s"}` +
+              (result.quality !== null ? `, quality ${result.quality}` : "") +
+              ")"
+            : "";
+        const summary = result.optimized
+          ? `Image optimized: ${result.width}×${result.height}`
+          : `Image resized: ${result.originalWidth}×${result.originalHeight} → ${result.width}×${result.height}`;
+        const hiDpi = scale > 1 ? `\nHiDPI screenshot (${scale}×) scaled to 1×` : "";
         new Notice(
-          `Image resized: ${result.originalWidth}×${result.originalHeight} → ${result.width}×${result.height}\n` +
-            `${originalKB} KB → ${newKB} KB`,
+          `${summary}${hiDpi}\n` +
+            `${originalKB} KB → ${newKB} KB${attempts}` +
+            (output ? `\n${output}` : "") +
+            (metadata ? `\n${metadata}` : ""),
           4000
         );
       }
     } catch (err) {
       console.error(`[Image Resizer] Failed to process ${file.path}:`, err);
+      this.logHistory(failureEntry(file.path, origin.source, "resize", err));
       if (this.settings.showNotice) {
-        new Notice(`Image Resizer: Failed to process ${file.name}`);
+        new Notice(`Image Resizer: Failed to process ${file.name}: ${describeError(err)}`);
       }
     } finally {
       // Remove from processing set after a delay to prevent re-triggers
       setTimeout(() => {
+        this.processing.delete(originalPath);
+        // Also clean up the renamed path if applicable — `file.path`
+        // follows the rename
+        this.processing.delete(file.path);
+      }, 1000);
+    }
+  }
+
+  /**
+   * Images a new image can be a duplicate of: every image in the vault
+   * but `file` and the archived originals.
+   */
+  private indexableImages(file: TFile): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((f) => f !== file && isImageFile(f.name) && !this.isExcluded(f));
+  }
+
+  /**
+   * Ask whether to keep the new image `file` alongside `existing`, which
+   * is the same or a `similar` image. To use the existing one, embeds of
+   * `file` in `note`, or anywhere without a note, are pointed at it and
+   * `file` is deleted. Returns true if it was.
+   */
+  private async resolveDuplicate(
+    file: TFile,
+    existing: TFile,
+    note: TAbstractFile | null,
+    identical: boolean
+  ): Promise<boolean> {
+    const prompt = this.duplicatePrompt.then(() =>
+      new DuplicateModal(this.app, file, existing, identical).choose()
+    );
+    this.duplicatePrompt = prompt;
+    if ((await prompt) !== "existing") return false;
+
+    if (note instanceof TFile) {
+      await retargetEmbedsInNote(this.app, note, file, existing);
+    } else {
+      await retargetEmbeds(this.app, findEmbedsOf(this.app, file), existing);
+    }
+    await this.app.fileManager.trashFile(file);
+
+    if (this.settings.showNotice) {
+      new Notice(`Using the existing image ${existing.path}`);
+    }
+    return true;
+  }
+
+  /**
+   * Hash every image in the vault and list the groups of identical or
+   * similar ones.
+   */
+  private async findDuplicates() {
+    const files = this.app.vault
+      .getFiles()
+      .filter((f) => isImageFile(f.name) && !this.isExcluded(f));
+    const notice = new Notice("Looking for duplicate images…", 0);
+
+    try {
+      const clusters = await findDuplicateClusters(
+        this.app,
+        this.fingerprints,
+        files,
+        (data, filename) => this.pool.perceptualHash(data, filename, this.settings),
+        (done) => notice.setMessage(`Looking for duplicate images… ${done}/${files.length}`)
+      );
+      await this.saveSettings();
+      new DuplicateClustersModal(this.app, clusters).open();
+    } catch (err) {
+      console.error("[Image Resizer] Failed to find duplicate images:", err);
+      new Notice(`Image Resizer: Failed to find duplicate images: ${describeError(err)}`);
+    } finally {
+      notice.hide();
+    }
+  }
+
+  /**
+   * Leave `file` at full resolution and give its embeds the width it would
+   * have been resized to: the ones in `note` if given, or else every embed
+   * in the vault. Returns the size it is shown at, or null if the image is
+   * within the limits.
+   */
+  private async setDisplayWidth(
+    file: TFile,
+    data: ArrayBuffer,
+    settings: ImageResizerSettings,
+    note: TFile | null
+  ): Promise<{ width: number; height: number } | null> {
+    const size = await limitedSize(data, settings);
+    if (!size) return null;
+
+    if (note) {
+      await limitEmbedsInNote(this.app, note, file, size.width);
+    } else {
+      await limitEmbeds(this.app, findEmbedsOf(this.app, file), size.width);
+    }
+    return size;
+  }
+
+  /**
+   * Log that `file`, whose bytes are `data`, is now shown at `size`.
+   * Returns the entry.
+   */
+  private logDisplayWidth(
+    file: TFile,
+    source: HistorySource,
+    data: ArrayBuffer,
+    size: { width: number; height: number }
+  ): HistoryEntry {
+    const entry: HistoryEntry = {
+      time: Date.now(),
+      path: file.path,
+      source,
+      action: "display",
+      before: statsOf(data),
+      after: { ...size, bytes: data.byteLength },
+      fromFormat: file.extension,
+      toFormat: null,
+      error: null,
+    };
+    this.logHistory(entry);
+    return entry;
+  }
+
+  /**
+   * `settings` changed by the API call `options`.
+   */
+  private withOptions(
+    settings: ImageResizerSettings,
+    options: ResizeOptions
+  ): ImageResizerSettings {
+    return applyOverrides(settings, { ...options, skip: false }) ?? settings;
+  }
+
+  /**
+   * Resize `file` for an API call, with the settings for it changed by
+   * `options`. Rules and notes that skip it are ignored, as the call asks
+   * for it by name. Resolves with the log entry, or null if nothing
+   * needed doing.
+   */
+  private async resizeForApi(file: TFile, options: ResizeOptions): Promise<HistoryEntry | null> {
+    const notes = buildEmbedderIndex(this.app).get(file.path) ?? [];
+    const settings = this.withOptions(this.settingsFor(file.path, notes) ?? this.settings, options);
+
+    const originalPath = file.path;
+    this.processing.add(originalPath);
+
+    try {
+      const data = await this.app.vault.readBinary(file);
+
+      if (settings.resizeMode === "display") {
+        const size = await this.setDisplayWidth(file, data, settings, null);
+        return size ? this.logDisplayWidth(file, "api", data, size) : null;
+      }
+
+      const result = await this.pool.resize(data, file.name, settings);
+      if (!result) return null;
+
+      const newPath = await this.writeResized(file, data, result);
+      const entry = resultEntry(newPath, "api", originalPath, data, result);
+      this.logHistory(entry);
+      return entry;
+    } catch (err) {
+      this.logHistory(failureEntry(originalPath, "api", "resize", err));
+      throw err;
+    } finally {
+      setTimeout(() => {
+        this.processing.delete(originalPath);
         this.processing.delete(file.path);
-        // Also clean up the renamed path if applicable
-        const ext = getExtension(file.name);
-        if (this.settings.convertToJpeg && ext === "png") {
-          const newPath = file.path.replace(/\.[^.]+$/, ".jpg");
-          this.processing.delete(newPath);
+      }, 1000);
+    }
+  }
+
+  /**
+   * Run an `obsidian://image-resizer` URI. `action=resize`, the default,
+   * resizes the image at `path` with any `width`, `height`, `quality`,
+   * `format` and `mode` given; `action=optimize` optimizes the folder at
+   * `path` and its subfolders once confirmed in the batch preview.
+   */
+  private async handleUri(params: ObsidianProtocolData) {
+    // Obsidian may report the handler's own name as the action
+    const action = params.action && params.action !== URI_ACTION ? params.action : "resize";
+    const path = params.path ? normalizePath(params.path) : "";
+
+    try {
+      if (action === "resize") {
+        if (!path) {
+          new Notice("No image path given to resize.");
+          return;
+        }
+        const entry = await this.api.resize(path, parseUriOptions(params));
+        new Notice(
+          entry
+            ? `Image Resizer: ${HISTORY_ACTION_LABELS[entry.action]} ${entry.path}`
+            : `Image Resizer: ${path} is already within the limits.`
+        );
+      } else if (action === "optimize") {
+        // Anyone can put this link in a page or note, so the run is
+        // previewed and confirmed like the batch commands
+        const folder =
+          path === "" || path === "/"
+            ? this.app.vault.getRoot()
+            : this.app.vault.getAbstractFileByPath(path);
+        if (!(folder instanceof TFolder)) throw new Error(`No folder at ${path}`);
+        await this.optimizeFolder(folder, true, true);
+      } else {
+        new Notice(`Image Resizer: Unknown URI action "${action}".`);
+      }
+    } catch (err) {
+      console.error("[Image Resizer] Failed to run URI:", err);
+      new Notice(`Image Resizer: ${describeError(err)}`);
+    }
+  }
+
+  /**
+   * Switch the image embed under the cursor between display sizing and a
+   * pixel resize. A sized embed loses its width and the image is resized;
+   * an unsized one gets the width back, and the archived original, if
+   * there is one, is restored.
+   */
+  private async toggleEmbedSize(editor: Editor, note: TFile) {
+    const embed = this.findImageEmbed(editor, note);
+    if (!embed) {
+      new Notice("Place the cursor on an image embed first.");
+      return;
+    }
+    const { match, file, from, to } = embed;
+
+    const settings = this.settingsFor(file.path, [note]);
+    if (!settings) {
+      new Notice(`${file.name} is skipped by a rule or the note's frontmatter.`);
+      return;
+    }
+
+    if (getEmbedWidth(match.original) !== null) {
+      editor.replaceRange(setEmbedWidth(match.original, null), from, to);
+      await this.resizeNow(file, { ...settings, resizeMode: "pixels" });
+      return;
+    }
+
+    // Size the embed for the original if it was kept, since that is what
+    // will be shown
+    const record = this.originals[file.path];
+    const archived = record?.archivePath
+      ? this.app.vault.getAbstractFileByPath(record.archivePath)
+      : null;
+    const source = archived instanceof TFile ? archived : file;
+    const size = await limitedSize(await this.app.vault.readBinary(source), settings);
+    if (!size) {
+      new Notice(`${file.name} is within the limits, so it needs no display width.`);
+      return;
+    }
+
+    editor.replaceRange(setEmbedWidth(match.original, size.width), from, to);
+    if (archived instanceof TFile) {
+      await this.restoreOriginal(file);
+    }
+  }
+
+  /**
+   * The image embed at the cursor, or the first one the selection touches.
+   * Returns null if there is none, or it doesn't show an image.
+   */
+  private findImageEmbed(editor: Editor, note: TFile): EditorEmbed | null {
+    const from = editor.getCursor("from");
+    const to = editor.getCursor("to");
+    const start = editor.posToOffset(from);
+    const end = editor.posToOffset(to);
+
+    // Only the selected lines need searching, as an embed is on one line
+    const lineStart = editor.posToOffset({ line: from.line, ch: 0 });
+    const text = editor.getRange(
+      { line: from.line, ch: 0 },
+      { line: to.line, ch: editor.getLine(to.line).length }
+    );
+    const match = findEmbedsInText(text).find((m) =>
+      start === end
+        ? m.start <= start - lineStart && start - lineStart <= m.end
+        : m.start < end - lineStart && start - lineStart < m.end
+    );
+    if (!match) return null;
+
+    const file = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(match.link), note.path);
+    if (!file || !isImageFile(file.name)) return null;
+
+    return {
+      match,
+      file,
+      from: editor.offsetToPos(lineStart + match.start),
+      to: editor.offsetToPos(lineStart + match.end),
+    };
+  }
+
+  /**
+   * Ask what `action` should do to the image embedded under the cursor,
+   * then do it.
+   */
+  private async editEmbeddedImage(editor: Editor, note: TFile, action: ImageAction) {
+    const embed = this.findImageEmbed(editor, note);
+    if (!embed) {
+      new Notice("Place the cursor on an image embed first.");
+      return;
+    }
+
+    // Rules and frontmatter that skip the image only stop automatic
+    // resizing, not an edit asked for by hand
+    const settings = this.settingsFor(embed.file.path, [note]) ?? this.settings;
+    const edit = await action.chooseEdit(this.app, embed.file, settings);
+    if (!edit) return;
+
+    await this.resizeNow(embed.file, settings, edit, { ...embed, editor, note });
+  }
+
+  /**
+   * Resize `file` right away with `settings`, whatever its source, making
+   * `edit` if given. If the format changes, embeds of it are pointed at the
+   * new name, including `embed` in an editor, which may not be saved yet.
+   */
+  private async resizeNow(
+    file: TFile,
+    settings: ImageResizerSettings,
+    edit: ImageEdit | null = null,
+    embed: (EditorEmbed & { editor: Editor; note: TFile }) | null = null
+  ) {
+    const originalPath = file.path;
+    this.processing.add(originalPath);
+
+    try {
+      const data = await this.app.vault.readBinary(file);
+      const result = await this.pool.resize(data, file.name, settings, edit);
+      if (!result) {
+        new Notice(
+          edit ? `${file.name} is already that size.` : `${file.name} is already within the limits.`
+        );
+        return;
+      }
+
+      const newPath = await this.writeResized(file, data, result);
+      this.logHistory(
+        resultEntry(newPath, "command", originalPath, data, result, edit ? "edit" : undefined)
+      );
+
+      // The embed the edit came from may not be saved yet, so fix it in the
+      // editor unless Obsidian already did
+      if (newPath !== originalPath) {
+        if (embed && embed.editor.getRange(embed.from, embed.to) === embed.match.original) {
+          const linktext = this.app.metadataCache.fileToLinktext(file, embed.note.path, false);
+          embed.editor.replaceRange(
+            replaceEmbedTarget(embed.match.original, linktext),
+            embed.from,
+            embed.to
+          );
         }
+      }
+
+      if (this.settings.showNotice) {
+        const output = describeOutput(result);
+        new Notice(
+          `Image ${edit ? "edited" : "resized"}: ` +
+            `${result.originalWidth}×${result.originalHeight} → ${result.width}×${result.height}\n` +
+            `${formatBytes(data.byteLength)} → ${formatBytes(result.data.byteLength)}` +
+            (output ? `\n${output}` : "")
+        );
+      }
+    } catch (err) {
+      console.error(`[Image Resizer] Failed to process ${file.path}:`, err);
+      this.logHistory(failureEntry(file.path, "command", edit ? "edit" : "resize", err));
+      new Notice(`Image Resizer: Failed to process ${file.name}: ${describeError(err)}`);
+    } finally {
+      setTimeout(() => {
+        this.processing.delete(originalPath);
+        this.processing.delete(file.path);
+      }, 1000);
+    }
+  }
+
+  /**
+   * Overwrite `file` with resized bytes, archiving the original first when
+   * enabled, and rename it if the format changed. With `naming`, it is
+   * also renamed per the file-name template. Returns the final path.
+   */
+  private async writeResized(
+    file: TFile,
+    original: ArrayBuffer,
+    result: ResizeResult,
+    naming: NameContext | null = null
+  ): Promise<string> {
+    // Only archive the first time, so the record always points at the
+    // true original rather than an earlier resize
+    const mode = this.settings.keepOriginals;
+    if (mode !== "off" && !this.originals[file.path]) {
+      this.originals[file.path] = await archiveOriginal(
+        this.app,
+        file,
+        original,
+        mode,
+        this.settings.archiveFolder
+      );
+      await this.saveSettings();
+    }
+
+    await this.app.vault.modifyBinary(file, result.data);
+
+    if (!result.newExtension && !naming) return file.path;
+
+    // If converting format (e.g. png -> jpg) or naming by the template,
+    // rename the file — the rename listener moves the originals record
+    // along with it
+    const extension = result.newExtension ?? file.extension;
+    const newPath = naming
+      ? await availableImagePath(
+          this.app,
+          file.parent?.path ?? "",
+          this.settings.fileNameTemplate,
+          naming,
+          extension,
+          file.path
+        )
+      : file.path.replace(/\.[^.]+$/, `.${extension}`);
+    if (newPath === file.path || this.app.vault.getAbstractFileByPath(newPath)) {
+      return file.path;
+    }
+
+    this.processing.add(newPath);
+    await this.renameImage(file, newPath);
+    return newPath;
+  }
+
+  /**
+   * Rename `file` to `path`, then point embeds Obsidian left alone at it:
+   * ones in notes when automatic link updates are off, and ones in open
+   * editors that weren't saved yet.
+   */
+  private async renameImage(file: TFile, path: string) {
+    // Collect embeds before renaming, while they still resolve to `file`
+    const embeds = findEmbedsOf(this.app, file);
+    const open = findOpenEmbedsOf(this.app, file);
+    await this.app.fileManager.renameFile(file, path);
+    await retargetEmbeds(this.app, embeds, file);
+    for (const [note, originals] of open) {
+      await retargetRenamedEmbedsInNote(this.app, note, originals, file);
+    }
+  }
+
+  /**
+   * Put the archived original of a resized image back in place, renaming
+   * it to its original path and fixing embeds that pointed at the resized
+   * file.
+   */
+  private async restoreOriginal(file: TFile) {
+    if (!this.canRestore(file.path)) return;
+
+    try {
+      await this.restoreArchived(file, "command");
+      if (this.settings.showNotice) {
+        new Notice(`Restored original image ${file.name}`);
+      }
+    } catch (err) {
+      console.error(`[Image Resizer] Failed to restore ${file.path}:`, err);
+      this.logHistory(failureEntry(file.path, "command", "restore", err));
+      new Notice(`Image Resizer: Failed to restore ${file.name}: ${describeError(err)}`);
+    }
+  }
+
+  /**
+   * True if the image at `path` has an original in the archive folder.
+   * Ones sent to the system trash can only be recovered from there.
+   */
+  private canRestore(path: string): boolean {
+    return !!this.originals[path]?.archivePath;
+  }
+
+  /**
+   * Do the work of `restoreOriginal`, throwing if the original can't be
+   * put back, and log it as started from `source`.
+   */
+  private async restoreArchived(file: TFile, source: HistorySource) {
+    const record = this.originals[file.path];
+    if (!record) {
+      throw new Error("There is no archived original");
+    }
+    if (!record.archivePath) {
+      throw new Error("The original was moved to the system trash. Restore it from there");
+    }
+
+    const archived = this.app.vault.getAbstractFileByPath(record.archivePath);
+    if (!(archived instanceof TFile)) {
+      throw new Error(`Archived original not found at ${record.archivePath}`);
+    }
+
+    const currentPath = file.path;
+    const targetPath = record.originalPath;
+    if (
+      targetPath !== currentPath &&
+      this.app.vault.getAbstractFileByPath(targetPath)
+    ) {
+      throw new Error(`${targetPath} already exists`);
+    }
+
+    this.processing.add(currentPath);
+    this.processing.add(targetPath);
+
+    try {
+      const before = statsOf(await this.app.vault.readBinary(file));
+      const data = await this.app.vault.readBinary(archived);
+      await this.app.vault.modifyBinary(file, data);
+
+      delete this.originals[currentPath];
+
+      if (targetPath !== currentPath) {
+        await this.renameImage(file, targetPath);
+      }
+
+      await this.app.fileManager.trashFile(archived);
+      this.logHistory({
+        time: Date.now(),
+        path: file.path,
+        source,
+        action: "restore",
+        before,
+        after: statsOf(data),
+        fromFormat: getExtension(currentPath),
+        toFormat: targetPath !== currentPath ? getExtension(targetPath) : null,
+        error: null,
+      });
+      await this.saveSettings();
+    } finally {
+      setTimeout(() => {
+        this.processing.delete(currentPath);
+        this.processing.delete(targetPath);
       }, 1000);
     }
   }
 
+  /**
+   * What restoring `file` would change, in the shape of a resize plan, or
+   * null if it has no archived original to restore.
+   */
+  private async planRestore(file: TFile): Promise<ResizePlan | null> {
+    const record = this.originals[file.path];
+    const archived = record?.archivePath
+      ? this.app.vault.getAbstractFileByPath(record.archivePath)
+      : null;
+    if (!record || !(archived instanceof TFile)) return null;
+
+    const current = probeDimensions(await this.app.vault.readBinary(file));
+    const original = probeDimensions(await this.app.vault.readBinary(archived));
+    if (!current || !original) {
+      throw new Error("Could not read the image dimensions");
+    }
+
+    const extension = getExtension(record.originalPath);
+    return {
+      width: current.width,
+      height: current.height,
+      bytes: file.stat.size,
+      newWidth: original.width,
+      newHeight: original.height,
+      estimatedBytes: archived.stat.size,
+      format: getNativeFormat(getSourceFormat(extension) ?? "png"),
+      newExtension: extension !== getExtension(file.name) ? extension : null,
+      dependsOnAlpha: false,
+      optimize: false,
+      display: false,
+    };
+  }
+
   /**
    * Resize all images in the entire vault.
    */
   private async resizeAllImages() {
-    const files = this.app.vault.getFiles().filter((f) => isImageFile(f.name));
+    const files = this.app.vault
+      .getFiles()
+      .filter((f) => isImageFile(f.name) && !this.isExcluded(f));
     await this.batchResize(files, "vault");
   }
 
@@ -360,75 +1844,417 @@ export default class ImageResizerPlugin extends Plugin {
 
     const files = this.app.vault
       .getFiles()
-      .filter((f) => f.parent?.path === folder.path && isImageFile(f.name));
+      .filter(
+        (f) =>
+          f.parent?.path === folder.path &&
+          isImageFile(f.name) &&
+          !this.isExcluded(f)
+      );
 
     await this.batchResize(files, folder.path);
   }
 
   /**
-   * Process a batch of files and report results.
+   * Add an item for each batch action to a file menu opened on `targets`,
+   * if there are images or folders among them. Restoring is only offered
+   * when one of the images has an archived original.
+   */
+  private addFileMenuItems(menu: Menu, targets: TAbstractFile[]) {
+    const relevant = targets.filter(
+      (t) => t instanceof TFolder || (t instanceof TFile && isImageFile(t.name))
+    );
+    if (relevant.length === 0) return;
+
+    const single = relevant.length === 1 ? relevant[0] : undefined;
+    const titles: Record<BatchAction, string> =
+      single instanceof TFile
+        ? {
+            resize: "Resize image",
+            optimize: "Optimize image",
+            convert: "Convert image…",
+            restore: "Restore original image",
+          }
+        : single instanceof TFolder
+          ? {
+              resize: "Resize images in folder",
+              optimize: "Optimize images in folder",
+              convert: "Convert images in folder…",
+              restore: "Restore originals in folder",
+            }
+          : {
+              resize: "Resize selected images",
+              optimize: "Optimize selected images",
+              convert: "Convert selected images…",
+              restore: "Restore originals of selected images",
+            };
+
+    for (const action of ["resize", "optimize", "convert", "restore"] as BatchAction[]) {
+      if (action === "restore" && !this.hasOriginalsIn(relevant)) continue;
+      menu.addItem((item) => {
+        item
+          .setTitle(titles[action])
+          .setIcon(FILE_ACTION_ICONS[action])
+          .setSection("image-resizer")
+          .onClick(() => {
+            void this.runFileAction(action, relevant);
+          });
+      });
+    }
+  }
+
+  /**
+   * True if any of `targets`, or any image inside them, has an original
+   * that can be restored.
+   */
+  private hasOriginalsIn(targets: TAbstractFile[]): boolean {
+    return Object.keys(this.originals).some(
+      (path) =>
+        this.canRestore(path) &&
+        targets.some((t) => (t instanceof TFolder ? isInFolder(path, t.path) : path === t.path))
+    );
+  }
+
+  /**
+   * Run `action` on the images among `targets`, asking whether to include
+   * subfolders when a folder has any, and which format to convert to. A
+   * single image is restored right away; anything else goes through a
+   * batch run.
+   */
+  private async runFileAction(action: BatchAction, targets: TAbstractFile[]) {
+    const [first] = targets;
+    if (action === "restore" && targets.length === 1 && first instanceof TFile) {
+      await this.restoreOriginal(first);
+      return;
+    }
+
+    const nested = targets.some(
+      (t) => t instanceof TFolder && t.children.some((child) => child instanceof TFolder)
+    );
+    const recursive = nested
+      ? await new ChoiceModal(this.app, "Include subfolders?", [
+          { label: "Include subfolders", value: true },
+          { label: "Top level only", value: false },
+        ]).choose()
+      : false;
+    if (recursive === null) return;
+
+    let format: EncodeFormat | null = null;
+    if (action === "convert") {
+      format = await chooseFormat(this.app, null);
+      if (!format) return;
+    }
+
+    const files = this.imagesIn(targets, recursive);
+    const scope =
+      targets.length > 1
+        ? `${targets.length} selected items`
+        : first instanceof TFolder && first.isRoot()
+          ? "vault"
+          : (first?.path ?? "vault");
+    await this.batchResize(files, scope, action, format);
+  }
+
+  /**
+   * The images among `targets` and in the folders among them, and in
+   * their subfolders if `recursive`, leaving out archived originals.
+   */
+  private imagesIn(targets: TAbstractFile[], recursive: boolean): TFile[] {
+    const files = new Set<TFile>();
+    const collect = (item: TAbstractFile, top: boolean) => {
+      if (item instanceof TFile) {
+        if (isImageFile(item.name) && !this.isExcluded(item)) files.add(item);
+      } else if (item instanceof TFolder && (top || recursive)) {
+        for (const child of item.children) collect(child, false);
+      }
+    };
+    for (const target of targets) collect(target, true);
+    return [...files];
+  }
+
+  /**
+   * Optimize every image in `folder`, and its subfolders if `recursive`,
+   * as a batch run, with or without the preview.
    */
-  private async batchResize(files: TFile[], scope: string) {
+  private optimizeFolder(
+    folder: TFolder,
+    recursive: boolean,
+    preview: boolean
+  ): Promise<BatchJob | null> {
+    return this.batchResize(
+      this.imagesIn([folder], recursive),
+      folder.isRoot() ? "vault" : folder.path,
+      "optimize",
+      null,
+      preview
+    );
+  }
+
+  /**
+   * Work out what a batch run would do, let the user pick which images to
+   * include, then start a job for the confirmed subset. Resizes unless
+   * another `action` is given; `format` is what a convert run converts to.
+   * Without `preview`, every image that needs it is included. Resolves
+   * with the finished job, or null if none ran.
+   */
+  private async batchResize(
+    files: TFile[],
+    scope: string,
+    action: BatchAction = "resize",
+    format: EncodeFormat | null = null,
+    preview = true
+  ): Promise<BatchJob | null> {
+    if (this.batchRunning) {
+      new Notice("A batch resize is already running.");
+      return null;
+    }
+
     if (files.length === 0) {
       new Notice(`No images found in ${scope}.`);
-      return;
+      return null;
     }
 
     new Notice(`Scanning ${files.length} image(s) in ${scope}…`);
 
-    let resizedCount = 0;
-    let skippedCount = 0;
-    let errorCount = 0;
+    const job = createBatchJob(scope, [], action, format);
+    const embedders = buildEmbedderIndex(this.app);
+    const candidates: BatchCandidate[] = [];
 
     for (const file of files) {
       try {
-        const data = await this.app.vault.readBinary(file);
-        const result = await resizeImage(data, file.name, this.settings);
+        const settings = this.batchSettingsFor(job, file, embedders.get(file.path) ?? []);
+        if (!settings) {
+          job.overrideSkipped++;
+          continue;
+        }
 
-        if (!result) {
-          skippedCount++;
+        const plan =
+          action === "restore"
+            ? await this.planRestore(file)
+            : await planResize(
+                await this.app.vault.readBinary(file),
+                file.name,
+                settings,
+                format ? { format } : null
+              );
+        if (!plan || (format && !plan.newExtension)) {
+          job.skipped++;
           continue;
         }
 
-        this.processing.add(file.path);
+        candidates.push({ file, settings, plan });
+      } catch (err) {
+        console.error(`[Image Resizer] Batch error on ${file.path}:`, err);
+        job.failed.push({ path: file.path, error: describeError(err) });
+      }
+    }
 
-        if (result.newExtension) {
-          const newPath = file.path.replace(
-            /\.[^.]+$/,
-            `.${result.newExtension}`
-          );
-          await this.app.vault.modifyBinary(file, result.data);
-          const existingFile = this.app.vault.getAbstractFileByPath(newPath);
-          if (!existingFile) {
-            this.processing.add(newPath);
-            await this.app.fileManager.renameFile(file, newPath);
+    if (candidates.length === 0) {
+      this.finishBatch(job);
+      return job;
+    }
+
+    const chosen = preview
+      ? await new BatchPreviewModal(this.app, scope, candidates, action).choose()
+      : candidates;
+    if (!chosen) {
+      new Notice("Batch resize cancelled.");
+      return null;
+    }
+
+    job.queue = chosen.map(({ file }) => file.path);
+    job.total = job.queue.length;
+    job.excluded = candidates.length - chosen.length;
+
+    this.job = job;
+    await this.saveSettings();
+    await this.runBatch();
+    return job;
+  }
+
+  /**
+   * Work through the queue of the current job, showing progress in the
+   * status bar and saving the job state as it goes. Settings are resolved
+   * again for each image, since a resumed run may start long after the
+   * preview.
+   */
+  private async runBatch() {
+    const job = this.job;
+    if (!job || this.batchRunning) return;
+
+    this.batchRunning = true;
+    this.batchStop = null;
+
+    const statusBar = this.addStatusBarItem();
+    statusBar.addClass("mod-clickable");
+    statusBar.setAttribute("aria-label", "Click to cancel");
+    statusBar.onClickEvent(() => this.cancelBatch());
+
+    const embedders = buildEmbedderIndex(this.app);
+    let unsaved = 0;
+
+    try {
+      statusBar.setText(describeProgress(job));
+      // One lane per worker; the pool holds lanes back while the memory
+      // budget is used up
+      await runQueue(
+        job,
+        this.pool.size,
+        (path) => this.runBatchItem(job, path, embedders.get(path) ?? []),
+        () => this.batchStop !== null,
+        async () => {
+          statusBar.setText(describeProgress(job));
+          if (++unsaved >= JOB_SAVE_INTERVAL) {
+            unsaved = 0;
+            await this.saveSettings();
           }
+        }
+      );
+    } finally {
+      statusBar.remove();
+      this.batchRunning = false;
+    }
+
+    if (this.batchStop === "pause") {
+      // Unloading: keep the queue so the next launch resumes it
+      await this.saveSettings();
+      return;
+    }
+
+    if (this.batchStop === "cancel") {
+      this.job = null;
+      await this.saveSettings();
+      new Notice(
+        `Batch resize cancelled: ${summarizeJob(job)}, ${job.queue.length} not processed.`,
+        6000
+      );
+      return;
+    }
+
+    this.finishBatch(job);
+    await this.saveSettings();
+  }
+
+  /**
+   * Effective settings for `file` in a run of `job`: those for automatic
+   * resizing, with the optimize pass forced on for an optimize run. A
+   * restore run doesn't use them, so rules never skip images for it.
+   */
+  private batchSettingsFor(
+    job: BatchJob,
+    file: TFile,
+    notes: TFile[]
+  ): ImageResizerSettings | null {
+    if (job.action === "restore") return this.settings;
+    const settings = this.settingsFor(file.path, notes);
+    if (!settings || job.action !== "optimize") return settings;
+    return { ...settings, optimize: true };
+  }
+
+  /**
+   * Process one queued image, recording the outcome on `job`. Returns
+   * false if unloading interrupted it, so it stays queued.
+   */
+  private async runBatchItem(job: BatchJob, path: string, notes: TFile[]): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      // Deleted or renamed since it was queued
+      job.skipped++;
+      return true;
+    }
+
+    const originalPath = file.path;
+    try {
+      if (job.action === "restore") {
+        if (!this.canRestore(file.path)) {
+          job.skipped++;
+          return true;
+        }
+        await this.restoreArchived(file, "batch");
+        job.restored++;
+        return true;
+      }
+
+      const settings = this.batchSettingsFor(job, file, notes);
+      if (!settings) {
+        job.overrideSkipped++;
+        return true;
+      }
+
+      const data = await this.app.vault.readBinary(file);
+
+      if (job.format) {
+        if (isSameType(getSourceFormat(getExtension(file.name)), job.format)) {
+          job.skipped++;
+          return true;
+        }
+      } else if (settings.resizeMode === "display") {
+        const size = await this.setDisplayWidth(file, data, settings, null);
+        if (size) {
+          this.logDisplayWidth(file, "batch", data, size);
+          job.displaySized++;
         } else {
-          await this.app.vault.modifyBinary(file, result.data);
+          job.skipped++;
         }
+        return true;
+      }
 
-        resizedCount++;
+      const edit = job.format ? { format: job.format } : null;
+      const result = await this.pool.resize(data, file.name, settings, edit);
 
-        // Stagger to avoid overwhelming the vault
-        await sleep(100);
-      } catch (err) {
-        console.error(`[Image Resizer] Batch error on ${file.path}:`, err);
-        errorCount++;
-      } finally {
-        setTimeout(() => {
-          this.processing.delete(file.path);
-        }, 1000);
+      if (!result) {
+        job.skipped++;
+        return true;
       }
+
+      this.processing.add(file.path);
+      await this.writeResized(file, data, result);
+      this.logHistory(
+        resultEntry(file.path, "batch", originalPath, data, result, edit ? "convert" : undefined)
+      );
+      if (edit) job.converted++;
+      else if (result.optimized) job.optimized++;
+      else job.resized++;
+      job.bytesSaved += Math.max(0, data.byteLength - result.data.byteLength);
+      return true;
+    } catch (err) {
+      // Unloading stops the pool, which fails the images in flight. The
+      // next launch resumes the run and does them again
+      if (this.batchStop === "pause") return false;
+
+      console.error(`[Image Resizer] Batch error on ${file.path}:`, err);
+      job.failed.push({ path: file.path, error: describeError(err) });
+      this.logHistory(failureEntry(file.path, "batch", job.action, err));
+      return true;
+    } finally {
+      setTimeout(() => {
+        this.processing.delete(originalPath);
+        this.processing.delete(file.path);
+      }, 1000);
     }
+  }
 
-    new Notice(
-      `Image Resizer: ${resizedCount} resized, ${skippedCount} already within limits` +
-        (errorCount > 0 ? `, ${errorCount} errors` : ""),
-      6000
-    );
+  /**
+   * Report the results of a completed run. The job is kept only if
+   * something failed, so the failures can be looked at again later.
+   */
+  private finishBatch(job: BatchJob) {
+    new Notice(`Image Resizer: ${summarizeJob(job)}`, 6000);
+
+    if (job.failed.length > 0) {
+      this.job = { ...job, queue: [] };
+      new BatchFailuresModal(this.app, job.failed).open();
+    } else {
+      this.job = null;
+    }
   }
-}
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * Stop the running batch after the image it is on. Remaining images
+   * are left alone and the job is discarded.
+   */
+  private cancelBatch() {
+    if (!this.batchRunning) return;
+    this.batchStop = "cancel";
+    new Notice("Cancelling batch resize…");
+  }
 }
@@ -0,0 +1,780 @@
+import type { EncodeFormat } from "./formats";
+
+/**
+ * What happens to EXIF and colour profile data when an image is re-encoded.
+ * - `strip`: drop everything (the canvas writes no metadata)
+ * - `strip-location`: copy EXIF and the ICC profile back, minus GPS data
+ * - `keep`: copy EXIF (including capture date and GPS) and the ICC profile back
+ */
+export type MetadataPolicy = "strip" | "strip-location" | "keep";
+
+/**
+ * Metadata read from the original file before decoding.
+ */
+export interface ImageMetadata {
+  /** EXIF orientation, 1–8 (1 when absent). */
+  orientation: number;
+  /** Byte offset of the orientation value in the original buffer. */
+  orientationOffset: number | null;
+  /** Byte order of the EXIF block. */
+  littleEndian: boolean;
+  /** Raw EXIF data, starting at the TIFF header. */
+  exif: Uint8Array | null;
+  /** Raw (uncompressed) ICC profile. */
+  icc: Uint8Array | null;
+  /** True if the EXIF data has GPS entries. */
+  hasLocation: boolean;
+  /** EXIF DateTimeOriginal, e.g. "2024:05:01 12:34:56". */
+  captureDate: string | null;
+}
+
+/**
+ * Metadata prepared for one output format, ready to embed in every encode.
+ */
+export interface MetadataPayload {
+  exif: Uint8Array | null;
+  icc: Uint8Array | null;
+  /** zlib-compressed ICC profile, only for PNG output. */
+  iccDeflated: Uint8Array | null;
+}
+
+/**
+ * What happened to the metadata, for the resize notice.
+ */
+export interface MetadataOutcome {
+  /** EXIF orientation that was applied to the pixels. */
+  orientation: number;
+  /** True if EXIF/ICC data was copied into the output. */
+  copied: boolean;
+  /** True if the original had GPS data and the output doesn't. */
+  locationRemoved: boolean;
+  /** True if the original capture date is in the output. */
+  captureDateKept: boolean;
+}
+
+const EMPTY_METADATA: ImageMetadata = {
+  orientation: 1,
+  orientationOffset: null,
+  littleEndian: false,
+  exif: null,
+  icc: null,
+  hasLocation: false,
+  captureDate: null,
+};
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+/** Byte size of each TIFF field type, indexed by type id. */
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+/** JPEG APP segments can hold at most this many bytes of payload. */
+const MAX_SEGMENT_PAYLOAD = 65533;
+const ICC_JPEG_HEADER = "ICC_PROFILE\0";
+const EXIF_JPEG_HEADER = "Exif\0\0";
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  let out = "";
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    out += String.fromCharCode(bytes[i] ?? 0);
+  }
+  return out;
+}
+
+function asciiBytes(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    out[i] = text.charCodeAt(i) & 0xff;
+  }
+  return out;
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const piped = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/**
+ * Compress `data` as a zlib stream, as used by PNG.
+ */
+export function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new CompressionStream("deflate"));
+}
+
+/**
+ * Decompress a zlib stream.
+ */
+export function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream("deflate"));
+}
+
+interface TiffInfo {
+  littleEndian: boolean;
+  orientation: number;
+  /** Offset of the orientation value within the TIFF block. */
+  orientationOffset: number | null;
+  gpsIfdOffset: number | null;
+  captureDate: string | null;
+}
+
+/**
+ * Walk an IFD, calling `visit` with each entry's tag and offset. Returns
+ * false if the IFD is out of bounds.
+ */
+function walkIfd(
+  view: DataView,
+  ifdOffset: number,
+  le: boolean,
+  visit: (tag: number, entryOffset: number) => void
+): boolean {
+  if (ifdOffset + 2 > view.byteLength) return false;
+  const count = view.getUint16(ifdOffset, le);
+  if (ifdOffset + 2 + count * 12 > view.byteLength) return false;
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    visit(view.getUint16(entry, le), entry);
+  }
+  return true;
+}
+
+function parseTiff(tiff: Uint8Array): TiffInfo | null {
+  if (tiff.length < 8) return null;
+
+  const order = ascii(tiff, 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+  const le = order === "II";
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  if (view.getUint16(2, le) !== 42) return null;
+
+  const info: TiffInfo = {
+    littleEndian: le,
+    orientation: 1,
+    orientationOffset: null,
+    gpsIfdOffset: null,
+    captureDate: null,
+  };
+  let exifIfdOffset: number | null = null;
+
+  walkIfd(view, view.getUint32(4, le), le, (tag, entry) => {
+    if (tag === TAG_ORIENTATION) {
+      const value = view.getUint16(entry + 8, le);
+      if (value >= 1 && value <= 8) {
+        info.orientation = value;
+        info.orientationOffset = entry + 8;
+      }
+    } else if (tag === TAG_GPS_IFD) {
+      info.gpsIfdOffset = view.getUint32(entry + 8, le);
+    } else if (tag === TAG_EXIF_IFD) {
+      exifIfdOffset = view.getUint32(entry + 8, le);
+    }
+  });
+
+  if (exifIfdOffset !== null) {
+    walkIfd(view, exifIfdOffset, le, (tag, entry) => {
+      if (tag !== TAG_DATE_TIME_ORIGINAL) return;
+      const count = view.getUint32(entry + 4, le);
+      const offset = count > 4 ? view.getUint32(entry + 8, le) : entry + 8;
+      if (offset + count <= tiff.length) {
+        info.captureDate = ascii(tiff, offset, count).replace(/\0+$/, "") || null;
+      }
+    });
+  }
+
+  return info;
+}
+
+/**
+ * Return a copy of a TIFF block with orientation reset to 1 and,
+ * optionally, every GPS value zeroed and the GPS IFD emptied. The GPS
+ * pointer is left in place (pointing at an empty IFD) so no other offsets
+ * have to move.
+ */
+function rewriteTiff(tiff: Uint8Array, stripGps: boolean): Uint8Array {
+  const copy = tiff.slice();
+  const info = parseTiff(copy);
+  if (!info) return copy;
+
+  const le = info.littleEndian;
+  const view = new DataView(copy.buffer, copy.byteOffset, copy.byteLength);
+
+  if (info.orientationOffset !== null) {
+    view.setUint16(info.orientationOffset, 1, le);
+  }
+
+  if (stripGps && info.gpsIfdOffset !== null) {
+    const gps = info.gpsIfdOffset;
+    const ok = walkIfd(view, gps, le, (_tag, entry) => {
+      const type = view.getUint16(entry + 2, le);
+      const count = view.getUint32(entry + 4, le);
+      const size = (TIFF_TYPE_SIZES[type] ?? 1) * count;
+      if (size > 4) {
+        const offset = view.getUint32(entry + 8, le);
+        if (offset + size <= copy.length) {
+          copy.fill(0, offset, offset + size);
+        }
+      }
+      copy.fill(0, entry, entry + 12);
+    });
+    if (ok) {
+      view.setUint16(gps, 0, le);
+    }
+  }
+
+  return copy;
+}
+
+function withTiff(meta: ImageMetadata, tiff: Uint8Array, tiffStart: number) {
+  const info = parseTiff(tiff);
+  if (!info) return;
+
+  meta.exif = tiff;
+  meta.littleEndian = info.littleEndian;
+  meta.orientation = info.orientation;
+  meta.orientationOffset =
+    info.orientationOffset !== null ? tiffStart + info.orientationOffset : null;
+  meta.hasLocation = hasGpsEntries(tiff);
+  meta.captureDate = info.captureDate;
+}
+
+function readJpeg(bytes: Uint8Array, meta: ImageMetadata) {
+  const iccChunks: Uint8Array[] = [];
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) break;
+    const marker = bytes[pos + 1] ?? 0;
+
+    // Padding, or markers without a length
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      pos += 2;
+      continue;
+    }
+    // Start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = ((bytes[pos + 2] ?? 0) << 8) | (bytes[pos + 3] ?? 0);
+    const start = pos + 4;
+    const end = pos + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    if (marker === 0xe1 && !meta.exif && ascii(bytes, start, 6) === EXIF_JPEG_HEADER) {
+      withTiff(meta, bytes.slice(start + 6, end), start + 6);
+    } else if (marker === 0xe2 && ascii(bytes, start, 12) === ICC_JPEG_HEADER) {
+      const seq = bytes[start + 12] ?? 1;
+      iccChunks[seq - 1] = bytes.slice(start + 14, end);
+    }
+
+    pos = end;
+  }
+
+  if (iccChunks.length > 0 && iccChunks.every((c) => c !== undefined)) {
+    meta.icc = concat(iccChunks);
+  }
+}
+
+async function readPng(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 8;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(bytes, pos + 4, 4);
+    const start = pos + 8;
+    const end = start + length;
+    if (end + 4 > bytes.length) break;
+
+    if (type === "eXIf" && !meta.exif) {
+      withTiff(meta, bytes.slice(start, end), start);
+    } else if (type === "iCCP" && !meta.icc) {
+      // Profile name, null separator, compression method, zlib data
+      const nul = bytes.indexOf(0, start);
+      if (nul > start && nul + 2 <= end) {
+        try {
+          meta.icc = await inflate(bytes.slice(nul + 2, end));
+        } catch {
+          // Ignore a corrupt profile
+        }
+      }
+    } else if (type === "IEND") {
+      break;
+    }
+
+    pos = end + 4;
+  }
+}
+
+function readWebp(bytes: Uint8Array, meta: ImageMetadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 12;
+
+  while (pos + 8 <= bytes.length) {
+    const type = ascii(bytes, pos, 4);
+    const size = view.getUint32(pos + 4, true);
+    const start = pos + 8;
+    const end = start + size;
+    if (end > bytes.length) break;
+
+    if (type === "EXIF" && !meta.exif) {
+      // Some writers keep the JPEG-style "Exif\0\0" prefix
+      const skip = ascii(bytes, start, 6) === EXIF_JPEG_HEADER ? 6 : 0;
+      withTiff(meta, bytes.slice(start + skip, end), start + skip);
+    } else if (type === "ICCP" && !meta.icc) {
+      meta.icc = bytes.slice(start, end);
+    }
+
+    pos = end + (size % 2);
+  }
+}
+
+/**
+ * Read EXIF orientation, EXIF data and the ICC profile from JPEG, PNG or
+ * WebP bytes. Anything unreadable is treated as absent.
+ */
+export async function readMetadata(data: ArrayBuffer): Promise<ImageMetadata> {
+  const bytes = new Uint8Array(data);
+  const meta: ImageMetadata = { ...EMPTY_METADATA };
+
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      readJpeg(bytes, meta);
+    } else if (ascii(bytes, 1, 3) === "PNG") {
+      await readPng(bytes, meta);
+    } else if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+      readWebp(bytes, meta);
+    }
+  } catch (err) {
+    console.warn("[Image Resizer] Could not read image metadata:", err);
+  }
+
+  return meta;
+}
+
+/**
+ * Return a copy of `data` with the EXIF orientation set to 1, so every
+ * runtime decodes the stored pixels as-is and the plugin can apply the
+ * rotation itself.
+ */
+export function withoutOrientation(
+  data: ArrayBuffer,
+  meta: ImageMetadata
+): ArrayBuffer {
+  if (meta.orientation === 1 || meta.orientationOffset === null) return data;
+
+  const copy = data.slice(0);
+  new DataView(copy).setUint16(meta.orientationOffset, 1, meta.littleEndian);
+  return copy;
+}
+
+/**
+ * Width and height after applying an EXIF orientation.
+ */
+export function orientedSize(
+  width: number,
+  height: number,
+  orientation: number
+): { width: number; height: number } {
+  return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Axis to mirror an image along: `horizontal` swaps left and right,
+ * `vertical` top and bottom.
+ */
+export type FlipAxis = "horizontal" | "vertical";
+
+/**
+ * Each EXIF orientation as whether to mirror left to right first, then
+ * how many quarter turns clockwise.
+ */
+const ORIENTATION_STEPS: [boolean, number][] = [
+  [false, 0],
+  [true, 0],
+  [false, 2],
+  [true, 2],
+  [true, 3],
+  [false, 1],
+  [true, 1],
+  [false, 3],
+];
+
+/**
+ * The EXIF orientation that shows an image as `orientation` does, then
+ * turned `turns` quarter turns clockwise and mirrored along `flip`.
+ */
+export function transformOrientation(
+  orientation: number,
+  turns: number,
+  flip: FlipAxis | null
+): number {
+  let [mirrored, rotation] = ORIENTATION_STEPS[orientation - 1] ?? [false, 0];
+  rotation += turns;
+
+  // Mirroring after a rotation is the same as mirroring first and
+  // rotating the other way
+  if (flip) {
+    mirrored = !mirrored;
+    rotation = (flip === "vertical" ? 2 : 0) - rotation;
+  }
+
+  rotation = ((rotation % 4) + 4) % 4;
+  const index = ORIENTATION_STEPS.findIndex(([m, r]) => m === mirrored && r === rotation);
+  return index + 1;
+}
+
+/**
+ * Set up `ctx` so drawing an unrotated image of `width`×`height` at the
+ * origin produces the image in its EXIF orientation.
+ */
+export function applyOrientation(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+) {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+}
+
+/**
+ * Prepare the metadata to copy into re-encoded `format` output under
+ * `policy`. Returns null if nothing is to be copied.
+ */
+export async function prepareMetadata(
+  meta: ImageMetadata,
+  policy: MetadataPolicy,
+  format: EncodeFormat
+): Promise<MetadataPayload | null> {
+  // AVIF keeps metadata in ISO-BMFF boxes, which aren't supported, and
+  // GIF has nowhere to put it
+  if (policy === "strip" || format === "avif" || format === "gif") return null;
+  if (!meta.exif && !meta.icc) return null;
+
+  let exif: Uint8Array | null = null;
+  if (meta.exif) {
+    try {
+      exif = rewriteTiff(meta.exif, policy === "strip-location");
+    } catch (err) {
+      // A malformed block could still hold GPS data, so drop it entirely
+      console.warn("[Image Resizer] Could not rewrite EXIF data:", err);
+    }
+  }
+  let iccDeflated: Uint8Array | null = null;
+  if (meta.icc && format === "png") {
+    iccDeflated = await deflate(meta.icc);
+  }
+
+  return { exif, icc: meta.icc, iccDeflated };
+}
+
+/**
+ * True if a TIFF block still has GPS entries.
+ */
+function hasGpsEntries(tiff: Uint8Array | null): boolean {
+  if (!tiff) return false;
+  const info = parseTiff(tiff);
+  if (!info || info.gpsIfdOffset === null) return false;
+  if (info.gpsIfdOffset + 2 > tiff.length) return false;
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  return view.getUint16(info.gpsIfdOffset, info.littleEndian) > 0;
+}
+
+/**
+ * Describe what happened to the metadata of an image.
+ */
+export function metadataOutcome(
+  meta: ImageMetadata,
+  payload: MetadataPayload | null
+): MetadataOutcome {
+  const exif = payload?.exif ?? null;
+  return {
+    orientation: meta.orientation,
+    copied: payload !== null,
+    locationRemoved: meta.hasLocation && !hasGpsEntries(exif),
+    captureDateKept: exif !== null && meta.captureDate !== null,
+  };
+}
+
+/**
+ * One-line summary of a metadata outcome for the resize notice, or null
+ * if there's nothing worth mentioning.
+ */
+export function describeMetadata(outcome: MetadataOutcome): string | null {
+  const parts: string[] = [];
+  if (outcome.orientation !== 1) parts.push("Rotated to EXIF orientation");
+  if (outcome.locationRemoved) parts.push("Location data removed");
+  if (outcome.captureDateKept) parts.push("Capture date kept");
+  else if (outcome.copied) parts.push("Colour profile kept");
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  return concat([
+    new Uint8Array([0xff, marker, (length >> 8) & 0xff, length & 0xff]),
+    payload,
+  ]);
+}
+
+function embedJpeg(bytes: Uint8Array, payload: MetadataPayload): Uint8Array {
+  const segments: Uint8Array[] = [];
+
+  if (payload.exif) {
+    const body = concat([asciiBytes(EXIF_JPEG_HEADER), payload.exif]);
+    if (body.length <= MAX_SEGMENT_PAYLOAD) {
+      segments.push(jpegSegment(0xe1, body));
+    }
+  }
+
+  if (payload.icc) {
+    const chunkSize = MAX_SEGMENT_PAYLOAD - ICC_JPEG_HEADER.length - 2;
+    const total = Math.ceil(payload.icc.length / chunkSize);
+    if (total <= 255) {
+      for (let i = 0; i < total; i++) {
+        const chunk = payload.icc.subarray(i * chunkSize, (i + 1) * chunkSize);
+        segments.push(
+          jpegSegment(
+            0xe2,
+            concat([asciiBytes(ICC_JPEG_HEADER), new Uint8Array([i + 1, total]), chunk])
+          )
+        );
+      }
+    }
+  }
+
+  // Insert after SOI, and after the JFIF APP0 segment if the encoder wrote one
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + (((bytes[4] ?? 0) << 8) | (bytes[5] ?? 0));
+  }
+
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crcTable[(crc ^ (data[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concat([asciiBytes(type), data]);
+  const out = new Uint8Array(body.length + 8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return out;
+}
+
+function embedPng(bytes: Uint8Array, payload: MetadataPayload): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let pos = 8;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(bytes, pos + 4, 4);
+    const end = pos + 12 + length;
+    if (end > bytes.length) break;
+
+    // An embedded profile replaces any colour-space chunks the encoder wrote
+    const replaced =
+      (payload.iccDeflated && (type === "iCCP" || type === "sRGB")) ||
+      (payload.exif && type === "eXIf");
+    if (!replaced) {
+      parts.push(bytes.subarray(pos, end));
+    }
+
+    if (type === "IHDR") {
+      if (payload.iccDeflated) {
+        parts.push(
+          pngChunk("iCCP", concat([asciiBytes("ICC profile\0"), new Uint8Array([0]), payload.iccDeflated]))
+        );
+      }
+      if (payload.exif) {
+        parts.push(pngChunk("eXIf", payload.exif));
+      }
+    }
+
+    pos = end;
+  }
+
+  parts.push(bytes.subarray(pos));
+  return concat(parts);
+}
+
+export function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length % 2;
+  const out = new Uint8Array(8 + data.length + padded);
+  out.set(asciiBytes(type), 0);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+/**
+ * Split a WebP into its image chunks, leaving out VP8X, ICCP and EXIF,
+ * and work out the VP8X alpha and animation flags they need.
+ */
+export function webpImageChunks(bytes: Uint8Array): { chunks: Uint8Array[]; flags: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const imageChunks: Uint8Array[] = [];
+  let flags = 0;
+  let pos = 12;
+
+  while (pos + 8 <= bytes.length) {
+    const type = ascii(bytes, pos, 4);
+    const size = view.getUint32(pos + 4, true);
+    const end = pos + 8 + size + (size % 2);
+    if (pos + 8 + size > bytes.length) break;
+
+    if (type === "VP8X") {
+      // Keep the encoder's alpha/animation flags
+      flags |= (bytes[pos + 8] ?? 0) & 0x12;
+    } else if (type === "ALPH") {
+      flags |= 0x10;
+      imageChunks.push(bytes.subarray(pos, end));
+    } else if (type === "VP8L") {
+      // Bit 28 of the VP8L header is alpha_is_used
+      if (pos + 13 <= bytes.length && (view.getUint32(pos + 9, true) >>> 28) & 1) {
+        flags |= 0x10;
+      }
+      imageChunks.push(bytes.subarray(pos, end));
+    } else if (type !== "ICCP" && type !== "EXIF") {
+      imageChunks.push(bytes.subarray(pos, end));
+    }
+
+    pos = end;
+  }
+
+  return { chunks: imageChunks, flags };
+}
+
+/**
+ * Wrap chunks in a RIFF WEBP header.
+ */
+export function webpFile(chunks: Uint8Array[]): Uint8Array {
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  header.set(asciiBytes("RIFF"), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(asciiBytes("WEBP"), 8);
+  return concat([header, body]);
+}
+
+function embedWebp(
+  bytes: Uint8Array,
+  payload: MetadataPayload,
+  width: number,
+  height: number
+): Uint8Array {
+  const { chunks: imageChunks, flags: imageFlags } = webpImageChunks(bytes);
+  let flags = imageFlags;
+
+  if (payload.icc) flags |= 0x20;
+  if (payload.exif) flags |= 0x08;
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flags;
+  const w = width - 1;
+  const h = height - 1;
+  vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff], 4);
+  vp8x.set([h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 7);
+
+  return webpFile([
+    riffChunk("VP8X", vp8x),
+    ...(payload.icc ? [riffChunk("ICCP", payload.icc)] : []),
+    ...imageChunks,
+    ...(payload.exif ? [riffChunk("EXIF", payload.exif)] : []),
+  ]);
+}
+
+/**
+ * Copy prepared metadata into freshly encoded image bytes. Formats without
+ * support (or a null payload) come back unchanged.
+ */
+export function embedMetadata(
+  data: Uint8Array,
+  format: EncodeFormat,
+  payload: MetadataPayload | null,
+  width: number,
+  height: number
+): Uint8Array {
+  if (!payload) return data;
+
+  try {
+    switch (format) {
+      case "jpeg":
+        return embedJpeg(data, payload);
+      case "png":
+        return embedPng(data, payload);
+      case "webp":
+        return embedWebp(data, payload, width, height);
+      case "avif":
+      case "gif":
+        return data;
+    }
+  } catch (err) {
+    console.warn("[Image Resizer] Could not embed image metadata:", err);
+    return data;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * `import source from "./file?worker"` bundles `file.ts` as a standalone
+ * script and imports its code as a string (see esbuild.config.mjs).
+ */
+declare module "*?worker" {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,82 @@
+import { App, normalizePath } from "obsidian";
+import { contentHash } from "./duplicates";
+
+/**
+ * Obsidian's own name for pasted images.
+ */
+export const DEFAULT_NAME_TEMPLATE = "Pasted image {{date}}";
+
+/**
+ * Format of `{{date}}` without an explicit one, as in Obsidian's pasted
+ * image names.
+ */
+const DEFAULT_DATE_FORMAT = "YYYYMMDDHHmmss";
+
+/**
+ * Characters that aren't allowed in file names on some platforms, or that
+ * break wikilinks.
+ */
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * What a file-name template's tokens are filled in from.
+ */
+export interface NameContext {
+  /** Base name of the note the image is for, if any. */
+  note: string | null;
+  /** The image's bytes, for `{{hash}}`. */
+  data: ArrayBuffer;
+}
+
+function formatDate(format: string): string {
+  return window.moment ? window.moment().format(format) : Date.now().toString();
+}
+
+/**
+ * Fill in `template` to get a file name without its extension. Tokens:
+ * `{{note}}`, `{{date}}` or `{{date:FORMAT}}` (a Moment.js format),
+ * `{{hash}}` and `{{n}}`, a counter that is `n`. Characters that can't be
+ * in a file name become dashes.
+ */
+export function renderNameTemplate(
+  template: string,
+  context: NameContext,
+  hash: string,
+  n: number
+): string {
+  const name = template
+    .replace(/\{\{note\}\}/g, context.note ?? "Untitled")
+    .replace(/\{\{date(?::([^}]+))?\}\}/g, (_match, format?: string) =>
+      formatDate(format ?? DEFAULT_DATE_FORMAT)
+    )
+    .replace(/\{\{hash\}\}/g, hash)
+    .replace(/\{\{n\}\}/g, String(n))
+    .replace(UNSAFE_CHARACTERS, "-")
+    .trim();
+  return name || "image";
+}
+
+/**
+ * A path in `folder` for an image named by `template` that no file uses
+ * yet. `{{n}}` counts up from 1 until the name is free; templates without
+ * it get " 1", " 2" and so on appended instead, like Obsidian does.
+ * `current` is treated as free, so a file can keep its own name.
+ */
+export async function availableImagePath(
+  app: App,
+  folder: string,
+  template: string,
+  context: NameContext,
+  extension: string,
+  current: string | null = null
+): Promise<string> {
+  const hash = template.includes("{{hash}}") ? (await contentHash(context.data)).slice(0, 8) : "";
+  const counted = template.includes("{{n}}");
+
+  for (let n = 1; ; n++) {
+    const base = renderNameTemplate(template, context, hash, n);
+    const name = counted || n === 1 ? base : `${base} ${n - 1}`;
+    const path = normalizePath(folder ? `${folder}/${name}.${extension}` : `${name}.${extension}`);
+    if (path === current || !app.vault.getAbstractFileByPath(path)) return path;
+  }
+}
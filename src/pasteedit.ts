@@ -0,0 +1,307 @@
+import { App, ButtonComponent, Modal, Setting, SliderComponent } from "obsidian";
+import type { ImageResizerSettings } from "./settings";
+import type { CropRect } from "./codec";
+import type { ImageEdit, ResizeResult } from "./resizer";
+import { CONVERT_FORMATS, SIZE_PRESETS, configuredQuality } from "./actions";
+import { ENCODE_FORMAT_LABELS, EncodeFormat, canEncode } from "./formats";
+import { resolveOutputFormat } from "./resizer";
+import { formatBytes } from "./preview";
+import { describeError } from "./batch";
+
+/**
+ * How long to wait after the last change before encoding a new preview,
+ * in milliseconds.
+ */
+const PREVIEW_DELAY_MS = 300;
+
+/**
+ * Drags shorter than this, in screen pixels, are clicks that clear the crop.
+ */
+const MIN_DRAG_PX = 4;
+
+/**
+ * What to paste: the edited image, or a null result to paste the
+ * clipboard image as it is.
+ */
+export interface PasteChoice {
+  result: ResizeResult | null;
+}
+
+/**
+ * Shows a pasted image before it is saved, and lets the user crop it,
+ * pick its size, format and quality, and see how big the file will be.
+ */
+export class PasteEditModal extends Modal {
+  private resolve: ((choice: PasteChoice | null) => void) | null = null;
+  private url: string;
+  private crop: CropRect | null = null;
+  /** "limits", "original", "custom", or the index of a size preset. */
+  private size = "limits";
+  private customWidth = 0;
+  private format: EncodeFormat | null = null;
+  private quality: number;
+  /** Outcome of the latest preview, once it is done. */
+  private choice: PasteChoice | null = null;
+  private generation = 0;
+  private timer: number | null = null;
+  private imageEl: HTMLImageElement | null = null;
+  private cropEl: HTMLElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private qualitySlider: SliderComponent | null = null;
+  private pasteButton: ButtonComponent | null = null;
+
+  constructor(
+    app: App,
+    private blob: Blob,
+    private filename: string,
+    private settings: ImageResizerSettings,
+    private resize: (edit: ImageEdit) => Promise<ResizeResult | null>
+  ) {
+    super(app);
+    this.url = URL.createObjectURL(blob);
+    this.quality = configuredQuality(resolveOutputFormat(this.extension, settings), settings);
+  }
+
+  private get extension(): string {
+    return this.filename.split(".").pop() ?? "";
+  }
+
+  /**
+   * Open the modal and resolve with what to paste, or null if it was
+   * cancelled.
+   */
+  choose(): Promise<PasteChoice | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Paste image");
+    this.modalEl.addClass("image-resizer-paste-modal");
+
+    contentEl.createEl("p", {
+      text: "Drag over the image to crop it. Click it to clear the crop.",
+      cls: "setting-item-description",
+    });
+
+    const stage = contentEl.createDiv({ cls: "image-resizer-crop" });
+    this.imageEl = stage.createEl("img", { attr: { src: this.url, draggable: "false" } });
+    this.cropEl = stage.createDiv({ cls: "image-resizer-crop-box" });
+    this.imageEl.addEventListener("error", () => {
+      stage.setText("This image can't be previewed, but it can still be resized.");
+      this.imageEl = null;
+    });
+    this.registerCropDrag(stage);
+    this.renderCrop();
+
+    const { maxWidth, maxHeight } = this.settings;
+    new Setting(contentEl)
+      .setName("Size")
+      .addDropdown((dropdown) => {
+        dropdown.addOption(
+          "limits",
+          `Fit the limits (${maxWidth > 0 ? maxWidth : "any"}×${maxHeight > 0 ? maxHeight : "any"})`
+        );
+        dropdown.addOption("original", "Original size");
+        SIZE_PRESETS.forEach((preset, i) => {
+          dropdown.addOption(String(i), preset.label);
+        });
+        dropdown.addOption("custom", "Custom width");
+        dropdown.setValue(this.size).onChange((value) => {
+          this.size = value;
+          this.schedulePreview();
+        });
+      })
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.addClass("image-resizer-paste-width");
+        text.setPlaceholder("Width (px)").onChange((value) => {
+          this.customWidth = parseInt(value) || 0;
+          if (this.size === "custom") this.schedulePreview();
+        });
+      });
+
+    new Setting(contentEl).setName("Format").addDropdown((dropdown) => {
+      const configured = resolveOutputFormat(this.extension, this.settings);
+      dropdown.addOption("", `As configured (${ENCODE_FORMAT_LABELS[configured]})`);
+      for (const format of CONVERT_FORMATS.filter(canEncode)) {
+        dropdown.addOption(format, ENCODE_FORMAT_LABELS[format]);
+      }
+      dropdown.onChange((value) => {
+        this.format = value ? (value as EncodeFormat) : null;
+        this.quality = configuredQuality(this.format ?? configured, this.settings);
+        this.qualitySlider?.setValue(this.quality).setDisabled(this.format === "png");
+        this.schedulePreview();
+      });
+    });
+
+    new Setting(contentEl)
+      .setName("Quality")
+      .setDesc("Used for JPEG, WebP and AVIF. PNGs are lossless.")
+      .addSlider((slider) => {
+        this.qualitySlider = slider;
+        slider
+          .setLimits(1, 100, 1)
+          .setValue(this.quality)
+          .setDynamicTooltip()
+          .onChange((value) => {
+            this.quality = value;
+            this.schedulePreview();
+          });
+      });
+
+    this.statusEl = contentEl.createEl("p", { cls: "setting-item-description" });
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        this.pasteButton = button;
+        button
+          .setButtonText("Paste")
+          .setCta()
+          .onClick(() => this.finish(this.choice));
+      })
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      );
+
+    this.schedulePreview();
+  }
+
+  onClose() {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    URL.revokeObjectURL(this.url);
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  /**
+   * The edit the current choices add up to.
+   */
+  private currentEdit(): ImageEdit {
+    const edit: ImageEdit = { quality: this.quality };
+    if (this.crop) edit.crop = this.crop;
+    if (this.format) edit.format = this.format;
+
+    if (this.size === "limits") {
+      edit.fit = { width: this.settings.maxWidth, height: this.settings.maxHeight };
+    } else if (this.size === "custom") {
+      if (this.customWidth > 0) edit.fit = { width: this.customWidth, height: 0 };
+    } else if (this.size !== "original") {
+      Object.assign(edit, SIZE_PRESETS[Number(this.size)]?.value);
+    }
+    return edit;
+  }
+
+  /**
+   * Encode the image with the current choices once they stop changing,
+   * and show the outcome. Results for choices since changed are dropped.
+   */
+  private schedulePreview() {
+    const generation = ++this.generation;
+    this.choice = null;
+    this.pasteButton?.setDisabled(true);
+    this.statusEl?.setText("Encoding…");
+
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.resize(this.currentEdit()).then(
+        (result) => {
+          if (generation !== this.generation) return;
+          this.choice = { result };
+          this.pasteButton?.setDisabled(false);
+          this.statusEl?.setText(
+            result
+              ? `${result.width}×${result.height} ${ENCODE_FORMAT_LABELS[result.format]} · ` +
+                  `${formatBytes(result.data.byteLength)} (clipboard: ${formatBytes(this.blob.size)})`
+              : `Nothing to change, so the image is pasted as it is (${formatBytes(this.blob.size)}).`
+          );
+        },
+        (err) => {
+          if (generation !== this.generation) return;
+          this.statusEl?.setText(`Can't encode the image: ${describeError(err)}`);
+        }
+      );
+    }, PREVIEW_DELAY_MS);
+  }
+
+  /**
+   * Let the user drag a crop box over the image on `stage`.
+   */
+  private registerCropDrag(stage: HTMLElement) {
+    let start: { x: number; y: number; clientX: number; clientY: number } | null = null;
+
+    stage.addEventListener("pointerdown", (evt) => {
+      const point = this.toImagePoint(evt);
+      if (!point) return;
+      start = { ...point, clientX: evt.clientX, clientY: evt.clientY };
+      stage.setPointerCapture(evt.pointerId);
+      evt.preventDefault();
+    });
+
+    stage.addEventListener("pointermove", (evt) => {
+      const point = start ? this.toImagePoint(evt) : null;
+      if (!start || !point) return;
+      this.crop = {
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.max(1, Math.abs(point.x - start.x)),
+        height: Math.max(1, Math.abs(point.y - start.y)),
+      };
+      this.renderCrop();
+    });
+
+    stage.addEventListener("pointerup", (evt) => {
+      if (!start) return;
+      const dragged = Math.max(
+        Math.abs(evt.clientX - start.clientX),
+        Math.abs(evt.clientY - start.clientY)
+      );
+      start = null;
+      if (dragged < MIN_DRAG_PX) this.crop = null;
+      this.renderCrop();
+      this.schedulePreview();
+    });
+  }
+
+  /**
+   * Where a pointer event is on the image, in the image's own pixels and
+   * kept inside it.
+   */
+  private toImagePoint(evt: PointerEvent): { x: number; y: number } | null {
+    const img = this.imageEl;
+    if (!img || !img.naturalWidth) return null;
+
+    const rect = img.getBoundingClientRect();
+    const fx = Math.min(1, Math.max(0, (evt.clientX - rect.left) / rect.width));
+    const fy = Math.min(1, Math.max(0, (evt.clientY - rect.top) / rect.height));
+    return { x: Math.round(fx * img.naturalWidth), y: Math.round(fy * img.naturalHeight) };
+  }
+
+  private renderCrop() {
+    const img = this.imageEl;
+    const box = this.cropEl;
+    if (!box) return;
+
+    box.toggleClass("is-hidden", !this.crop || !img);
+    if (!this.crop || !img) return;
+
+    const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+    box.setCssProps({
+      "--crop-left": percent(this.crop.x, img.naturalWidth),
+      "--crop-top": percent(this.crop.y, img.naturalHeight),
+      "--crop-width": percent(this.crop.width, img.naturalWidth),
+      "--crop-height": percent(this.crop.height, img.naturalHeight),
+    });
+  }
+
+  private finish(choice: PasteChoice | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(choice);
+    if (choice) this.close();
+  }
+}
@@ -0,0 +1,43 @@
+import type { ImageResizerSettings } from "./settings";
+import { sampleImage } from "./resizer";
+
+/**
+ * Size the image is drawn at for its perceptual hash: one column more
+ * than there are bits per row, as each bit compares neighbours.
+ */
+const SAMPLE_WIDTH = 9;
+const SAMPLE_HEIGHT = 8;
+
+/**
+ * Difference hash of an image: whether each of 8×8 sampled pixels is
+ * darker than its right-hand neighbour. Resizing and re-encoding barely
+ * change it. Returns null if the image can't be decoded.
+ */
+export async function perceptualHash(
+  data: ArrayBuffer,
+  filename: string,
+  settings: ImageResizerSettings
+): Promise<string | null> {
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = await sampleImage(data, filename, settings, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  } catch (err) {
+    console.warn(`[Image Resizer] Could not hash ${filename}:`, err);
+    return null;
+  }
+
+  const luma = (x: number, y: number) => {
+    const i = (y * SAMPLE_WIDTH + x) * 4;
+    return 0.299 * (pixels[i] ?? 0) + 0.587 * (pixels[i + 1] ?? 0) + 0.114 * (pixels[i + 2] ?? 0);
+  };
+
+  let hex = "";
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    let row = 0;
+    for (let x = 0; x < SAMPLE_WIDTH - 1; x++) {
+      row = (row << 1) | (luma(x, y) < luma(x + 1, y) ? 1 : 0);
+    }
+    hex += row.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
@@ -0,0 +1,442 @@
+import { Raster, createRaster } from "./raster";
+import { concat, deflate, inflate, pngChunk } from "./metadata";
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const GRAY = 0;
+const RGB = 2;
+const PALETTE = 3;
+const GRAY_ALPHA = 4;
+const RGBA = 6;
+
+const CHANNELS: Record<number, number> = {
+  [GRAY]: 1,
+  [RGB]: 3,
+  [PALETTE]: 1,
+  [GRAY_ALPHA]: 2,
+  [RGBA]: 4,
+};
+
+/**
+ * Adam7 passes: x offset, y offset, x step, y step.
+ */
+const ADAM7: [number, number, number, number][] = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Undo the filter on one scanline in place, given the previous
+ * (already unfiltered) one.
+ */
+function unfilter(type: number, line: Uint8Array, prev: Uint8Array | null, bpp: number) {
+  for (let i = 0; i < line.length; i++) {
+    const a = i >= bpp ? line[i - bpp] ?? 0 : 0;
+    const b = prev ? prev[i] ?? 0 : 0;
+    const c = prev && i >= bpp ? prev[i - bpp] ?? 0 : 0;
+    const x = line[i] ?? 0;
+    switch (type) {
+      case 0:
+        break;
+      case 1:
+        line[i] = x + a;
+        break;
+      case 2:
+        line[i] = x + b;
+        break;
+      case 3:
+        line[i] = x + ((a + b) >> 1);
+        break;
+      case 4:
+        line[i] = x + paeth(a, b, c);
+        break;
+      default:
+        throw new Error(`Invalid PNG filter type ${type}`);
+    }
+  }
+}
+
+/**
+ * Decode a PNG of any standard colour type and bit depth, interlaced or
+ * not, to 8-bit RGBA. 16-bit samples are reduced to their high byte.
+ */
+export async function decodePng(data: Uint8Array): Promise<Raster> {
+  for (let i = 0; i < SIGNATURE.length; i++) {
+    if (data[i] !== SIGNATURE[i]) throw new Error("Not a PNG file");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = RGBA;
+  let interlaced = false;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= data.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...data.subarray(pos + 4, pos + 8));
+    const body = data.subarray(pos + 8, pos + 8 + length);
+
+    if (type === "IHDR") {
+      width = view.getUint32(pos + 8);
+      height = view.getUint32(pos + 12);
+      bitDepth = body[8] ?? 8;
+      colorType = body[9] ?? RGBA;
+      interlaced = body[12] === 1;
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    pos += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) {
+    throw new Error("Invalid PNG header");
+  }
+
+  const raw = await inflate(concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const out = createRaster(width, height);
+
+  // Colour key for grey and RGB images
+  let key: number[] | null = null;
+  if (transparency) {
+    const t = new DataView(transparency.buffer, transparency.byteOffset, transparency.byteLength);
+    if (colorType === GRAY && transparency.length >= 2) {
+      key = [t.getUint16(0)];
+    } else if (colorType === RGB && transparency.length >= 6) {
+      key = [t.getUint16(0), t.getUint16(2), t.getUint16(4)];
+    }
+  }
+
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (line: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return line[index] ?? 0;
+    if (bitDepth === 16) return ((line[index * 2] ?? 0) << 8) | (line[index * 2 + 1] ?? 0);
+    const bit = index * bitDepth;
+    return ((line[bit >> 3] ?? 0) >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (value: number): number =>
+    bitDepth === 16 ? value >> 8 : bitDepth === 8 ? value : Math.round((value * 255) / maxSample);
+
+  let offset = 0;
+  const passes: [number, number, number, number][] = interlaced ? ADAM7 : [[0, 0, 1, 1]];
+
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const lineBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let prev: Uint8Array | null = null;
+
+    for (let py = 0; py < passHeight; py++) {
+      if (offset + 1 + lineBytes > raw.length) {
+        throw new Error("Truncated PNG data");
+      }
+      const filter = raw[offset] ?? 0;
+      const line = raw.subarray(offset + 1, offset + 1 + lineBytes);
+      unfilter(filter, line, prev, bpp);
+      prev = line;
+      offset += 1 + lineBytes;
+
+      const y = y0 + py * dy;
+      for (let px = 0; px < passWidth; px++) {
+        const x = x0 + px * dx;
+        const o = (y * width + x) * 4;
+        let r: number;
+        let g: number;
+        let b: number;
+        let a = 255;
+
+        switch (colorType) {
+          case GRAY: {
+            const v = sample(line, px);
+            r = g = b = to8(v);
+            if (key && v === key[0]) a = 0;
+            break;
+          }
+          case RGB: {
+            const sr = sample(line, px * 3);
+            const sg = sample(line, px * 3 + 1);
+            const sb = sample(line, px * 3 + 2);
+            r = to8(sr);
+            g = to8(sg);
+            b = to8(sb);
+            if (key && sr === key[0] && sg === key[1] && sb === key[2]) a = 0;
+            break;
+          }
+          case PALETTE: {
+            const index = sample(line, px);
+            r = palette?.[index * 3] ?? 0;
+            g = palette?.[index * 3 + 1] ?? 0;
+            b = palette?.[index * 3 + 2] ?? 0;
+            a = transparency?.[index] ?? 255;
+            break;
+          }
+          case GRAY_ALPHA:
+            r = g = b = to8(sample(line, px * 2));
+            a = to8(sample(line, px * 2 + 1));
+            break;
+          default:
+            r = to8(sample(line, px * 4));
+            g = to8(sample(line, px * 4 + 1));
+            b = to8(sample(line, px * 4 + 2));
+            a = to8(sample(line, px * 4 + 3));
+        }
+
+        out.data[o] = r;
+        out.data[o + 1] = g;
+        out.data[o + 2] = b;
+        out.data[o + 3] = a;
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * How a raster is laid out as PNG samples.
+ */
+interface PngLayout {
+  colorType: number;
+  bitDepth: number;
+  palette: Uint8Array | null;
+  transparency: Uint8Array | null;
+  /** Unfiltered scanlines, without filter bytes. */
+  lines: Uint8Array[];
+  bpp: number;
+}
+
+/**
+ * Pick the smallest lossless layout for a raster: a palette when there
+ * are 256 colours or fewer (at the lowest bit depth that fits), grey when
+ * every pixel is grey, and no alpha channel when every pixel is opaque.
+ */
+function chooseLayout(raster: Raster): PngLayout {
+  const { width, height, data } = raster;
+  let opaque = true;
+  let gray = true;
+  const colors = new Map<number, number>();
+  const pixels = new Uint32Array(width * height);
+
+  for (let p = 0; p < pixels.length; p++) {
+    const r = data[p * 4] ?? 0;
+    const g = data[p * 4 + 1] ?? 0;
+    const b = data[p * 4 + 2] ?? 0;
+    const a = data[p * 4 + 3] ?? 0;
+    if (a !== 255) opaque = false;
+    if (r !== g || g !== b) gray = false;
+
+    // Fully transparent pixels all look the same, whatever their colour
+    const rgba = a === 0 ? 0 : ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+    pixels[p] = rgba;
+    if (colors.size <= 256 && !colors.has(rgba)) {
+      colors.set(rgba, colors.size);
+    }
+  }
+
+  // A grey image's palette index is no smaller than its grey level, so
+  // only use a palette for colour or translucent grey
+  const usePalette = colors.size <= 256 && !(gray && opaque);
+
+  if (usePalette) {
+    const bitDepth = colors.size <= 2 ? 1 : colors.size <= 4 ? 2 : colors.size <= 16 ? 4 : 8;
+    const palette = new Uint8Array(colors.size * 3);
+    const alphas = new Uint8Array(colors.size);
+    for (const [rgba, index] of colors) {
+      palette[index * 3] = rgba >>> 24;
+      palette[index * 3 + 1] = (rgba >>> 16) & 0xff;
+      palette[index * 3 + 2] = (rgba >>> 8) & 0xff;
+      alphas[index] = rgba & 0xff;
+    }
+    // tRNS only needs entries up to the last translucent one
+    let lastTranslucent = -1;
+    alphas.forEach((a, i) => {
+      if (a !== 255) lastTranslucent = i;
+    });
+
+    const lineBytes = Math.ceil((width * bitDepth) / 8);
+    const lines: Uint8Array[] = [];
+    for (let y = 0; y < height; y++) {
+      const line = new Uint8Array(lineBytes);
+      for (let x = 0; x < width; x++) {
+        const index = colors.get(pixels[y * width + x] ?? 0) ?? 0;
+        const bit = x * bitDepth;
+        line[bit >> 3] = (line[bit >> 3] ?? 0) | (index << (8 - bitDepth - (bit & 7)));
+      }
+      lines.push(line);
+    }
+
+    return {
+      colorType: PALETTE,
+      bitDepth,
+      palette,
+      transparency: lastTranslucent >= 0 ? alphas.slice(0, lastTranslucent + 1) : null,
+      lines,
+      bpp: 1,
+    };
+  }
+
+  const colorType = gray ? (opaque ? GRAY : GRAY_ALPHA) : opaque ? RGB : RGBA;
+  const channels = CHANNELS[colorType] ?? 4;
+  const lines: Uint8Array[] = [];
+  for (let y = 0; y < height; y++) {
+    const line = new Uint8Array(width * channels);
+    for (let x = 0; x < width; x++) {
+      const s = (y * width + x) * 4;
+      const d = x * channels;
+      if (gray) {
+        line[d] = data[s] ?? 0;
+        if (!opaque) line[d + 1] = data[s + 3] ?? 0;
+      } else {
+        line[d] = data[s] ?? 0;
+        line[d + 1] = data[s + 1] ?? 0;
+        line[d + 2] = data[s + 2] ?? 0;
+        if (!opaque) line[d + 3] = data[s + 3] ?? 0;
+      }
+    }
+    lines.push(line);
+  }
+
+  return { colorType, bitDepth: 8, palette: null, transparency: null, lines, bpp: channels };
+}
+
+/**
+ * Apply filter `type` to a scanline, writing the filter byte and the
+ * filtered bytes to `out`.
+ */
+function filterLine(
+  type: number,
+  line: Uint8Array,
+  prev: Uint8Array | null,
+  bpp: number,
+  out: Uint8Array
+) {
+  out[0] = type;
+  for (let i = 0; i < line.length; i++) {
+    const x = line[i] ?? 0;
+    const a = i >= bpp ? line[i - bpp] ?? 0 : 0;
+    const b = prev ? prev[i] ?? 0 : 0;
+    const c = prev && i >= bpp ? prev[i - bpp] ?? 0 : 0;
+    switch (type) {
+      case 0:
+        out[i + 1] = x;
+        break;
+      case 1:
+        out[i + 1] = x - a;
+        break;
+      case 2:
+        out[i + 1] = x - b;
+        break;
+      case 3:
+        out[i + 1] = x - ((a + b) >> 1);
+        break;
+      default:
+        out[i + 1] = x - paeth(a, b, c);
+    }
+  }
+}
+
+/**
+ * Filter every scanline with `strategy`: a fixed filter type 0–4, or
+ * `adaptive` to pick, per line, the filter with the smallest sum of
+ * absolute differences.
+ */
+function filterImage(layout: PngLayout, strategy: number | "adaptive"): Uint8Array {
+  const { lines, bpp } = layout;
+  const lineBytes = (lines[0]?.length ?? 0) + 1;
+  const out = new Uint8Array(lines.length * lineBytes);
+  const candidate = new Uint8Array(lineBytes);
+
+  lines.forEach((line, y) => {
+    const prev = y > 0 ? lines[y - 1] ?? null : null;
+    const target = out.subarray(y * lineBytes, (y + 1) * lineBytes);
+
+    if (strategy !== "adaptive") {
+      filterLine(strategy, line, prev, bpp, target);
+      return;
+    }
+
+    let best = Infinity;
+    for (let type = 0; type <= 4; type++) {
+      filterLine(type, line, prev, bpp, candidate);
+      let sum = 0;
+      for (let i = 1; i < lineBytes; i++) {
+        const v = candidate[i] ?? 0;
+        sum += v < 128 ? v : 256 - v;
+      }
+      if (sum < best) {
+        best = sum;
+        target.set(candidate);
+      }
+    }
+  });
+
+  return out;
+}
+
+/**
+ * Encode a raster as PNG, losslessly reducing its colour type and bit
+ * depth first. With `optimize`, every filter strategy is compressed and
+ * the smallest result kept, in the manner of oxipng; otherwise only the
+ * adaptive strategy is used. The output depends only on the pixels.
+ */
+export async function encodePng(raster: Raster, optimize: boolean): Promise<Uint8Array> {
+  const layout = chooseLayout(raster);
+
+  // Palette and low bit depth images rarely gain from filtering
+  const strategies: (number | "adaptive")[] = optimize
+    ? [0, 1, 2, 3, 4, "adaptive"]
+    : layout.colorType === PALETTE || layout.bitDepth < 8
+      ? [0]
+      : ["adaptive"];
+
+  let best: Uint8Array | null = null;
+  for (const strategy of strategies) {
+    const compressed = await deflate(filterImage(layout, strategy));
+    if (!best || compressed.length < best.length) best = compressed;
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, raster.width);
+  view.setUint32(4, raster.height);
+  header[8] = layout.bitDepth;
+  header[9] = layout.colorType;
+
+  const chunks = [SIGNATURE, pngChunk("IHDR", header)];
+  if (layout.palette) chunks.push(pngChunk("PLTE", layout.palette));
+  if (layout.transparency) chunks.push(pngChunk("tRNS", layout.transparency));
+  chunks.push(pngChunk("IDAT", best ?? new Uint8Array()));
+  chunks.push(pngChunk("IEND", new Uint8Array()));
+
+  return concat(chunks);
+}
@@ -0,0 +1,353 @@
+import workerSource from "./worker?worker";
+import type { ImageResizerSettings } from "./settings";
+import { EncodeFormat, canEncode } from "./formats";
+import { probeDimensions } from "./probe";
+import { ImageEdit, ResizeResult, resizeImage } from "./resizer";
+import { perceptualHash } from "./phash";
+
+/**
+ * Messages the pool sends to a resize worker.
+ */
+export type WorkerRequest =
+  | { type: "init"; encoders: Record<EncodeFormat, boolean> }
+  | {
+      type: "resize";
+      id: number;
+      data: ArrayBuffer;
+      filename: string;
+      settings: ImageResizerSettings;
+      edit: ImageEdit | null;
+    }
+  | {
+      type: "hash";
+      id: number;
+      data: ArrayBuffer;
+      filename: string;
+      settings: ImageResizerSettings;
+    };
+
+/**
+ * Messages a resize worker sends back.
+ */
+export type WorkerResponse =
+  | { id: number; result: ResizeResult | null }
+  | { id: number; hash: string | null }
+  | { id: number; error: string };
+
+interface Task {
+  id: number;
+  /** Resize the image, or only take its perceptual hash. */
+  type: "resize" | "hash";
+  data: ArrayBuffer;
+  filename: string;
+  settings: ImageResizerSettings;
+  edit: ImageEdit | null;
+  /** Estimated peak memory of the work, in bytes. */
+  cost: number;
+  resolve: (value: ResizeResult | string | null) => void;
+  reject: (err: Error) => void;
+}
+
+interface Slot {
+  /** Null for the main-thread fallback. */
+  worker: Worker | null;
+  task: Task | null;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Most workers to start, whatever the core count.
+ */
+const MAX_WORKERS = 4;
+
+/**
+ * Bytes of peak memory per decoded pixel: the bitmap, the canvas and the
+ * encoder's working copy.
+ */
+const BYTES_PER_PIXEL = 12;
+
+/**
+ * Workers to run: one fewer than the cores, so the UI keeps one.
+ */
+function defaultPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+/**
+ * Memory the resizes in flight may use together: an eighth of the
+ * device's memory where the runtime reports it, within 256 MB–1 GB.
+ */
+function defaultMemoryBudget(): number {
+  const deviceGB = (navigator as { deviceMemory?: number }).deviceMemory ?? 4;
+  return Math.max(256 * MB, Math.min(1024 * MB, (deviceGB * 1024 * MB) / 8));
+}
+
+/**
+ * Estimate the peak memory of resizing an image from its header, or
+ * assume a generous compression ratio if the header can't be read.
+ */
+function estimateCost(data: ArrayBuffer): number {
+  const dims = probeDimensions(data);
+  if (!dims) return data.byteLength * 10;
+  return dims.width * dims.height * BYTES_PER_PIXEL;
+}
+
+function workersAvailable(): boolean {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap === "function"
+  );
+}
+
+/**
+ * Runs `resizeImage` in a small pool of Web Workers so decoding and
+ * encoding stay off the UI thread. Resizes are queued in order and only
+ * started while the estimated memory of those in flight fits the budget
+ * (a single resize always runs, however large). Where workers or
+ * `OffscreenCanvas` aren't available, or a worker fails to start, resizes
+ * run on the main thread one at a time instead. Perceptual hashes for
+ * duplicate detection go through the same queue.
+ */
+export class ResizePool {
+  private slots: Slot[] = [];
+  private queue: Task[] = [];
+  private nextId = 1;
+  private inFlightCost = 0;
+  private workerUrl: string | null = null;
+  private readonly budget = defaultMemoryBudget();
+
+  constructor() {
+    if (workersAvailable()) {
+      try {
+        this.startWorkers(defaultPoolSize());
+        return;
+      } catch (err) {
+        console.error("[Image Resizer] Could not start resize workers:", err);
+        this.stopWorkers();
+      }
+    }
+    this.slots = [{ worker: null, task: null }];
+  }
+
+  /**
+   * How many resizes can run at once.
+   */
+  get size(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Resize an image in the pool, with an optional one-off `edit`. `data`
+   * is copied to the worker, so the caller's buffer stays usable.
+   */
+  resize(
+    data: ArrayBuffer,
+    filename: string,
+    settings: ImageResizerSettings,
+    edit: ImageEdit | null = null
+  ): Promise<ResizeResult | null> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        id: this.nextId++,
+        type: "resize",
+        data,
+        filename,
+        settings,
+        edit,
+        cost: estimateCost(data),
+        resolve: (value) => resolve(typeof value === "string" ? null : value),
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Take the perceptual hash of an image in the pool, or null if it can't
+   * be decoded. Like resizes, it waits its turn for the memory budget.
+   */
+  perceptualHash(
+    data: ArrayBuffer,
+    filename: string,
+    settings: ImageResizerSettings
+  ): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        id: this.nextId++,
+        type: "hash",
+        data,
+        filename,
+        settings,
+        edit: null,
+        cost: estimateCost(data),
+        resolve: (value) => resolve(typeof value === "string" ? value : null),
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Stop all workers and fail anything running or still queued.
+   */
+  destroy() {
+    const unloaded = new Error("Image Resizer was unloaded");
+    for (const slot of this.slots) {
+      slot.task?.reject(unloaded);
+      slot.task = null;
+    }
+    this.inFlightCost = 0;
+
+    this.stopWorkers();
+    for (const task of this.queue) {
+      task.reject(unloaded);
+    }
+    this.queue = [];
+  }
+
+  private startWorkers(count: number) {
+    const blob = new Blob([workerSource], { type: "text/javascript" });
+    this.workerUrl = URL.createObjectURL(blob);
+
+    const encoders: Record<EncodeFormat, boolean> = {
+      png: true,
+      jpeg: canEncode("jpeg"),
+      webp: canEncode("webp"),
+      avif: canEncode("avif"),
+      gif: false,
+    };
+
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(this.workerUrl);
+      const slot: Slot = { worker, task: null };
+
+      worker.onmessage = (evt: MessageEvent<WorkerResponse>) => {
+        this.complete(slot, evt.data);
+      };
+      worker.onerror = (evt) => {
+        evt.preventDefault();
+        this.fallBack(evt.message);
+      };
+
+      const init: WorkerRequest = { type: "init", encoders };
+      worker.postMessage(init);
+      this.slots.push(slot);
+    }
+  }
+
+  private stopWorkers() {
+    for (const { worker } of this.slots) {
+      worker?.terminate();
+    }
+    this.slots = [];
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+  }
+
+  /**
+   * A worker died outside of a resize (e.g. it couldn't load): switch to
+   * the main thread and rerun whatever the workers were doing.
+   */
+  private fallBack(message: string) {
+    if (this.slots.some((slot) => slot.worker === null)) return;
+    console.error(
+      `[Image Resizer] Resize worker failed, falling back to the main thread: ${message}`
+    );
+
+    const interrupted = this.slots
+      .map((slot) => slot.task)
+      .filter((task): task is Task => task !== null);
+
+    this.stopWorkers();
+    this.slots = [{ worker: null, task: null }];
+    this.inFlightCost = 0;
+    this.queue.unshift(...interrupted);
+    this.pump();
+  }
+
+  /**
+   * Start queued resizes on idle slots while the memory budget allows.
+   */
+  private pump() {
+    for (const slot of this.slots) {
+      const task = this.queue[0];
+      if (!task) return;
+      if (slot.task) continue;
+
+      const withinBudget =
+        this.inFlightCost === 0 || this.inFlightCost + task.cost <= this.budget;
+      if (!withinBudget) return;
+
+      this.queue.shift();
+      this.start(slot, task);
+    }
+  }
+
+  private start(slot: Slot, task: Task) {
+    slot.task = task;
+    this.inFlightCost += task.cost;
+
+    if (slot.worker) {
+      const request: WorkerRequest =
+        task.type === "hash"
+          ? {
+              type: "hash",
+              id: task.id,
+              data: task.data,
+              filename: task.filename,
+              settings: task.settings,
+            }
+          : {
+              type: "resize",
+              id: task.id,
+              data: task.data,
+              filename: task.filename,
+              settings: task.settings,
+              edit: task.edit,
+            };
+      slot.worker.postMessage(request);
+      return;
+    }
+
+    const work: Promise<WorkerResponse> =
+      task.type === "hash"
+        ? perceptualHash(task.data, task.filename, task.settings).then((hash) => ({
+            id: task.id,
+            hash,
+          }))
+        : resizeImage(task.data, task.filename, task.settings, task.edit).then((result) => ({
+            id: task.id,
+            result,
+          }));
+    work.then(
+      (response) => this.complete(slot, response),
+      (err: unknown) =>
+        this.complete(slot, {
+          id: task.id,
+          error: err instanceof Error ? err.message : String(err),
+        })
+    );
+  }
+
+  private complete(slot: Slot, response: WorkerResponse) {
+    const task = slot.task;
+    if (!task || task.id !== response.id) return;
+
+    slot.task = null;
+    this.inFlightCost -= task.cost;
+
+    if ("error" in response) {
+      task.reject(new Error(response.error));
+    } else if ("hash" in response) {
+      task.resolve(response.hash);
+    } else {
+      task.resolve(response.result);
+    }
+    this.pump();
+  }
+}
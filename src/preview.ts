@@ -0,0 +1,188 @@
+import { App, ButtonComponent, Modal, Setting, TFile } from "obsidian";
+import type { ImageResizerSettings } from "./settings";
+import type { ResizePlan } from "./resizer";
+import { ENCODE_FORMAT_LABELS } from "./formats";
+import { getExtension } from "./resizer";
+import { BATCH_ACTION_VERBS, BatchAction } from "./batch";
+
+/**
+ * An image a batch run would resize, with the settings resolved for it.
+ */
+export interface BatchCandidate {
+  file: TFile;
+  settings: ImageResizerSettings;
+  plan: ResizePlan;
+}
+
+/**
+ * Human-readable byte count, e.g. "840 KB" or "3.2 MB".
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+function describeFormatChange(candidate: BatchCandidate, action: BatchAction): string {
+  const { plan, file } = candidate;
+  if (!plan.newExtension) return "—";
+
+  // An original goes back to whatever type it was, encodable or not
+  const from = getExtension(file.name).toUpperCase();
+  const to =
+    action === "restore" ? plan.newExtension.toUpperCase() : ENCODE_FORMAT_LABELS[plan.format];
+  return plan.dependsOnAlpha ? `${from} → ${to} (if opaque)` : `${from} → ${to}`;
+}
+
+/**
+ * Lists every image a batch command would change, with current and planned
+ * dimensions, sizes and format changes, and lets the user untick images
+ * before anything is written.
+ */
+export class BatchPreviewModal extends Modal {
+  private selected: Set<BatchCandidate>;
+  private resolve: ((chosen: BatchCandidate[] | null) => void) | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private confirmButton: ButtonComponent | null = null;
+  private checkboxes: HTMLInputElement[] = [];
+
+  constructor(
+    app: App,
+    private location: string,
+    private candidates: BatchCandidate[],
+    private action: BatchAction = "resize"
+  ) {
+    super(app);
+    this.selected = new Set(candidates);
+  }
+
+  /**
+   * Open the modal and resolve with the confirmed candidates, or null if
+   * it was cancelled.
+   */
+  choose(): Promise<BatchCandidate[] | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(`${BATCH_ACTION_VERBS[this.action]} images in ${this.location}`);
+
+    new Setting(contentEl)
+      .setDesc(`${this.describeCandidates()} Untick any to leave alone.`)
+      .addButton((button) =>
+        button.setButtonText("Select all").onClick(() => this.setAll(true))
+      )
+      .addButton((button) =>
+        button.setButtonText("Select none").onClick(() => this.setAll(false))
+      );
+
+    const wrapper = contentEl.createDiv({ cls: "image-resizer-preview" });
+    const table = wrapper.createEl("table");
+    const header = table.createEl("thead").createEl("tr");
+    for (const label of ["", "Image", "Current", "Planned", "Format"]) {
+      header.createEl("th", { text: label });
+    }
+
+    const body = table.createEl("tbody");
+    for (const candidate of this.candidates) {
+      const { plan, file } = candidate;
+      const row = body.createEl("tr");
+
+      const checkbox = row.createEl("td").createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) this.selected.add(candidate);
+        else this.selected.delete(candidate);
+        this.updateSummary();
+      });
+      this.checkboxes.push(checkbox);
+
+      row.createEl("td", { text: file.path, cls: "image-resizer-preview-path" });
+      row.createEl("td", {
+        text: `${plan.width}×${plan.height} · ${formatBytes(plan.bytes)}`,
+      });
+      row.createEl("td", {
+        text: plan.optimize
+          ? "Optimize only"
+          : plan.display
+            ? `Shown at ${plan.newWidth}×${plan.newHeight} · file unchanged`
+            : `${plan.newWidth}×${plan.newHeight} · ~${formatBytes(plan.estimatedBytes)}`,
+      });
+      row.createEl("td", { text: describeFormatChange(candidate, this.action) });
+    }
+
+    this.summaryEl = contentEl.createEl("p", { cls: "setting-item-description" });
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        this.confirmButton = button;
+        button.setCta().onClick(() => this.finish([...this.selected]));
+      })
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      );
+
+    this.updateSummary();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private describeCandidates(): string {
+    const count = this.candidates.length;
+    switch (this.action) {
+      case "convert":
+        return `${count} image(s) can be converted.`;
+      case "restore":
+        return `${count} image(s) have an archived original.`;
+      default:
+        return `${count} image(s) exceed the limits or can be optimized.`;
+    }
+  }
+
+  private setAll(checked: boolean) {
+    for (const checkbox of this.checkboxes) {
+      checkbox.checked = checked;
+    }
+    this.selected = checked ? new Set(this.candidates) : new Set();
+    this.updateSummary();
+  }
+
+  private updateSummary() {
+    let before = 0;
+    let after = 0;
+    let optimize = 0;
+    for (const { plan } of this.selected) {
+      before += plan.bytes;
+      after += plan.estimatedBytes;
+      if (plan.optimize) optimize++;
+    }
+
+    // Optimize savings aren't known until the image is encoded, so they
+    // aren't part of the estimate
+    this.summaryEl?.setText(
+      `${this.selected.size} of ${this.candidates.length} selected · ` +
+        `${formatBytes(before)} → ~${formatBytes(after)} ` +
+        `(estimated savings ${formatBytes(Math.max(0, before - after))}` +
+        (optimize > 0 ? `, plus whatever optimizing ${optimize} image(s) saves)` : ")")
+    );
+
+    this.confirmButton
+      ?.setButtonText(`${BATCH_ACTION_VERBS[this.action]} ${this.selected.size} image(s)`)
+      .setDisabled(this.selected.size === 0);
+  }
+
+  private finish(chosen: BatchCandidate[] | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(chosen);
+    if (chosen) this.close();
+  }
+}
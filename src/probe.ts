@@ -0,0 +1,264 @@
+/**
+ * Read an image's pixel dimensions from its header without decoding it.
+ * Supports PNG, JPEG, WebP, BMP, GIF, TIFF, HEIC and AVIF. Returns null
+ * for anything else or a header that can't be read.
+ */
+export function probeDimensions(
+  data: ArrayBuffer
+): { width: number; height: number } | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+
+  try {
+    // PNG: IHDR is always the first chunk
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    // JPEG: scan for a start-of-frame marker
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return probeJpeg(bytes, view);
+    }
+
+    // WebP
+    if (fourcc(bytes, 0) === "RIFF" && fourcc(bytes, 8) === "WEBP") {
+      return probeWebp(bytes, view);
+    }
+
+    // BMP: height is negative for top-down bitmaps
+    if (bytes[0] === 0x42 && bytes[1] === 0x4d) {
+      return {
+        width: Math.abs(view.getInt32(18, true)),
+        height: Math.abs(view.getInt32(22, true)),
+      };
+    }
+
+    // GIF: logical screen size
+    if (fourcc(bytes, 0) === "GIF8") {
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+
+    // TIFF: width and height tags of the first directory
+    if (fourcc(bytes, 0) === "II*\0" || fourcc(bytes, 0) === "MM\0*") {
+      return probeTiff(view, bytes[0] === 0x49);
+    }
+
+    // HEIC and AVIF: ISO-BMFF with an "ftyp" box first
+    if (fourcc(bytes, 4) === "ftyp") {
+      return probeIsoBmff(bytes, view);
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+function fourcc(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    bytes[offset] ?? 0,
+    bytes[offset + 1] ?? 0,
+    bytes[offset + 2] ?? 0,
+    bytes[offset + 3] ?? 0
+  );
+}
+
+function probeJpeg(
+  bytes: Uint8Array,
+  view: DataView
+): { width: number; height: number } | null {
+  let pos = 2;
+
+  while (pos + 9 < bytes.length) {
+    if (bytes[pos] !== 0xff) return null;
+    const marker = bytes[pos + 1] ?? 0;
+
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      pos += 2;
+      continue;
+    }
+
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return { width: view.getUint16(pos + 7), height: view.getUint16(pos + 5) };
+    }
+
+    pos += 2 + view.getUint16(pos + 2);
+  }
+
+  return null;
+}
+
+function probeTiff(
+  view: DataView,
+  le: boolean
+): { width: number; height: number } | null {
+  const offset = view.getUint32(4, le);
+  const count = view.getUint16(offset, le);
+  let width = 0;
+  let height = 0;
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    // SHORT or LONG, stored in the entry
+    const value =
+      view.getUint16(entry + 2, le) === 3
+        ? view.getUint16(entry + 8, le)
+        : view.getUint32(entry + 8, le);
+    if (tag === 256) width = value;
+    if (tag === 257) height = value;
+  }
+
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Image sizes in HEIC and AVIF files are in "ispe" properties. A file can
+ * have several (thumbnails, grid tiles, the full image), and the largest
+ * is the image itself. An "irot" property of 90° or 270°, which phones use
+ * for portrait photos, swaps the two.
+ */
+function probeIsoBmff(
+  bytes: Uint8Array,
+  view: DataView
+): { width: number; height: number } | null {
+  let best: { width: number; height: number } | null = null;
+  let quarterTurn = false;
+  const end = Math.min(bytes.length - 16, 1 << 20);
+
+  for (let pos = 8; pos < end; pos++) {
+    if (bytes[pos] !== 0x69) continue;
+    const type = fourcc(bytes, pos);
+    if (type === "ispe") {
+      // Box type, then version and flags
+      const width = view.getUint32(pos + 8);
+      const height = view.getUint32(pos + 12);
+      if (!best || width * height > best.width * best.height) {
+        best = { width, height };
+      }
+    } else if (type === "irot") {
+      quarterTurn = ((bytes[pos + 4] ?? 0) & 1) === 1;
+    }
+  }
+
+  return best && quarterTurn ? { width: best.height, height: best.width } : best;
+}
+
+/**
+ * Pixel density a PNG declares in its `pHYs` chunk, in dots per inch.
+ * Returns null for other formats, or a PNG without a density in metres.
+ */
+export function probePngDensity(data: ArrayBuffer): number | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  if (bytes[0] !== 0x89 || fourcc(bytes, 1).slice(0, 3) !== "PNG") return null;
+
+  try {
+    // pHYs must come before the image data
+    let pos = 8;
+    while (pos + 8 <= bytes.length) {
+      const length = view.getUint32(pos);
+      const type = fourcc(bytes, pos + 4);
+      if (type === "IDAT" || type === "IEND") break;
+      if (type === "pHYs" && length >= 9) {
+        // Unit 1 is pixels per metre; 0 only gives the aspect ratio
+        if (bytes[pos + 16] !== 1) return null;
+        return view.getUint32(pos + 8) * 0.0254;
+      }
+      pos += 12 + length;
+    }
+  } catch {
+    // Truncated file
+  }
+  return null;
+}
+
+/**
+ * True if a GIF or WebP has more than one frame. Other formats are
+ * treated as still images.
+ */
+export function isAnimated(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data);
+  try {
+    if (fourcc(bytes, 0) === "GIF8") {
+      return countGifFrames(bytes, 2) > 1;
+    }
+    if (fourcc(bytes, 0) === "RIFF" && fourcc(bytes, 8) === "WEBP") {
+      // VP8X flags: bit 1 is the animation flag
+      return fourcc(bytes, 12) === "VP8X" && ((bytes[20] ?? 0) & 0x02) !== 0;
+    }
+  } catch {
+    // Truncated file
+  }
+  return false;
+}
+
+/**
+ * Count the image descriptors in a GIF, stopping at `limit`.
+ */
+function countGifFrames(bytes: Uint8Array, limit: number): number {
+  let pos = 13;
+  const packed = bytes[10] ?? 0;
+  if (packed & 0x80) pos += 3 * (1 << ((packed & 7) + 1));
+
+  const skipSubBlocks = (at: number) => {
+    while (at < bytes.length && bytes[at] !== 0) at += (bytes[at] ?? 0) + 1;
+    return at + 1;
+  };
+
+  let frames = 0;
+  while (pos < bytes.length && frames < limit) {
+    const block = bytes[pos];
+    if (block === 0x21) {
+      pos = skipSubBlocks(pos + 2);
+    } else if (block === 0x2c) {
+      frames++;
+      const flags = bytes[pos + 9] ?? 0;
+      pos += 10;
+      if (flags & 0x80) pos += 3 * (1 << ((flags & 7) + 1));
+      pos = skipSubBlocks(pos + 1);
+    } else {
+      break;
+    }
+  }
+  return frames;
+}
+
+function probeWebp(
+  bytes: Uint8Array,
+  view: DataView
+): { width: number; height: number } | null {
+  const chunk = fourcc(bytes, 12);
+  const data = 20;
+
+  switch (chunk) {
+    case "VP8X":
+      return {
+        width: 1 + (view.getUint32(data + 4, true) & 0xffffff),
+        height: 1 + (view.getUint32(data + 7, true) & 0xffffff),
+      };
+    case "VP8L": {
+      const bits = view.getUint32(data + 1, true);
+      return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+    }
+    case "VP8 ":
+      // After the 3-byte frame tag and 3-byte start code
+      return {
+        width: view.getUint16(data + 6, true) & 0x3fff,
+        height: view.getUint16(data + 8, true) & 0x3fff,
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,178 @@
+import { App, Modal, Setting } from "obsidian";
+import type { ImageResizerSettings } from "./settings";
+import { SETTINGS_VERSION, upgradeSettings } from "./schema";
+
+/**
+ * A named copy of every option, such as "Archival" or "Note-taking".
+ */
+export interface SettingsProfile {
+  name: string;
+  settings: ImageResizerSettings;
+}
+
+/**
+ * Key that marks a JSON file as exported profiles. Its value is the
+ * version of the file format.
+ */
+const EXPORT_KEY = "imageResizerProfiles";
+const EXPORT_VERSION = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function profileName(value: unknown): string | null {
+  if (!isRecord(value) || typeof value.name !== "string") return null;
+  return value.name.trim() || null;
+}
+
+/**
+ * Profiles as saved in data.json at settings `version`, migrated and
+ * checked like the settings themselves. Returns what had to be fixed,
+ * one line per problem.
+ */
+export function loadProfiles(
+  value: unknown,
+  version: number
+): { profiles: SettingsProfile[]; problems: string[] } {
+  const profiles: SettingsProfile[] = [];
+  const problems: string[] = [];
+  if (!Array.isArray(value)) return { profiles, problems };
+
+  value.forEach((profile: unknown, index) => {
+    const name = profileName(profile);
+    if (!name) {
+      problems.push(`profile ${index + 1} has no name and was removed`);
+      return;
+    }
+    const checked = upgradeSettings((profile as Record<string, unknown>).settings, version);
+    profiles.push({ name, settings: checked.settings });
+    problems.push(...checked.problems.map((problem) => `profile "${name}": ${problem}`));
+  });
+  return { profiles, problems };
+}
+
+/**
+ * JSON for a file that other vaults can import with `parseProfiles`.
+ */
+export function exportProfiles(profiles: SettingsProfile[]): string {
+  return JSON.stringify(
+    { [EXPORT_KEY]: EXPORT_VERSION, settingsVersion: SETTINGS_VERSION, profiles },
+    null,
+    2
+  );
+}
+
+/**
+ * Read profiles from an exported file. Throws with the reason if the
+ * file, or any profile in it, isn't valid, so nothing is half imported.
+ */
+export function parseProfiles(text: string): SettingsProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("the file isn't valid JSON");
+  }
+
+  if (!isRecord(data) || typeof data[EXPORT_KEY] !== "number") {
+    throw new Error("the file isn't an export of Image Resizer profiles");
+  }
+  const version = typeof data.settingsVersion === "number" ? data.settingsVersion : 0;
+  if (data[EXPORT_KEY] > EXPORT_VERSION || version > SETTINGS_VERSION) {
+    throw new Error("the file is from a newer version of Image Resizer");
+  }
+  if (!Array.isArray(data.profiles)) {
+    throw new Error("the file has no list of profiles");
+  }
+
+  // Unlike saved settings, nothing is imported with values that had to
+  // be fixed
+  const { profiles, problems } = loadProfiles(data.profiles, version);
+  if (problems.length > 0) throw new Error(problems[0]);
+  return profiles;
+}
+
+/**
+ * `profiles` with `added` in them, replacing any with the same name.
+ */
+export function mergeProfiles(
+  profiles: SettingsProfile[],
+  added: SettingsProfile[]
+): SettingsProfile[] {
+  const names = new Set(added.map((profile) => profile.name));
+  return [...profiles.filter((profile) => !names.has(profile.name)), ...added];
+}
+
+/**
+ * Asks for a profile name, for saving or renaming a profile.
+ */
+export class ProfileNameModal extends Modal {
+  private resolve: ((name: string | null) => void) | null = null;
+
+  constructor(
+    app: App,
+    private title: string,
+    private name: string,
+    private taken: string[]
+  ) {
+    super(app);
+  }
+
+  /**
+   * Open the modal and resolve with the trimmed name, or null if it was
+   * cancelled.
+   */
+  choose(): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.title);
+
+    const message = contentEl.createEl("p", { cls: "setting-item-description" });
+    const submit = () => {
+      const name = this.name.trim();
+      if (!name) {
+        message.setText("Enter a name.");
+      } else if (this.taken.includes(name)) {
+        message.setText(`There is already a profile named "${name}".`);
+      } else {
+        this.finish(name);
+      }
+    };
+
+    new Setting(contentEl).setName("Name").addText((text) => {
+      text.setValue(this.name).onChange((value) => {
+        this.name = value;
+        message.setText("");
+      });
+      text.inputEl.addEventListener("keydown", (evt) => {
+        if (evt.key === "Enter") submit();
+      });
+      window.setTimeout(() => text.inputEl.select(), 0);
+    });
+
+    contentEl.appendChild(message);
+
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Save").setCta().onClick(submit))
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private finish(name: string | null) {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(name);
+    if (name) this.close();
+  }
+}
@@ -0,0 +1,157 @@
+import type { Raster } from "./raster";
+
+/**
+ * Histogram precision: colours are binned at 5 bits per colour channel
+ * and 4 bits of alpha, which keeps the tables small without visible loss
+ * once reduced to a palette.
+ */
+const COLOR_BITS = 5;
+const ALPHA_BITS = 4;
+const BINS = 1 << (COLOR_BITS * 3 + ALPHA_BITS);
+
+function binOf(r: number, g: number, b: number, a: number): number {
+  return (
+    ((r >> (8 - COLOR_BITS)) << (COLOR_BITS * 2 + ALPHA_BITS)) |
+    ((g >> (8 - COLOR_BITS)) << (COLOR_BITS + ALPHA_BITS)) |
+    ((b >> (8 - COLOR_BITS)) << ALPHA_BITS) |
+    (a >> (8 - ALPHA_BITS))
+  );
+}
+
+/**
+ * True if the raster has at most `limit` distinct colours, counting every
+ * fully transparent pixel as the same colour.
+ */
+function fitsPalette(raster: Raster, limit: number): boolean {
+  const { data } = raster;
+  const seen = new Set<number>();
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3] ?? 0;
+    const rgba =
+      a === 0
+        ? 0
+        : (((data[i] ?? 0) << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | a) >>> 0;
+    seen.add(rgba);
+    if (seen.size > limit) return false;
+  }
+  return true;
+}
+
+interface Box {
+  bins: number[];
+  /** Channel with the widest spread (0–3), and that spread. */
+  channel: number;
+  spread: number;
+  pixels: number;
+}
+
+/**
+ * Reduce a raster to at most `colors` colours with median cut, in place.
+ * Fully transparent pixels are left out and take up one of the colours.
+ * Images that already fit are left untouched, so the PNG encoder can
+ * palette them losslessly. Returns true if the pixels changed.
+ */
+export function quantizeRaster(raster: Raster, colors = 256): boolean {
+  if (fitsPalette(raster, colors)) return false;
+
+  const { data } = raster;
+  const counts = new Uint32Array(BINS);
+  // Per-bin channel sums, so each palette entry is the true mean colour
+  const sums = new Float64Array(BINS * 4);
+  let transparent = false;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] ?? 0;
+    const g = data[i + 1] ?? 0;
+    const b = data[i + 2] ?? 0;
+    const a = data[i + 3] ?? 0;
+    if (a === 0) {
+      transparent = true;
+      continue;
+    }
+    const bin = binOf(r, g, b, a);
+    counts[bin] = (counts[bin] ?? 0) + 1;
+    sums[bin * 4] = (sums[bin * 4] ?? 0) + r;
+    sums[bin * 4 + 1] = (sums[bin * 4 + 1] ?? 0) + g;
+    sums[bin * 4 + 2] = (sums[bin * 4 + 2] ?? 0) + b;
+    sums[bin * 4 + 3] = (sums[bin * 4 + 3] ?? 0) + a;
+  }
+
+  const mean = (bin: number, channel: number) =>
+    (sums[bin * 4 + channel] ?? 0) / (counts[bin] ?? 1);
+
+  const makeBox = (bins: number[]): Box => {
+    let channel = 0;
+    let spread = 0;
+    let pixels = 0;
+    for (const bin of bins) pixels += counts[bin] ?? 0;
+    for (let c = 0; c < 4; c++) {
+      let min = 255;
+      let max = 0;
+      for (const bin of bins) {
+        const value = mean(bin, c);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > spread) {
+        spread = max - min;
+        channel = c;
+      }
+    }
+    return { bins, channel, spread, pixels };
+  };
+
+  const used: number[] = [];
+  for (let bin = 0; bin < BINS; bin++) {
+    if (counts[bin]) used.push(bin);
+  }
+  const boxes = [makeBox(used)];
+
+  // Split the box whose widest channel, weighted by population, is
+  // largest, at the pixel-weighted median of that channel
+  const visible = transparent ? colors - 1 : colors;
+  while (boxes.length < visible) {
+    let target = -1;
+    let score = 0;
+    boxes.forEach((box, i) => {
+      const value = box.spread * Math.sqrt(box.pixels);
+      if (box.bins.length > 1 && value > score) {
+        score = value;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target] as Box;
+    const sorted = box.bins.sort((x, y) => mean(x, box.channel) - mean(y, box.channel));
+    let seen = 0;
+    let cut = 1;
+    for (; cut < sorted.length; cut++) {
+      seen += counts[sorted[cut - 1] ?? 0] ?? 0;
+      if (seen * 2 >= box.pixels) break;
+    }
+    cut = Math.min(cut, sorted.length - 1);
+    boxes.splice(target, 1, makeBox(sorted.slice(0, cut)), makeBox(sorted.slice(cut)));
+  }
+
+  // Palette entry for every bin
+  const mapping = new Uint32Array(BINS);
+  for (const box of boxes) {
+    const total = [0, 0, 0, 0];
+    for (const bin of box.bins) {
+      for (let c = 0; c < 4; c++) total[c] = (total[c] ?? 0) + (sums[bin * 4 + c] ?? 0);
+    }
+    const [r, g, b, a] = total.map((sum) => Math.round(sum / box.pixels)) as [number, number, number, number];
+    const rgba = a === 0 ? 0 : ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+    for (const bin of box.bins) mapping[bin] = rgba;
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const rgba = mapping[binOf(data[i] ?? 0, data[i + 1] ?? 0, data[i + 2] ?? 0, data[i + 3] ?? 0)] ?? 0;
+    data[i] = rgba >>> 24;
+    data[i + 1] = (rgba >>> 16) & 0xff;
+    data[i + 2] = (rgba >>> 8) & 0xff;
+    data[i + 3] = rgba & 0xff;
+  }
+  return true;
+}
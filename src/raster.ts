@@ -0,0 +1,315 @@
+import type { CropRect, ResamplingFilter } from "./codec";
+
+/**
+ * An image as straight (non-premultiplied) 8-bit RGBA pixels, row by row.
+ */
+export interface Raster {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export function createRaster(width: number, height: number): Raster {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * True if any pixel is not fully opaque.
+ */
+export function hasAlpha(raster: Raster): boolean {
+  const { data } = raster;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Parse a `#rgb` or `#rrggbb` colour, defaulting to white.
+ */
+export function parseColor(color: string): [number, number, number] {
+  let hex = color.trim().replace(/^#/, "");
+  if (hex.length === 3) {
+    hex = hex.replace(/./g, (c) => c + c);
+  }
+  const value = parseInt(hex, 16);
+  if (hex.length !== 6 || isNaN(value)) return [255, 255, 255];
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Composite the raster over a solid colour, in place.
+ */
+export function flattenRaster(raster: Raster, color: string) {
+  const [r, g, b] = parseColor(color);
+  const { data } = raster;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = (data[i + 3] ?? 0) / 255;
+    data[i] = (data[i] ?? 0) * a + r * (1 - a);
+    data[i + 1] = (data[i + 1] ?? 0) * a + g * (1 - a);
+    data[i + 2] = (data[i + 2] ?? 0) * a + b * (1 - a);
+    data[i + 3] = 255;
+  }
+}
+
+/**
+ * Rotate or flip a raster into its EXIF orientation. Returns the same
+ * raster for orientation 1.
+ */
+export function orientRaster(src: Raster, orientation: number): Raster {
+  if (orientation < 2 || orientation > 8) return src;
+
+  const sw = src.width;
+  const sh = src.height;
+  const swap = orientation >= 5;
+  const out = createRaster(swap ? sh : sw, swap ? sw : sh);
+  const s = new Uint32Array(src.data.buffer, src.data.byteOffset, sw * sh);
+  const d = new Uint32Array(out.data.buffer);
+
+  for (let dy = 0; dy < out.height; dy++) {
+    for (let dx = 0; dx < out.width; dx++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2: sx = sw - 1 - dx; sy = dy; break;
+        case 3: sx = sw - 1 - dx; sy = sh - 1 - dy; break;
+        case 4: sx = dx; sy = sh - 1 - dy; break;
+        case 5: sx = dy; sy = dx; break;
+        case 6: sx = dy; sy = sh - 1 - dx; break;
+        case 7: sx = sw - 1 - dy; sy = sh - 1 - dx; break;
+        default: sx = sw - 1 - dy; sy = dx; break;
+      }
+      d[dy * out.width + dx] = s[sy * sw + sx] ?? 0;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Copy out the part of a raster inside `crop`. Returns the same raster
+ * for no crop.
+ */
+export function cropRaster(src: Raster, crop: CropRect | null): Raster {
+  if (!crop) return src;
+
+  const out = createRaster(crop.width, crop.height);
+  for (let y = 0; y < crop.height; y++) {
+    const start = ((crop.y + y) * src.width + crop.x) * 4;
+    out.data.set(src.data.subarray(start, start + crop.width * 4), y * crop.width * 4);
+  }
+  return out;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+const FILTERS: Record<ResamplingFilter, { radius: number; weight: (x: number) => number }> = {
+  lanczos3: {
+    radius: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+  // Mitchell–Netravali with B = C = 1/3
+  mitchell: {
+    radius: 2,
+    weight: (x) => {
+      const t = Math.abs(x);
+      if (t < 1) return (7 * t * t * t - 12 * t * t + 16 / 3) / 6;
+      if (t < 2) return ((-7 / 3) * t * t * t + 12 * t * t - 20 * t + 32 / 3) / 6;
+      return 0;
+    },
+  },
+};
+
+/**
+ * Filter taps for scaling one axis from `srcSize` to `dstSize`: for each
+ * output position, the first source index and normalised weights.
+ */
+function contributions(
+  srcSize: number,
+  dstSize: number,
+  filter: ResamplingFilter
+): { start: Int32Array; count: Int32Array; weights: Float32Array; stride: number } {
+  const { radius, weight } = FILTERS[filter];
+  const scale = srcSize / dstSize;
+  // Widen the filter when downscaling so every source pixel contributes
+  const stretch = Math.max(1, scale);
+  const support = radius * stretch;
+  const stride = Math.ceil(support * 2) + 1;
+
+  const start = new Int32Array(dstSize);
+  const count = new Int32Array(dstSize);
+  const weights = new Float32Array(dstSize * stride);
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) * scale - 0.5;
+    const first = Math.max(0, Math.ceil(center - support));
+    const last = Math.min(srcSize - 1, Math.floor(center + support));
+
+    let total = 0;
+    let n = 0;
+    for (let j = first; j <= last && n < stride; j++, n++) {
+      const w = weight((j - center) / stretch);
+      weights[i * stride + n] = w;
+      total += w;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < n; k++) {
+        weights[i * stride + k] = (weights[i * stride + k] ?? 0) / total;
+      }
+    }
+
+    start[i] = first;
+    count[i] = n;
+  }
+
+  return { start, count, weights, stride };
+}
+
+/**
+ * Scale premultiplied float pixels along one axis. `along` is the length
+ * of the axis being scaled, `across` the other one.
+ */
+function resampleAxis(
+  src: Float32Array,
+  srcAlong: number,
+  across: number,
+  dstAlong: number,
+  horizontal: boolean,
+  filter: ResamplingFilter
+): Float32Array {
+  const { start, count, weights, stride } = contributions(srcAlong, dstAlong, filter);
+  const out = new Float32Array(dstAlong * across * 4);
+
+  // Distance between neighbouring pixels along/across the axis, in floats
+  const srcStep = horizontal ? 4 : across * 4;
+  const srcLine = horizontal ? srcAlong * 4 : 4;
+  const dstStep = horizontal ? 4 : across * 4;
+  const dstLine = horizontal ? dstAlong * 4 : 4;
+
+  for (let line = 0; line < across; line++) {
+    const srcBase = line * srcLine;
+    const dstBase = line * dstLine;
+
+    for (let i = 0; i < dstAlong; i++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      const first = start[i] ?? 0;
+      const n = count[i] ?? 0;
+      for (let k = 0; k < n; k++) {
+        const w = weights[i * stride + k] ?? 0;
+        const p = srcBase + (first + k) * srcStep;
+        r += (src[p] ?? 0) * w;
+        g += (src[p + 1] ?? 0) * w;
+        b += (src[p + 2] ?? 0) * w;
+        a += (src[p + 3] ?? 0) * w;
+      }
+      const q = dstBase + i * dstStep;
+      out[q] = r;
+      out[q + 1] = g;
+      out[q + 2] = b;
+      out[q + 3] = a;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Resize a raster with a separable Lanczos3 or Mitchell filter. Works on
+ * premultiplied alpha so transparent pixels don't bleed their colour into
+ * the edges of opaque ones.
+ */
+export function resample(
+  src: Raster,
+  width: number,
+  height: number,
+  filter: ResamplingFilter
+): Raster {
+  if (src.width === width && src.height === height) return src;
+
+  const pixels = new Float32Array(src.width * src.height * 4);
+  const { data } = src;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = (data[i + 3] ?? 0) / 255;
+    pixels[i] = (data[i] ?? 0) * a;
+    pixels[i + 1] = (data[i + 1] ?? 0) * a;
+    pixels[i + 2] = (data[i + 2] ?? 0) * a;
+    pixels[i + 3] = data[i + 3] ?? 0;
+  }
+
+  // Do the pass that shrinks more first, to keep the intermediate small
+  let scaled: Float32Array;
+  if (width * src.height <= src.width * height) {
+    const wide = resampleAxis(pixels, src.width, src.height, width, true, filter);
+    scaled = resampleAxis(wide, src.height, width, height, false, filter);
+  } else {
+    const tall = resampleAxis(pixels, src.height, src.width, height, false, filter);
+    scaled = resampleAxis(tall, src.width, height, width, true, filter);
+  }
+
+  const out = createRaster(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const a = scaled[i + 3] ?? 0;
+    if (a <= 0) continue;
+    const unpremultiply = 255 / a;
+    out.data[i] = (scaled[i] ?? 0) * unpremultiply;
+    out.data[i + 1] = (scaled[i + 1] ?? 0) * unpremultiply;
+    out.data[i + 2] = (scaled[i + 2] ?? 0) * unpremultiply;
+    out.data[i + 3] = a;
+  }
+  return out;
+}
+
+/**
+ * Sharpen with an unsharp mask over a 3×3 Gaussian blur, in place.
+ * `amount` is 0–100; alpha is left alone.
+ */
+export function unsharpMask(raster: Raster, amount: number) {
+  if (amount <= 0) return;
+
+  const { width, height, data } = raster;
+  const strength = amount / 100;
+  const blurred = new Float32Array(width * height * 3);
+
+  // Horizontal then vertical [1 2 1] / 4 passes
+  const row = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const l = Math.max(0, x - 1);
+      const r = Math.min(width - 1, x + 1);
+      for (let c = 0; c < 3; c++) {
+        row[(y * width + x) * 3 + c] =
+          ((data[(y * width + l) * 4 + c] ?? 0) +
+            2 * (data[(y * width + x) * 4 + c] ?? 0) +
+            (data[(y * width + r) * 4 + c] ?? 0)) /
+          4;
+      }
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    const u = Math.max(0, y - 1);
+    const d = Math.min(height - 1, y + 1);
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        blurred[(y * width + x) * 3 + c] =
+          ((row[(u * width + x) * 3 + c] ?? 0) +
+            2 * (row[(y * width + x) * 3 + c] ?? 0) +
+            (row[(d * width + x) * 3 + c] ?? 0)) /
+          4;
+      }
+    }
+  }
+
+  for (let p = 0; p < width * height; p++) {
+    for (let c = 0; c < 3; c++) {
+      const value = data[p * 4 + c] ?? 0;
+      data[p * 4 + c] = value + (value - (blurred[p * 3 + c] ?? 0)) * strength;
+    }
+  }
+}
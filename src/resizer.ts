@@ -1,60 +1,113 @@
 import type { ImageResizerSettings } from "./settings";
+import {
+  ENCODE_FORMAT_LABELS,
+  EncodeFormat,
+  SourceFormat,
+  alwaysConverts,
+  canEncode,
+  keepsType,
+  mayHaveAlpha,
+  supportsAlpha,
+  getEncodeExtension,
+  getNativeFormat,
+  getSourceFormat,
+  getSourceMime,
+} from "./formats";
+import {
+  FlipAxis,
+  MetadataOutcome,
+  embedMetadata,
+  metadataOutcome,
+  orientedSize,
+  prepareMetadata,
+  readMetadata,
+  transformOrientation,
+  withoutOrientation,
+} from "./metadata";
+import { isAnimated, probeDimensions } from "./probe";
+import type { Codec, CropRect, DecodedImage } from "./codec";
+import { canvasCodec } from "./canvas";
+import { softwareCodec } from "./software";
+import { orientRaster } from "./raster";
+import { decodePng, encodePng } from "./png";
+import { estimateJpegQuality } from "./jpeg";
+import { quantizeRaster } from "./quantize";
+import { decodeTiff } from "./tiff";
+import { resizeAnimatedWebp, resizeGif } from "./animation";
 
-const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "webp", "bmp"]);
-
+/**
+ * True for every raster type the plugin handles. SVG isn't one of them:
+ * vector images are never rasterized.
+ */
 export function isImageFile(filename: string): boolean {
-  const ext = filename.split(".").pop()?.toLowerCase() ?? "";
-  return IMAGE_EXTENSIONS.has(ext);
+  return getSourceFormat(getExtension(filename)) !== null;
 }
 
 export function getExtension(filename: string): string {
   return filename.split(".").pop()?.toLowerCase() ?? "";
 }
 
-interface ResizeResult {
+/**
+ * How transparency was handled when converting to a format without alpha.
+ * - `opaque`: no transparent pixels, converted as configured
+ * - `kept`: transparent, left in its original format
+ * - `webp`: transparent, saved as WebP with alpha instead
+ * - `flattened`: composited onto the background colour and converted
+ */
+export type AlphaHandling = "opaque" | "kept" | "webp" | "flattened";
+
+/**
+ * A change asked for on one image, made whether or not it is within the
+ * limits. The image keeps its size unless `scale` or `fit` is set; other
+ * unset fields fall back to the settings.
+ */
+export interface ImageEdit {
+  /** Fraction of the current size. */
+  scale?: number;
+  /** Box to fit within, without enlarging. */
+  fit?: { width: number; height: number };
+  /** Quarter turns clockwise. */
+  turns?: number;
+  flip?: FlipAxis;
+  /** Part to keep, after turning and flipping; any size applies to it. */
+  crop?: CropRect;
+  /** Output format, instead of the output format policy. */
+  format?: EncodeFormat;
+  /** Quality for lossy output, instead of the configured one. */
+  quality?: number;
+}
+
+export interface ResizeResult {
   data: ArrayBuffer;
   width: number;
   height: number;
   originalWidth: number;
   originalHeight: number;
-  newExtension: string | null; // non-null if the file extension changed (e.g. png -> jpg)
+  newExtension: string | null; // non-null if the file extension changed (e.g. png -> webp)
+  format: EncodeFormat;
+  alpha: AlphaHandling | null; // null unless converting to a format without alpha
+  attempts: number; // encodes it took to reach the target file size (1 if not targeting a size)
+  quality: number | null; // final encoder quality (1–100), null for PNG
+  metadata: MetadataOutcome;
+  optimized: boolean; // true if only recompressed, at the original dimensions
 }
 
 /**
- * Loads image bytes into an HTMLImageElement via a blob URL.
+ * How much quality drops per attempt when aiming for a target file size.
  */
-function loadImage(data: ArrayBuffer, mimeType: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const blob = new Blob([data], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const img = new Image();
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(img);
-    };
-    img.onerror = (err) => {
-      URL.revokeObjectURL(url);
-      reject(new Error(`Failed to load image: ${err}`));
-    };
-    img.src = url;
-  });
-}
+const QUALITY_STEP = 10;
+
+/**
+ * How much the dimensions shrink per attempt once quality hits its floor.
+ */
+const SCALE_STEP = 0.85;
+
+/**
+ * How far above the configured quality a JPEG within limits has to be
+ * saved at before the optimize pass re-encodes it.
+ */
+const REENCODE_QUALITY_MARGIN = 10;
 
-function getMimeType(ext: string): string {
-  switch (ext) {
-    case "png":
-      return "image/png";
-    case "jpg":
-    case "jpeg":
-      return "image/jpeg";
-    case "webp":
-      return "image/webp";
-    case "bmp":
-      return "image/bmp";
-    default:
-      return "image/png";
-  }
-}
 
 /**
  * Calculate new dimensions maintaining aspect ratio.
@@ -88,76 +141,689 @@ function calculateDimensions(
 }
 
 /**
- * Resize an image if it exceeds the configured maximum dimensions.
- * Returns null if no resize was needed.
+ * True if `format` can be written: by the runtime's canvas, the selected
+ * codec, or (for GIF) the bundled GIF encoder.
  */
-export async function resizeImage(
+function canWrite(format: EncodeFormat, settings: ImageResizerSettings): boolean {
+  return (
+    format === "gif" ||
+    canEncode(format) ||
+    (settings.codec === "software" && softwareCodec.canEncode(format))
+  );
+}
+
+/**
+ * Decide what a still image with extension `ext` is encoded as, per the
+ * output format policy. Falls back to the native format when the chosen
+ * one can't be written, and from there to PNG.
+ */
+export function resolveOutputFormat(
+  ext: string,
+  settings: ImageResizerSettings
+): EncodeFormat {
+  const source = getSourceFormat(ext);
+  if (!source) return "png";
+
+  const native = canWrite(getNativeFormat(source), settings) ? getNativeFormat(source) : "png";
+  const choice = settings.outputFormats[source];
+  if (choice === "keep") return native;
+  return canWrite(choice, settings) ? choice : native;
+}
+
+/**
+ * True if writing `format` keeps the file type of a `source` image, so
+ * the file doesn't need renaming.
+ */
+export function isSameType(source: SourceFormat | null, format: EncodeFormat): boolean {
+  return source !== null && keepsType(source) && getNativeFormat(source) === format;
+}
+
+/**
+ * One-line description of any format change or transparency handling, for
+ * the resize notice. Returns null if the format didn't change.
+ */
+export function describeOutput(result: ResizeResult): string | null {
+  const label = ENCODE_FORMAT_LABELS[result.format];
+  switch (result.alpha) {
+    case "opaque":
+      return `No transparency — converted to ${label}`;
+    case "kept":
+      return `Has transparency — kept as ${label}`;
+    case "webp":
+      return "Has transparency — saved as WebP with alpha";
+    case "flattened":
+      return `Transparency flattened onto background — converted to ${label}`;
+    case null:
+      return result.newExtension ? `Saved as ${label}` : null;
+  }
+}
+
+/**
+ * Configured encoder quality (1–100) for a lossy format, or null for PNG.
+ */
+function getQuality(
+  format: EncodeFormat,
+  settings: ImageResizerSettings
+): number | null {
+  switch (format) {
+    case "png":
+      return null;
+    case "jpeg":
+      return settings.jpegQuality;
+    case "webp":
+      return settings.webpQuality;
+    case "avif":
+      return settings.avifQuality;
+    case "gif":
+      return null;
+  }
+}
+
+/**
+ * What a resize would do to an image, estimated without decoding it.
+ */
+export interface ResizePlan {
+  width: number;
+  height: number;
+  bytes: number;
+  newWidth: number;
+  newHeight: number;
+  estimatedBytes: number;
+  format: EncodeFormat;
+  newExtension: string | null;
+  /** True if the format change only happens when the image has no transparency. */
+  dependsOnAlpha: boolean;
+  /** True if the image is within limits and would only be recompressed. */
+  optimize: boolean;
+  /** True if the file is left alone and only its embeds get a display width. */
+  display: boolean;
+}
+
+/**
+ * Rough bits per pixel of each lossy encoder at quality 85, for estimates.
+ */
+const ESTIMATED_BITS_PER_PIXEL: Record<Exclude<EncodeFormat, "png">, number> = {
+  jpeg: 1.8,
+  webp: 1.2,
+  avif: 0.8,
+  gif: 2,
+};
+
+/**
+ * True if the optimize pass would try an image within limits: any PNG,
+ * and JPEGs saved well above the configured quality.
+ */
+function shouldOptimize(
+  data: ArrayBuffer,
+  ext: string,
+  settings: ImageResizerSettings
+): boolean {
+  if (!settings.optimize) return false;
+  const source = getSourceFormat(ext);
+  if (source === "png") return true;
+  if (source !== "jpg") return false;
+
+  const quality = estimateJpegQuality(new Uint8Array(data));
+  return quality !== null && quality > settings.jpegQuality + REENCODE_QUALITY_MARGIN;
+}
+
+/**
+ * Work out what `resizeImage` would do to an image from its header alone:
+ * the planned dimensions, output format and an estimated size. Returns
+ * null if it would be left alone. The estimate scales the current bytes
+ * by the pixel count when the format stays the same, and uses typical
+ * bits-per-pixel figures when it changes. Images that would only be
+ * optimized keep their current size as the estimate, since the savings
+ * can't be known without encoding them. An `edit` is planned for its size
+ * and format only.
+ */
+export async function planResize(
   data: ArrayBuffer,
   filename: string,
+  settings: ImageResizerSettings,
+  edit: ImageEdit | null = null
+): Promise<ResizePlan | null> {
+  const ext = getExtension(filename);
+  const dims = probeDimensions(data);
+  if (!dims) {
+    throw new Error(`Could not read the dimensions of ${filename}`);
+  }
+
+  const source = getSourceFormat(ext);
+  if (!source) return null;
+
+  const meta = await readMetadata(data);
+  const original = orientedSize(dims.width, dims.height, meta.orientation);
+
+  // Display sizing leaves the file alone, so it works for any image
+  if (settings.resizeMode === "display" && !edit) {
+    const display = calculateDimensions(
+      original.width,
+      original.height,
+      settings.maxWidth,
+      settings.maxHeight
+    );
+    if (!display) return null;
+    return {
+      width: original.width,
+      height: original.height,
+      bytes: data.byteLength,
+      newWidth: display.width,
+      newHeight: display.height,
+      estimatedBytes: data.byteLength,
+      format: getNativeFormat(source),
+      newExtension: null,
+      dependsOnAlpha: false,
+      optimize: false,
+      display: true,
+    };
+  }
+
+  const animated = isAnimated(data);
+  if (animated && (settings.animatedImages === "skip" || edit?.format)) return null;
+
+  // Animations are only resized to fit the dimension limits
+  const targetBytes = animated || edit ? 0 : settings.targetFileSizeKB * 1024;
+  const overTarget = targetBytes > 0 && data.byteLength > targetBytes;
+  const limitedDims = targetSize(original, settings, edit);
+  if (edit && editKeepsImage(edit, original, limitedDims)) return null;
+  const newDims =
+    limitedDims ?? (overTarget || edit || alwaysConverts(source) ? original : null);
+  if (!newDims) {
+    if (!shouldOptimize(data, ext, settings)) return null;
+    return {
+      width: original.width,
+      height: original.height,
+      bytes: data.byteLength,
+      newWidth: original.width,
+      newHeight: original.height,
+      estimatedBytes: data.byteLength,
+      format: getNativeFormat(source),
+      newExtension: null,
+      dependsOnAlpha: false,
+      optimize: true,
+      display: false,
+    };
+  }
+
+  const format =
+    edit?.format ?? (animated ? getNativeFormat(source) : resolveOutputFormat(ext, settings));
+  const dependsOnAlpha =
+    mayHaveAlpha(source) &&
+    !supportsAlpha(format) &&
+    settings.transparentImages !== "flatten" &&
+    !edit?.format;
+
+  const sameType = isSameType(source, format);
+  const newExtension = sameType ? null : getEncodeExtension(format);
+
+  const pixelRatio =
+    (newDims.width * newDims.height) / Math.max(1, original.width * original.height);
+
+  let estimatedBytes: number;
+  if (sameType || format === "png") {
+    estimatedBytes = data.byteLength * pixelRatio;
+  } else {
+    const quality = (getQuality(format, settings) ?? 85) / 85;
+    estimatedBytes =
+      (newDims.width * newDims.height * ESTIMATED_BITS_PER_PIXEL[format] * quality) / 8;
+  }
+  if (targetBytes > 0) {
+    estimatedBytes = Math.min(estimatedBytes, targetBytes);
+  }
+
+  return {
+    width: original.width,
+    height: original.height,
+    bytes: data.byteLength,
+    newWidth: newDims.width,
+    newHeight: newDims.height,
+    estimatedBytes: Math.round(estimatedBytes),
+    format,
+    newExtension,
+    dependsOnAlpha,
+    optimize: false,
+    display: false,
+  };
+}
+
+/**
+ * Size the image in `data` would be resized to under `settings`, taking
+ * its orientation into account. Returns null if it is within the limits.
+ */
+export async function limitedSize(
+  data: ArrayBuffer,
   settings: ImageResizerSettings
+): Promise<{ width: number; height: number } | null> {
+  const dims = probeDimensions(data);
+  if (!dims) {
+    throw new Error("Could not read the image dimensions");
+  }
+  const meta = await readMetadata(data);
+  const original = orientedSize(dims.width, dims.height, meta.orientation);
+  return calculateDimensions(original.width, original.height, settings.maxWidth, settings.maxHeight);
+}
+
+/**
+ * Resize an image if it exceeds the configured maximum dimensions or, when
+ * a target file size is set, the target size. Images within limits go
+ * through the optimize pass when it's on. Returns null if the image was
+ * left alone. Uses the software codec when it's selected and handles
+ * both the input and output formats, and the canvas otherwise.
+ *
+ * With an `edit`, the image is always re-encoded with that change made,
+ * and the target file size and optimize pass don't apply.
+ */
+export async function resizeImage(
+  data: ArrayBuffer,
+  filename: string,
+  settings: ImageResizerSettings,
+  edit: ImageEdit | null = null
 ): Promise<ResizeResult | null> {
   const ext = getExtension(filename);
-  const mimeType = getMimeType(ext);
-  const img = await loadImage(data, mimeType);
-
-  const newDims = calculateDimensions(
-    img.naturalWidth,
-    img.naturalHeight,
-    settings.maxWidth,
-    settings.maxHeight
-  );
+  const source = getSourceFormat(ext);
+  if (!source) {
+    throw new Error(`Images of type .${ext} aren't supported`);
+  }
 
-  // Image is within bounds — no resize needed
-  if (!newDims) {
-    return null;
+  const outputFormat = edit?.format ?? resolveOutputFormat(ext, settings);
+  if (!canWrite(outputFormat, settings)) {
+    throw new Error(`This device can't encode ${ENCODE_FORMAT_LABELS[outputFormat]} images`);
+  }
+
+  const animated = isAnimated(data);
+  if (animated || outputFormat === "gif") {
+    if (edit && (edit.turns || edit.flip || edit.crop || (animated && edit.format))) {
+      throw new Error("Animated images and GIFs can only be resized");
+    }
+    if (animated && !edit && settings.animatedImages !== "frames") return null;
+    return resizeFrames(data, source, settings, edit);
   }
 
-  // Draw resized image to canvas
-  const canvas = document.createElement("canvas");
-  canvas.width = newDims.width;
-  canvas.height = newDims.height;
+  // Browsers can't decode TIFF, so it's unpacked to PNG first
+  const input = source === "tiff" ? await tiffToPng(data) : data;
+  const mimeType = source === "tiff" ? "image/png" : getSourceMime(source);
 
-  const ctx = canvas.getContext("2d");
-  if (!ctx) {
-    throw new Error("Failed to get canvas 2D context");
+  const run = (format: EncodeFormat, optimize: boolean) =>
+    settings.codec === "software" &&
+    softwareCodec.canDecode(mimeType) &&
+    softwareCodec.canEncode(format)
+      ? resizeWith(softwareCodec, input, mimeType, source, format, settings, optimize, edit)
+      : resizeWith(canvasCodec, input, mimeType, source, format, settings, optimize, edit);
+
+  const result = await run(outputFormat, false);
+  if (result || edit || !shouldOptimize(data, ext, settings)) return result;
+
+  // Optimizing never changes the format
+  return getSourceFormat(ext) === "png" ? optimizePng(data, settings) : run("jpeg", true);
+}
+
+/**
+ * Draw an image at `width`×`height` in its displayed orientation, over
+ * white, for comparing images by what they show. Returns straight RGBA
+ * pixels. Animated images give their first frame.
+ */
+export async function sampleImage(
+  data: ArrayBuffer,
+  filename: string,
+  settings: ImageResizerSettings,
+  width: number,
+  height: number
+): Promise<Uint8ClampedArray> {
+  const ext = getExtension(filename);
+  const source = getSourceFormat(ext);
+  if (!source) {
+    throw new Error(`Images of type .${ext} aren't supported`);
   }
 
-  // Use high-quality downscaling
-  ctx.imageSmoothingEnabled = true;
-  ctx.imageSmoothingQuality = "high";
-  ctx.drawImage(img, 0, 0, newDims.width, newDims.height);
+  const input = source === "tiff" ? await tiffToPng(data) : data;
+  const mimeType = source === "tiff" ? "image/png" : getSourceMime(source);
+  return settings.codec === "software" && softwareCodec.canDecode(mimeType)
+    ? sampleWith(softwareCodec, input, mimeType, width, height)
+    : sampleWith(canvasCodec, input, mimeType, width, height);
+}
+
+async function sampleWith<Image extends DecodedImage, Surface>(
+  codec: Codec<Image, Surface>,
+  data: ArrayBuffer,
+  mimeType: string,
+  width: number,
+  height: number
+): Promise<Uint8ClampedArray> {
+  const meta = await readMetadata(data);
+  const img = await codec.decode(withoutOrientation(data, meta), mimeType, false);
+  try {
+    const surface = codec.draw(img, width, height, {
+      orientation: meta.orientation,
+      crop: null,
+      background: "#ffffff",
+      filter: "mitchell",
+      sharpen: 0,
+    });
+    return codec.pixels(surface);
+  } finally {
+    img.close();
+  }
+}
 
-  // Determine output format
-  let outputMime = mimeType;
-  let newExtension: string | null = null;
+/**
+ * `crop` rounded to whole pixels and kept inside an image of `size`.
+ */
+function clampCrop(crop: CropRect, size: { width: number; height: number }): CropRect {
+  const x = Math.min(Math.max(0, Math.round(crop.x)), size.width - 1);
+  const y = Math.min(Math.max(0, Math.round(crop.y)), size.height - 1);
+  return {
+    x,
+    y,
+    width: Math.min(Math.max(1, Math.round(crop.width)), size.width - x),
+    height: Math.min(Math.max(1, Math.round(crop.height)), size.height - y),
+  };
+}
 
-  if (settings.convertToJpeg && ext === "png") {
-    outputMime = "image/jpeg";
-    newExtension = "jpg";
+/**
+ * Size to resize an image of `size` to: what `edit` asks for, or else the
+ * dimension limits. Returns null if it is within them, or if `edit`
+ * doesn't change the size.
+ */
+function targetSize(
+  size: { width: number; height: number },
+  settings: ImageResizerSettings,
+  edit: ImageEdit | null
+): { width: number; height: number } | null {
+  if (edit?.scale) {
+    return {
+      width: Math.max(1, Math.round(size.width * edit.scale)),
+      height: Math.max(1, Math.round(size.height * edit.scale)),
+    };
+  }
+  if (edit?.fit) {
+    return calculateDimensions(size.width, size.height, edit.fit.width, edit.fit.height);
   }
+  if (edit) return null;
+  return calculateDimensions(size.width, size.height, settings.maxWidth, settings.maxHeight);
+}
 
-  // Export from canvas
-  const quality = outputMime === "image/png" ? undefined : settings.jpegQuality / 100;
+/**
+ * True if `edit` would leave an image of `size` as it is: it only asks
+ * for a size, and `newSize`, the size it works out to, is the same or
+ * null.
+ */
+function editKeepsImage(
+  edit: ImageEdit,
+  size: { width: number; height: number },
+  newSize: { width: number; height: number } | null
+): boolean {
+  const sameSize = !newSize || (newSize.width === size.width && newSize.height === size.height);
+  return (
+    sameSize &&
+    (edit.turns ?? 0) % 4 === 0 &&
+    !edit.flip &&
+    !edit.crop &&
+    !edit.format &&
+    edit.quality === undefined
+  );
+}
 
-  const blob: Blob = await new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (b) => {
-        if (b) resolve(b);
-        else reject(new Error("Canvas toBlob returned null"));
-      },
-      outputMime,
-      quality
-    );
-  });
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+/**
+ * Decode a TIFF and re-encode it as a quick PNG with its orientation
+ * applied, for the codecs to take from there. TIFF metadata isn't kept.
+ */
+async function tiffToPng(data: ArrayBuffer): Promise<ArrayBuffer> {
+  const { raster, orientation } = await decodeTiff(new Uint8Array(data));
+  return toArrayBuffer(await encodePng(orientRaster(raster, orientation), false));
+}
+
+/**
+ * Resize every frame of an animated GIF or WebP, or a still GIF that is
+ * kept as a GIF, to fit the dimension limits or the size `edit` asks for.
+ * The format never changes, metadata is dropped and the target file size
+ * doesn't apply.
+ */
+async function resizeFrames(
+  data: ArrayBuffer,
+  source: SourceFormat,
+  settings: ImageResizerSettings,
+  edit: ImageEdit | null
+): Promise<ResizeResult | null> {
+  const dims = probeDimensions(data);
+  if (!dims) {
+    throw new Error("Could not read the image dimensions");
+  }
+  const newDims = targetSize(dims, settings, edit);
+  if (!newDims || (edit && editKeepsImage(edit, dims, newDims))) return null;
 
-  const resizedBuffer = await blob.arrayBuffer();
+  const format = getNativeFormat(source);
+  const output =
+    format === "gif"
+      ? resizeGif(data, newDims.width, newDims.height, settings)
+      : await resizeAnimatedWebp(data, newDims.width, newDims.height, settings);
 
   return {
-    data: resizedBuffer,
+    data: toArrayBuffer(output),
     width: newDims.width,
     height: newDims.height,
-    originalWidth: img.naturalWidth,
-    originalHeight: img.naturalHeight,
-    newExtension,
+    originalWidth: dims.width,
+    originalHeight: dims.height,
+    newExtension: null,
+    format,
+    alpha: null,
+    attempts: 1,
+    quality: getQuality(format, settings),
+    metadata: metadataOutcome(await readMetadata(data), null),
+    optimized: false,
   };
 }
+
+/**
+ * Smallest size a recompressed image within limits may have to be kept.
+ */
+function optimizeLimit(data: ArrayBuffer, settings: ImageResizerSettings): number {
+  return data.byteLength * (1 - settings.optimizeMinSavings / 100);
+}
+
+/**
+ * Recompress a PNG within limits with the optimising encoder, dropping
+ * ancillary chunks (metadata is copied back per the metadata policy) and
+ * optionally reducing it to a palette. PNG always goes through the
+ * software codec here, since the canvas encoder can't do any of this.
+ */
+async function optimizePng(
+  data: ArrayBuffer,
+  settings: ImageResizerSettings
+): Promise<ResizeResult | null> {
+  const meta = await readMetadata(data);
+  const raster = orientRaster(await decodePng(new Uint8Array(data)), meta.orientation);
+  if (settings.quantizePng) {
+    quantizeRaster(raster);
+  }
+
+  const payload = await prepareMetadata(meta, settings.metadata, "png");
+  const output = embedMetadata(
+    await encodePng(raster, true),
+    "png",
+    payload,
+    raster.width,
+    raster.height
+  );
+  if (output.length > optimizeLimit(data, settings)) return null;
+
+  return {
+    data: toArrayBuffer(output),
+    width: raster.width,
+    height: raster.height,
+    originalWidth: raster.width,
+    originalHeight: raster.height,
+    newExtension: null,
+    format: "png",
+    alpha: null,
+    attempts: 1,
+    quality: null,
+    metadata: metadataOutcome(meta, payload),
+    optimized: true,
+  };
+}
+
+/**
+ * Decode, scale and encode an image of type `source` with `codec`. With
+ * `optimize`, an image within limits is re-encoded at its own size, and
+ * only kept if it is smaller by the configured margin. With an `edit`,
+ * it is re-encoded with that change made, whatever its size.
+ */
+async function resizeWith<Image extends DecodedImage, Surface>(
+  codec: Codec<Image, Surface>,
+  data: ArrayBuffer,
+  mimeType: string,
+  source: SourceFormat,
+  outputFormat: EncodeFormat,
+  settings: ImageResizerSettings,
+  optimize: boolean,
+  edit: ImageEdit | null
+): Promise<ResizeResult | null> {
+  // Read metadata before decoding, and decode with the orientation tag
+  // neutralised so every runtime hands back the stored pixels and the
+  // rotation can be applied explicitly
+  const meta = await readMetadata(data);
+  const img = await codec.decode(
+    withoutOrientation(data, meta),
+    mimeType,
+    settings.metadata !== "strip" && meta.icc !== null
+  );
+  const original = orientedSize(img.width, img.height, meta.orientation);
+
+  // Rotating and flipping are folded into the orientation the image is
+  // drawn with
+  const orientation = edit
+    ? transformOrientation(meta.orientation, edit.turns ?? 0, edit.flip ?? null)
+    : meta.orientation;
+  const turned = orientedSize(img.width, img.height, orientation);
+  const crop = edit?.crop ? clampCrop(edit.crop, turned) : null;
+  const edited = crop ?? turned;
+
+  try {
+    // The optimize pass only runs once the target size has been tried
+    const targetBytes = optimize || edit ? 0 : settings.targetFileSizeKB * 1024;
+    const overTarget = targetBytes > 0 && data.byteLength > targetBytes;
+
+    // An image within the dimension limits still gets re-encoded if it is
+    // over the target file size
+    const limitedDims = targetSize(edited, settings, edit);
+    if (edit && editKeepsImage(edit, edited, limitedDims)) return null;
+    const newDims =
+      limitedDims ??
+      (overTarget || optimize || edit || alwaysConverts(source) ? edited : null);
+
+    // Image is within bounds — no resize needed
+    if (!newDims) {
+      return null;
+    }
+
+    const drawOptions = {
+      orientation,
+      crop,
+      background: null as string | null,
+      filter: settings.resampling,
+      sharpen: settings.sharpenAmount,
+    };
+
+    // Draw the resized image
+    let surface = codec.draw(img, newDims.width, newDims.height, drawOptions);
+
+    let format = outputFormat;
+    let alpha: AlphaHandling | null = null;
+
+    // Converting to a format without alpha would turn transparent areas
+    // black, so check the pixels before going ahead
+    if (mayHaveAlpha(source) && !supportsAlpha(format)) {
+      if (!codec.hasTransparency(surface)) {
+        alpha = "opaque";
+      } else if (settings.transparentImages === "flatten" || edit?.format) {
+        // A format picked by hand is kept, so transparency has to go
+        codec.flatten(surface, settings.backgroundColor);
+        drawOptions.background = settings.backgroundColor;
+        alpha = "flattened";
+      } else if (settings.transparentImages === "webp" && codec.canEncode("webp")) {
+        format = "webp";
+        alpha = "webp";
+      } else {
+        // A still GIF keeps its transparency as PNG
+        const native = getNativeFormat(source);
+        format = codec.canEncode(native) ? native : "png";
+        alpha = "kept";
+      }
+    }
+
+    // BMP, TIFF and HEIC can't be encoded, so even "keep" changes their type
+    const newExtension = isSameType(source, format) ? null : getEncodeExtension(format);
+
+    // Metadata to copy back into every encode, per the metadata policy
+    const payload = await prepareMetadata(meta, settings.metadata, format);
+
+    const configured = getQuality(format, settings);
+    let quality = configured !== null && edit?.quality ? edit.quality : configured;
+    let width = newDims.width;
+    let height = newDims.height;
+    let scale = 1;
+
+    const encode = async () => {
+      const bytes = await codec.encode(surface, format, quality);
+      return embedMetadata(bytes, format, payload, width, height);
+    };
+
+    let output = await encode();
+    let attempts = 1;
+
+    // Over the target size: step quality down first, then dimensions, until
+    // it fits or both floors are reached
+    while (targetBytes > 0 && output.length > targetBytes) {
+      if (quality !== null && quality > settings.minQuality) {
+        quality = Math.max(settings.minQuality, quality - QUALITY_STEP);
+      } else if (scale * SCALE_STEP >= settings.minScale / 100) {
+        scale *= SCALE_STEP;
+        width = Math.max(1, Math.round(newDims.width * scale));
+        height = Math.max(1, Math.round(newDims.height * scale));
+        surface = codec.draw(img, width, height, drawOptions);
+      } else {
+        break;
+      }
+
+      output = await encode();
+      attempts++;
+    }
+
+    // Re-encoding an image that was only over the size target is pointless
+    // if it didn't get any smaller
+    if (
+      !edit &&
+      !limitedDims &&
+      scale === 1 &&
+      !newExtension &&
+      output.length >= data.byteLength
+    ) {
+      return null;
+    }
+    if (optimize && output.length > optimizeLimit(data, settings)) {
+      return null;
+    }
+
+    return {
+      data: toArrayBuffer(output),
+      width,
+      height,
+      originalWidth: original.width,
+      originalHeight: original.height,
+      newExtension,
+      format,
+      alpha,
+      attempts,
+      quality,
+      metadata: metadataOutcome(meta, payload),
+      optimized: optimize,
+    };
+  } finally {
+    img.close();
+  }
+}
@@ -0,0 +1,138 @@
+import type { ImageResizerSettings } from "./settings";
+import type { OutputFormat } from "./formats";
+import type { ResizeMode } from "./links";
+import type { DuplicateCheck } from "./duplicates";
+
+/**
+ * Overrides of the global resize settings. Unset fields inherit the
+ * global value.
+ */
+export interface ResizeOverrides {
+  /** Never touch matching images. */
+  skip: boolean;
+  maxWidth?: number;
+  maxHeight?: number;
+  /** Quality for every lossy output format. */
+  quality?: number;
+  /** Output format for every input type. */
+  outputFormat?: OutputFormat;
+  mode?: ResizeMode;
+  duplicateCheck?: DuplicateCheck;
+}
+
+/**
+ * A path-scoped set of overrides.
+ */
+export interface ResizeRule extends ResizeOverrides {
+  /** Vault path glob, e.g. `Diagrams/**` or `Journal/attachments`. */
+  pattern: string;
+}
+
+/**
+ * Convert a path glob to a regular expression. `**` matches across
+ * folders, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob.charAt(i);
+    if (ch === "*") {
+      if (glob.charAt(i + 1) === "*") {
+        // "**/" also matches zero folders
+        if (glob.charAt(i + 2) === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i++;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * True if `path` matches `pattern` itself or lies inside a folder that
+ * matches it, so a plain folder path covers everything below it.
+ */
+export function matchesPattern(path: string, pattern: string): boolean {
+  const trimmed = pattern.trim().replace(/^\/+|\/+$/g, "");
+  if (!trimmed) return false;
+
+  const regex = globToRegExp(trimmed);
+  if (regex.test(path)) return true;
+
+  const parts = path.split("/");
+  for (let i = parts.length - 1; i > 0; i--) {
+    if (regex.test(parts.slice(0, i).join("/"))) return true;
+  }
+  return false;
+}
+
+/**
+ * First rule in list order whose pattern matches `path`.
+ */
+export function findRule(
+  rules: ResizeRule[],
+  path: string
+): ResizeRule | null {
+  return rules.find((rule) => matchesPattern(path, rule.pattern)) ?? null;
+}
+
+/**
+ * Apply `overrides` on top of `settings`. Returns null if they say to
+ * skip the image.
+ */
+export function applyOverrides(
+  settings: ImageResizerSettings,
+  overrides: ResizeOverrides | null
+): ImageResizerSettings | null {
+  if (!overrides) return settings;
+  if (overrides.skip) return null;
+
+  const format = overrides.outputFormat;
+
+  return {
+    ...settings,
+    maxWidth: overrides.maxWidth ?? settings.maxWidth,
+    maxHeight: overrides.maxHeight ?? settings.maxHeight,
+    resizeMode: overrides.mode ?? settings.resizeMode,
+    duplicateCheck: overrides.duplicateCheck ?? settings.duplicateCheck,
+    jpegQuality: overrides.quality ?? settings.jpegQuality,
+    webpQuality: overrides.quality ?? settings.webpQuality,
+    avifQuality: overrides.quality ?? settings.avifQuality,
+    outputFormats: format
+      ? {
+          png: format,
+          jpg: format,
+          webp: format,
+          bmp: format,
+          gif: format,
+          tiff: format,
+          heic: format,
+          avif: format,
+        }
+      : settings.outputFormats,
+  };
+}
+
+/**
+ * Settings to use for the image at `path`, with the first matching rule
+ * applied on top of the global settings. Returns null if a rule says to
+ * skip the image.
+ */
+export function resolveSettings(
+  settings: ImageResizerSettings,
+  path: string
+): ImageResizerSettings | null {
+  return applyOverrides(settings, findRule(settings.rules, path));
+}
@@ -0,0 +1,296 @@
+import type { ImageResizerSettings } from "./settings";
+import type { ResizeRule } from "./rules";
+import type { KeepOriginalsMode } from "./archive";
+import type { MetadataPolicy } from "./metadata";
+import { DEFAULT_SETTINGS } from "./settings";
+import { RESIZE_MODE_LABELS, ResizeMode } from "./links";
+import { DUPLICATE_CHECK_LABELS, DuplicateCheck } from "./duplicates";
+import {
+  CODEC_BACKEND_LABELS,
+  CodecBackend,
+  RESAMPLING_FILTER_LABELS,
+  ResamplingFilter,
+} from "./codec";
+import {
+  ANIMATION_POLICY_LABELS,
+  AnimationPolicy,
+  OUTPUT_FORMAT_LABELS,
+  OutputFormat,
+  SOURCE_FORMATS,
+  TransparencyPolicy,
+} from "./formats";
+
+/**
+ * Settings as saved, before they are checked.
+ */
+type StoredSettings = Record<string, unknown>;
+
+/**
+ * Steps that update saved settings to the next version, in order: the
+ * first turns settings saved before versions were recorded (version 0)
+ * into version 1. Each changes the object in place.
+ */
+const MIGRATIONS: ((settings: StoredSettings) => void)[] = [
+  // 1: the PNG → JPEG toggle became an output format per input type
+  (settings) => {
+    if (settings.convertToJpeg === true && !isRecord(settings.outputFormats)) {
+      settings.outputFormats = { png: "jpeg" };
+    }
+    delete settings.convertToJpeg;
+  },
+  // 2: the extensions to skip, which nothing read, became skip rules
+  (settings) => {
+    const extensions = settings.skipExtensions;
+    delete settings.skipExtensions;
+    if (!Array.isArray(extensions)) return;
+
+    const rules: unknown[] = Array.isArray(settings.rules) ? settings.rules : [];
+    for (const ext of extensions) {
+      const name = typeof ext === "string" ? ext.trim().replace(/^\./, "").toLowerCase() : "";
+      if (name) rules.push({ pattern: `**/*.${name}`, skip: true });
+    }
+    settings.rules = rules;
+  },
+];
+
+/**
+ * Version of the settings this build saves. Adding a migration bumps it.
+ */
+export const SETTINGS_VERSION = MIGRATIONS.length;
+
+/**
+ * The value to use for a saved option and, if it had to be changed, why.
+ */
+interface FieldResult<T> {
+  value: T;
+  problem?: string;
+}
+
+/**
+ * Checks a saved option against its type and allowed values. Anything
+ * unusable falls back to the default; numbers out of range are clamped.
+ */
+type Field<T> = (value: unknown, fallback: T) => FieldResult<T>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function integer(min: number, max: number): Field<number> {
+  return (value, fallback) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { value: fallback, problem: `was ${describeValue(value)}, not a number` };
+    }
+    const clamped = Math.min(max, Math.max(min, Math.round(value)));
+    return clamped === value
+      ? { value }
+      : {
+          value: clamped,
+          problem: `was ${value}, not a whole number from ${min} to ${max}; changed to ${clamped}`,
+        };
+  };
+}
+
+function boolean(): Field<boolean> {
+  return (value, fallback) =>
+    typeof value === "boolean"
+      ? { value }
+      : { value: fallback, problem: `was ${describeValue(value)}, not true or false` };
+}
+
+function text(pattern: RegExp | null = null, expected = "text"): Field<string> {
+  return (value, fallback) =>
+    typeof value === "string" && (!pattern || pattern.test(value))
+      ? { value }
+      : { value: fallback, problem: `was ${describeValue(value)}, not ${expected}` };
+}
+
+function choice<T extends string>(values: readonly T[]): Field<T> {
+  return (value, fallback) =>
+    values.includes(value as T)
+      ? { value: value as T }
+      : { value: fallback, problem: `was ${describeValue(value)}, not one of ${values.join(", ")}` };
+}
+
+const OUTPUT_FORMATS = Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[];
+const RESIZE_MODES = Object.keys(RESIZE_MODE_LABELS) as ResizeMode[];
+const DUPLICATE_CHECKS = Object.keys(DUPLICATE_CHECK_LABELS) as DuplicateCheck[];
+
+const outputFormat = choice(OUTPUT_FORMATS);
+
+const outputFormats: Field<ImageResizerSettings["outputFormats"]> = (value, fallback) => {
+  if (!isRecord(value)) {
+    return { value: { ...fallback }, problem: `was ${describeValue(value)}, not an object` };
+  }
+
+  const formats = { ...fallback };
+  const problems: string[] = [];
+  for (const source of SOURCE_FORMATS) {
+    if (value[source] === undefined) continue;
+    const result = outputFormat(value[source], fallback[source]);
+    formats[source] = result.value;
+    if (result.problem) problems.push(`${source} ${result.problem}`);
+  }
+  return { value: formats, problem: problems.length > 0 ? problems.join("; ") : undefined };
+};
+
+/**
+ * Check a rule, dropping optional fields that are invalid. Null if it
+ * has no pattern to match.
+ */
+function checkRule(value: unknown, problems: string[]): ResizeRule | null {
+  if (!isRecord(value) || typeof value.pattern !== "string") {
+    problems.push(`${describeValue(value)} has no pattern and was removed`);
+    return null;
+  }
+
+  const rule: ResizeRule = { pattern: value.pattern, skip: value.skip === true };
+  const optional = [
+    ["maxWidth", integer(0, 100000)],
+    ["maxHeight", integer(0, 100000)],
+    ["quality", integer(1, 100)],
+  ] as const;
+  for (const [key, field] of optional) {
+    if (value[key] === undefined) continue;
+    // Values that aren't numbers fall back to NaN, leaving the field unset
+    const result = field(value[key], NaN);
+    if (!Number.isNaN(result.value)) rule[key] = result.value;
+    if (result.problem) problems.push(`"${rule.pattern}" ${key} ${result.problem}`);
+  }
+  if (value.outputFormat !== undefined) {
+    if (OUTPUT_FORMATS.includes(value.outputFormat as OutputFormat)) {
+      rule.outputFormat = value.outputFormat as OutputFormat;
+    } else {
+      problems.push(`"${rule.pattern}" has unknown format ${describeValue(value.outputFormat)}`);
+    }
+  }
+  if (value.mode !== undefined) {
+    if (RESIZE_MODES.includes(value.mode as ResizeMode)) {
+      rule.mode = value.mode as ResizeMode;
+    } else {
+      problems.push(`"${rule.pattern}" has unknown mode ${describeValue(value.mode)}`);
+    }
+  }
+  if (value.duplicateCheck !== undefined) {
+    if (DUPLICATE_CHECKS.includes(value.duplicateCheck as DuplicateCheck)) {
+      rule.duplicateCheck = value.duplicateCheck as DuplicateCheck;
+    } else {
+      problems.push(
+        `"${rule.pattern}" has unknown duplicate check ${describeValue(value.duplicateCheck)}`
+      );
+    }
+  }
+  return rule;
+}
+
+const rules: Field<ResizeRule[]> = (value) => {
+  if (!Array.isArray(value)) {
+    return { value: [], problem: `was ${describeValue(value)}, not a list` };
+  }
+
+  const problems: string[] = [];
+  const checked: ResizeRule[] = [];
+  for (const item of value) {
+    const rule = checkRule(item, problems);
+    if (rule) checked.push(rule);
+  }
+  return { value: checked, problem: problems.length > 0 ? problems.join("; ") : undefined };
+};
+
+/**
+ * How each option is checked. Every option must have an entry, so a new
+ * one can't be loaded unchecked.
+ */
+const SCHEMA: { [K in keyof ImageResizerSettings]: Field<ImageResizerSettings[K]> } = {
+  maxWidth: integer(0, 100000),
+  maxHeight: integer(0, 100000),
+  resizeMode: choice(RESIZE_MODES),
+  jpegQuality: integer(1, 100),
+  webpQuality: integer(1, 100),
+  avifQuality: integer(1, 100),
+  outputFormats,
+  transparentImages: choice<TransparencyPolicy>(["keep", "webp", "flatten"]),
+  animatedImages: choice(Object.keys(ANIMATION_POLICY_LABELS) as AnimationPolicy[]),
+  backgroundColor: text(/^#[0-9a-f]{6}$/i, "a colour like #ffffff"),
+  targetFileSizeKB: integer(0, 1000000),
+  minQuality: integer(1, 100),
+  minScale: integer(10, 100),
+  optimize: boolean(),
+  quantizePng: boolean(),
+  optimizeMinSavings: integer(1, 50),
+  metadata: choice<MetadataPolicy>(["strip", "strip-location", "keep"]),
+  codec: choice(Object.keys(CODEC_BACKEND_LABELS) as CodecBackend[]),
+  resampling: choice(Object.keys(RESAMPLING_FILTER_LABELS) as ResamplingFilter[]),
+  sharpenAmount: integer(0, 100),
+  resizeOnPaste: boolean(),
+  normalizeHiDpi: boolean(),
+  resizeOnDrop: boolean(),
+  resizeOnImport: boolean(),
+  fileNameTemplate: text(/\S/, "a template"),
+  renameResized: boolean(),
+  duplicateCheck: choice(DUPLICATE_CHECKS),
+  showNotice: boolean(),
+  keepOriginals: choice<KeepOriginalsMode>(["off", "folder", "trash"]),
+  archiveFolder: text(/\S/, "a folder path"),
+  rules,
+};
+
+/**
+ * Settings and what had to be fixed to get them.
+ */
+export interface CheckedSettings {
+  settings: ImageResizerSettings;
+  /** One line per option that was reset, clamped or removed. */
+  problems: string[];
+}
+
+/**
+ * A deep copy of `settings`, so a profile and the live settings never
+ * share rules or format lists.
+ */
+export function cloneSettings(settings: ImageResizerSettings): ImageResizerSettings {
+  return JSON.parse(JSON.stringify(settings)) as ImageResizerSettings;
+}
+
+/**
+ * Check every option of settings saved at the current version. Missing
+ * options get their defaults, and unknown ones are removed.
+ */
+export function checkSettings(value: unknown): CheckedSettings {
+  const settings = cloneSettings(DEFAULT_SETTINGS);
+  if (value === undefined || value === null) return { settings, problems: [] };
+  if (!isRecord(value)) {
+    return { settings, problems: [`settings were ${describeValue(value)}, not an object`] };
+  }
+
+  const fields = settings as unknown as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!(key in SCHEMA)) {
+      problems.push(`${key} isn't an option and was removed`);
+      continue;
+    }
+    const field = SCHEMA[key as keyof ImageResizerSettings] as Field<unknown>;
+    const result = field(value[key], fields[key]);
+    fields[key] = result.value;
+    if (result.problem) problems.push(`${key} ${result.problem}`);
+  }
+  return { settings, problems };
+}
+
+/**
+ * Migrate settings saved at `version` and check them. Settings from a
+ * newer version are checked as they are, so options it added are lost.
+ */
+export function upgradeSettings(value: unknown, version: number): CheckedSettings {
+  if (isRecord(value)) {
+    for (let step = Math.max(0, version); step < MIGRATIONS.length; step++) {
+      MIGRATIONS[step]?.(value);
+    }
+  }
+  return checkSettings(value);
+}
@@ -1,28 +1,129 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, DropdownComponent, Notice, PluginSettingTab, Setting } from "obsidian";
 import type ImageResizerPlugin from "./main";
+import type { KeepOriginalsMode } from "./archive";
+import { RESIZE_MODE_LABELS, ResizeMode } from "./links";
+import type { ResizeRule } from "./rules";
+import type { MetadataPolicy } from "./metadata";
+import { DEFAULT_NAME_TEMPLATE } from "./naming";
+import { DUPLICATE_CHECK_LABELS, DuplicateCheck } from "./duplicates";
+import { ProfileNameModal, exportProfiles, parseProfiles } from "./profiles";
+import { describeError } from "./batch";
+import {
+  CODEC_BACKEND_LABELS,
+  CodecBackend,
+  RESAMPLING_FILTER_LABELS,
+  ResamplingFilter,
+} from "./codec";
+import {
+  ANIMATION_POLICY_LABELS,
+  AnimationPolicy,
+  OUTPUT_FORMAT_LABELS,
+  OutputFormat,
+  SOURCE_FORMATS,
+  SOURCE_FORMAT_LABELS,
+  SourceFormat,
+  TransparencyPolicy,
+  canEncode,
+} from "./formats";
 
 export interface ImageResizerSettings {
   maxWidth: number;
   maxHeight: number;
+  resizeMode: ResizeMode;
   jpegQuality: number;
-  convertToJpeg: boolean;
+  webpQuality: number;
+  avifQuality: number;
+  outputFormats: Record<SourceFormat, OutputFormat>;
+  transparentImages: TransparencyPolicy;
+  animatedImages: AnimationPolicy;
+  backgroundColor: string;
+  targetFileSizeKB: number;
+  minQuality: number;
+  minScale: number;
+  optimize: boolean;
+  quantizePng: boolean;
+  optimizeMinSavings: number;
+  metadata: MetadataPolicy;
+  codec: CodecBackend;
+  resampling: ResamplingFilter;
+  sharpenAmount: number;
   resizeOnPaste: boolean;
+  normalizeHiDpi: boolean;
   resizeOnDrop: boolean;
+  resizeOnImport: boolean;
+  fileNameTemplate: string;
+  renameResized: boolean;
+  duplicateCheck: DuplicateCheck;
   showNotice: boolean;
-  skipExtensions: string[];
+  keepOriginals: KeepOriginalsMode;
+  archiveFolder: string;
+  rules: ResizeRule[];
 }
 
 export const DEFAULT_SETTINGS: ImageResizerSettings = {
   maxWidth: 1920,
   maxHeight: 1080,
+  resizeMode: "pixels",
   jpegQuality: 85,
-  convertToJpeg: false,
+  webpQuality: 85,
+  avifQuality: 70,
+  outputFormats: {
+    png: "keep",
+    jpg: "keep",
+    webp: "keep",
+    bmp: "keep",
+    gif: "keep",
+    tiff: "jpeg",
+    heic: "jpeg",
+    avif: "keep",
+  },
+  transparentImages: "keep",
+  animatedImages: "skip",
+  backgroundColor: "#ffffff",
+  targetFileSizeKB: 0,
+  minQuality: 50,
+  minScale: 50,
+  optimize: false,
+  quantizePng: false,
+  optimizeMinSavings: 10,
+  metadata: "strip",
+  codec: "canvas",
+  resampling: "lanczos3",
+  sharpenAmount: 0,
   resizeOnPaste: true,
+  normalizeHiDpi: false,
   resizeOnDrop: true,
+  resizeOnImport: true,
+  fileNameTemplate: DEFAULT_NAME_TEMPLATE,
+  renameResized: false,
+  duplicateCheck: "off",
   showNotice: true,
-  skipExtensions: [],
+  keepOriginals: "off",
+  archiveFolder: "_originals",
+  rules: [],
 };
 
+/**
+ * Add the output format choices to a dropdown, marking ones this
+ * runtime can't encode.
+ */
+export function addOutputFormatOptions(dropdown: DropdownComponent): DropdownComponent {
+  for (const [format, label] of Object.entries(OUTPUT_FORMAT_LABELS)) {
+    const supported = format === "keep" || canEncode(format as Exclude<OutputFormat, "keep">);
+    dropdown.addOption(format, supported ? label : `${label} (unsupported here)`);
+  }
+  return dropdown;
+}
+
+/**
+ * Parse an optional non-negative integer field. Empty means "inherit".
+ */
+function parseOptionalInt(value: string): number | undefined | null {
+  if (value.trim() === "") return undefined;
+  const num = parseInt(value, 10);
+  return !isNaN(num) && num >= 0 ? num : null;
+}
+
 export class ImageResizerSettingTab extends PluginSettingTab {
   plugin: ImageResizerPlugin;
 
@@ -74,6 +175,25 @@ export class ImageResizerSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Resize mode")
+      .setDesc(
+        "Resize pixels rewrites images over the limits. Set display width leaves the file " +
+          "at full resolution for zooming, and gives the embeds showing it the width it " +
+          "would have been resized to instead."
+      )
+      .addDropdown((dropdown) => {
+        for (const [mode, label] of Object.entries(RESIZE_MODE_LABELS)) {
+          dropdown.addOption(mode, label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.resizeMode)
+          .onChange(async (value) => {
+            this.plugin.settings.resizeMode = value as ResizeMode;
+            await this.plugin.saveSettings();
+          });
+      });
+
     new Setting(containerEl)
       .setName("JPEG quality")
       .setDesc("Quality for JPEG output (1–100). Higher = better quality, larger file.")
@@ -89,19 +209,312 @@ export class ImageResizerSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Convert PNG to JPEG")
+      .setName("WebP quality")
+      .setDesc("Quality for WebP output (1–100).")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 100, 1)
+          .setValue(this.plugin.settings.webpQuality)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.webpQuality = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("AVIF quality")
+      .setDesc("Quality for AVIF output (1–100).")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 100, 1)
+          .setValue(this.plugin.settings.avifQuality)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.avifQuality = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Target file size").setHeading();
+
+    new Setting(containerEl)
+      .setName("Maximum file size")
       .setDesc(
-        "Convert PNG images to JPEG when resizing. Reduces file size but removes transparency."
+        "Target size per image in KB. Images over it are re-encoded at lower quality, " +
+          "then smaller dimensions, until they fit. Set to 0 to turn off."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.targetFileSizeKB))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.targetFileSizeKB = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Minimum quality")
+      .setDesc("Quality never drops below this when aiming for the target size.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 100, 1)
+          .setValue(this.plugin.settings.minQuality)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.minQuality = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Minimum scale")
+      .setDesc(
+        "Dimensions never shrink below this percentage of the size allowed by the limits above."
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(10, 100, 5)
+          .setValue(this.plugin.settings.minScale)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.minScale = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Optimization").setHeading();
+
+    new Setting(containerEl)
+      .setName("Optimize images within limits")
+      .setDesc(
+        "Recompress PNGs losslessly without extra chunks, and re-encode JPEGs saved at a much " +
+          "higher quality than configured above, even when they don't need resizing."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.optimize)
+          .onChange(async (value) => {
+            this.plugin.settings.optimize = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Reduce PNG colours")
+      .setDesc(
+        "Also convert optimized PNGs with more than 256 colours to a palette. " +
+          "Much smaller, but lossy; best for screenshots and diagrams."
       )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.convertToJpeg)
+          .setValue(this.plugin.settings.quantizePng)
+          .onChange(async (value) => {
+            this.plugin.settings.quantizePng = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Minimum savings")
+      .setDesc("An optimized image is only kept if it's at least this many percent smaller.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 50, 1)
+          .setValue(this.plugin.settings.optimizeMinSavings)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.optimizeMinSavings = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Output format").setHeading();
+
+    containerEl.createEl("p", {
+      text:
+        "Format each type of image is saved as when it is resized. Formats the " +
+        "app can't encode fall back to keeping the original format. BMP, TIFF and " +
+        "HEIC can't be written, so keeping them saves PNG. TIFF and HEIC images are " +
+        "converted even when they are within the limits, since most apps can't show them. " +
+        "SVG images are never touched.",
+      cls: "setting-item-description",
+    });
+
+    for (const source of SOURCE_FORMATS) {
+      new Setting(containerEl)
+        .setName(`${SOURCE_FORMAT_LABELS[source]} images`)
+        .addDropdown((dropdown) =>
+          addOutputFormatOptions(dropdown)
+            .setValue(this.plugin.settings.outputFormats[source])
+            .onChange(async (value) => {
+              this.plugin.settings.outputFormats = {
+                ...this.plugin.settings.outputFormats,
+                [source]: value as OutputFormat,
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Animated images")
+      .setDesc(
+        "Animated GIFs and WebPs stay in their format either way; the output format " +
+          "above only applies to still ones. Resizing animated WebP needs a device " +
+          "that can decode its frames and encode WebP."
+      )
+      .addDropdown((dropdown) => {
+        for (const [policy, label] of Object.entries(ANIMATION_POLICY_LABELS)) {
+          dropdown.addOption(policy, label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.animatedImages)
+          .onChange(async (value) => {
+            this.plugin.settings.animatedImages = value as AnimationPolicy;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Transparent images")
+      .setDesc(
+        "What to do when an image with transparency would be converted to JPEG, which has no alpha channel."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("keep", "Keep original format")
+          .addOption("webp", "Save as WebP with alpha")
+          .addOption("flatten", "Flatten onto background colour")
+          .setValue(this.plugin.settings.transparentImages)
+          .onChange(async (value) => {
+            this.plugin.settings.transparentImages = value as TransparencyPolicy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Background colour")
+      .setDesc("Fill colour for transparent areas when flattening.")
+      .addColorPicker((picker) =>
+        picker
+          .setValue(this.plugin.settings.backgroundColor)
+          .onChange(async (value) => {
+            this.plugin.settings.backgroundColor = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Metadata")
+      .setDesc(
+        "What happens to EXIF data (capture date, camera, location) and the colour profile " +
+          "when an image is re-encoded. Photos are always rotated to their EXIF orientation. " +
+          "AVIF output never keeps metadata."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("strip", "Strip all metadata")
+          .addOption("strip-location", "Strip location only")
+          .addOption("keep", "Keep EXIF and colour profile")
+          .setValue(this.plugin.settings.metadata)
+          .onChange(async (value) => {
+            this.plugin.settings.metadata = value as MetadataPolicy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Resampling").setHeading();
+
+    new Setting(containerEl)
+      .setName("Image engine")
+      .setDesc(
+        "The built-in canvas is fastest and handles every format. The software engine " +
+          "gives sharper downscaling and identical output on every device, but only " +
+          "reads JPEG, PNG and BMP and only writes JPEG and PNG; other images still use the canvas."
+      )
+      .addDropdown((dropdown) => {
+        for (const [backend, label] of Object.entries(CODEC_BACKEND_LABELS)) {
+          dropdown.addOption(backend, label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.codec)
+          .onChange(async (value) => {
+            this.plugin.settings.codec = value as CodecBackend;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Resampling filter")
+      .setDesc("Filter the software engine scales with.")
+      .addDropdown((dropdown) => {
+        for (const [filter, label] of Object.entries(RESAMPLING_FILTER_LABELS)) {
+          dropdown.addOption(filter, label);
+        }
+        dropdown
+          .setValue(this.plugin.settings.resampling)
+          .onChange(async (value) => {
+            this.plugin.settings.resampling = value as ResamplingFilter;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Sharpen after downscaling")
+      .setDesc("Unsharp mask strength for the software engine (0 = off).")
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 100, 5)
+          .setValue(this.plugin.settings.sharpenAmount)
+          .setDynamicTooltip()
           .onChange(async (value) => {
-            this.plugin.settings.convertToJpeg = value;
+            this.plugin.settings.sharpenAmount = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl).setName("Behavior").setHeading();
+
+    new Setting(containerEl)
+      .setName("Keep originals")
+      .setDesc(
+        "Save the original image before it is overwritten. Originals in the archive folder can be restored later; ones in the system trash can only be recovered from the trash, not from this plugin."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("off", "Off")
+          .addOption("folder", "Archive folder")
+          .addOption("trash", "System trash")
+          .setValue(this.plugin.settings.keepOriginals)
+          .onChange(async (value) => {
+            this.plugin.settings.keepOriginals = value as KeepOriginalsMode;
             await this.plugin.saveSettings();
           })
       );
 
+    new Setting(containerEl)
+      .setName("Archive folder")
+      .setDesc(
+        "Vault folder for archived originals. Images inside it are never resized."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("_originals")
+          .setValue(this.plugin.settings.archiveFolder)
+          .onChange(async (value) => {
+            const folder = value.trim();
+            if (folder) {
+              this.plugin.settings.archiveFolder = folder;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     new Setting(containerEl)
       .setName("Resize on paste")
       .setDesc("Automatically resize images pasted into notes.")
@@ -115,8 +528,24 @@ export class ImageResizerSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Resize on drop/import")
-      .setDesc("Automatically resize images dragged or imported into the vault.")
+      .setName("Scale HiDPI screenshots to 1×")
+      .setDesc(
+        "Scale pasted screenshots from Retina and other HiDPI displays down by the pixel " +
+          "ratio first, so text keeps its on-screen size. Detected from a PNG's declared " +
+          "density or a size matching the screen. Dropped and imported images aren't affected."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.normalizeHiDpi)
+          .onChange(async (value) => {
+            this.plugin.settings.normalizeHiDpi = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Resize on drop")
+      .setDesc("Automatically resize images dragged into notes.")
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.resizeOnDrop)
@@ -126,6 +555,69 @@ export class ImageResizerSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Resize on external import")
+      .setDesc(
+        "Automatically resize images that arrive through sync, the file system or other plugins."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.resizeOnImport)
+          .onChange(async (value) => {
+            this.plugin.settings.resizeOnImport = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("File name template")
+      .setDesc(
+        "Name for pasted images, without the extension. Tokens: {{note}} for the note's name, " +
+          "{{date}} or {{date:YYYY-MM-DD}}, {{hash}} for a short hash of the image and {{n}} " +
+          "for a number that keeps the name unique."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_NAME_TEMPLATE)
+          .setValue(this.plugin.settings.fileNameTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.fileNameTemplate = value.trim() || DEFAULT_NAME_TEMPLATE;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Rename resized pastes and drops")
+      .setDesc(
+        "Also name images pasted or dropped into notes with the template once they are resized. " +
+          "Pastes at full size or with the editor always use it."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.renameResized)
+          .onChange(async (value) => {
+            this.plugin.settings.renameResized = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Detect duplicates")
+      .setDesc(
+        "Ask whether to keep both or use the existing image when a pasted, dropped or imported " +
+          "image is already in the vault. Similar images are compared once resized, against " +
+          "images the plugin has resized or indexed with the find duplicate images command."
+      )
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(DUPLICATE_CHECK_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown.setValue(this.plugin.settings.duplicateCheck).onChange(async (value) => {
+          this.plugin.settings.duplicateCheck = value as DuplicateCheck;
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(containerEl)
       .setName("Show notification")
       .setDesc("Show a notice when an image is resized.")
@@ -137,5 +629,314 @@ export class ImageResizerSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
+
+    this.displayRules(containerEl);
+    this.displayProfiles(containerEl);
+
+    new Setting(containerEl)
+      .setName("Reset to defaults")
+      .setDesc(
+        "Put every setting on this page back to its default, rules included. Profiles, " +
+          "archived originals and the history are kept, but the active profile is reset too."
+      )
+      .addButton((button) => {
+        let armed = false;
+        button
+          .setButtonText("Reset")
+          .setWarning()
+          .onClick(async () => {
+            // Ask for a second click rather than resetting by accident
+            if (!armed) {
+              armed = true;
+              button.setButtonText("Click again to reset");
+              return;
+            }
+            await this.plugin.resetSettings();
+            new Notice("Settings reset to their defaults.");
+            this.display();
+          });
+      });
+  }
+
+  /**
+   * Render the ordered list of per-path rules with add, remove and
+   * reorder controls.
+   */
+  private displayRules(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName("Rules").setHeading();
+
+    containerEl.createEl("p", {
+      text:
+        "Override the settings above for images whose vault path matches a glob, " +
+        "such as Diagrams/** or Journal/attachments. The first matching rule wins. " +
+        "Leave a field empty to inherit the global value.",
+      cls: "setting-item-description",
+    });
+
+    const rules = this.plugin.settings.rules;
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass("image-resizer-rule")
+        .addText((text) =>
+          text
+            .setPlaceholder("Folder/**")
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              await this.updateRule(index, { pattern: value.trim() });
+            })
+        )
+        .addText((text) => {
+          text.inputEl.addClass("image-resizer-rule-number");
+          text
+            .setPlaceholder("Width")
+            .setValue(rule.maxWidth !== undefined ? String(rule.maxWidth) : "")
+            .onChange(async (value) => {
+              const num = parseOptionalInt(value);
+              if (num !== null) await this.updateRule(index, { maxWidth: num });
+            });
+        })
+        .addText((text) => {
+          text.inputEl.addClass("image-resizer-rule-number");
+          text
+            .setPlaceholder("Height")
+            .setValue(rule.maxHeight !== undefined ? String(rule.maxHeight) : "")
+            .onChange(async (value) => {
+              const num = parseOptionalInt(value);
+              if (num !== null) await this.updateRule(index, { maxHeight: num });
+            });
+        })
+        .addText((text) => {
+          text.inputEl.addClass("image-resizer-rule-number");
+          text
+            .setPlaceholder("Quality")
+            .setValue(rule.quality !== undefined ? String(rule.quality) : "")
+            .onChange(async (value) => {
+              const num = parseOptionalInt(value);
+              if (num !== null && (num === undefined || (num >= 1 && num <= 100))) {
+                await this.updateRule(index, { quality: num });
+              }
+            });
+        })
+        .addDropdown((dropdown) =>
+          addOutputFormatOptions(dropdown.addOption("inherit", "Inherit format"))
+            .setValue(rule.outputFormat ?? "inherit")
+            .onChange(async (value) => {
+              await this.updateRule(index, {
+                outputFormat: value === "inherit" ? undefined : (value as OutputFormat),
+              });
+            })
+        )
+        .addDropdown((dropdown) => {
+          dropdown.addOption("inherit", "Inherit mode");
+          for (const [mode, label] of Object.entries(RESIZE_MODE_LABELS)) {
+            dropdown.addOption(mode, label);
+          }
+          dropdown.setValue(rule.mode ?? "inherit").onChange(async (value) => {
+            await this.updateRule(index, {
+              mode: value === "inherit" ? undefined : (value as ResizeMode),
+            });
+          });
+        })
+        .addDropdown((dropdown) => {
+          dropdown.addOption("inherit", "Inherit duplicates");
+          for (const [check, label] of Object.entries(DUPLICATE_CHECK_LABELS)) {
+            dropdown.addOption(check, label);
+          }
+          dropdown.setValue(rule.duplicateCheck ?? "inherit").onChange(async (value) => {
+            await this.updateRule(index, {
+              duplicateCheck: value === "inherit" ? undefined : (value as DuplicateCheck),
+            });
+          });
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Skip matching images")
+            .setValue(rule.skip)
+            .onChange(async (value) => {
+              await this.updateRule(index, { skip: value });
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              await this.moveRule(index, index - 1);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === rules.length - 1)
+            .onClick(async () => {
+              await this.moveRule(index, index + 1);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove rule")
+            .onClick(async () => {
+              this.plugin.settings.rules = rules.filter((_, i) => i !== index);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add rule").onClick(async () => {
+        this.plugin.settings.rules = [...rules, { pattern: "", skip: false }];
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  /**
+   * Render the saved profiles with controls to switch, save, rename,
+   * delete, export and import them.
+   */
+  private displayProfiles(containerEl: HTMLElement): void {
+    new Setting(containerEl).setName("Profiles").setHeading();
+
+    containerEl.createEl("p", {
+      text:
+        "Save every setting on this page, rules included, as a named profile to switch " +
+        "between from the status bar or the switch settings profile command. Changes made " +
+        "here are saved to the active profile.",
+      cls: "setting-item-description",
+    });
+
+    const { profiles, activeProfile } = this.plugin;
+    const names = profiles.map((profile) => profile.name);
+
+    new Setting(containerEl)
+      .setName("Active profile")
+      .setDesc("Switching loads the profile's settings.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "None");
+        for (const name of names) {
+          dropdown.addOption(name, name);
+        }
+        dropdown.setValue(activeProfile ?? "").onChange(async (value) => {
+          await this.plugin.switchProfile(value || null);
+          this.display();
+        });
+      });
+
+    for (const { name } of profiles) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(name === activeProfile ? "Active" : "")
+        .addExtraButton((button) =>
+          button
+            .setIcon("pencil")
+            .setTooltip("Rename profile")
+            .onClick(async () => {
+              const newName = await new ProfileNameModal(
+                this.app,
+                "Rename profile",
+                name,
+                names.filter((other) => other !== name)
+              ).choose();
+              if (!newName) return;
+              await this.plugin.renameProfile(name, newName);
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete profile")
+            .onClick(async () => {
+              await this.plugin.deleteProfile(name);
+              this.display();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button.setButtonText("Save as new profile").onClick(async () => {
+          const name = await new ProfileNameModal(this.app, "Save settings as profile", "", names)
+            .choose();
+          if (!name) return;
+          await this.plugin.saveProfile(name);
+          this.display();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Export profiles")
+          .setDisabled(profiles.length === 0)
+          .onClick(() => this.exportProfiles())
+      )
+      .addButton((button) =>
+        button.setButtonText("Import profiles").onClick(() => this.importProfiles())
+      );
+  }
+
+  /**
+   * Download the profiles as a JSON file for other vaults to import.
+   */
+  private exportProfiles() {
+    const blob = new Blob([exportProfiles(this.plugin.profiles)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "image-resizer-profiles.json";
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Ask for an exported JSON file and add its profiles, or none of them if
+   * any is invalid.
+   */
+  private importProfiles() {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (file) void this.importProfileFile(file);
+    });
+    input.click();
+  }
+
+  private async importProfileFile(file: File) {
+    try {
+      const imported = parseProfiles(await file.text());
+      await this.plugin.importProfiles(imported);
+      new Notice(`Imported ${imported.length} profile(s) from ${file.name}.`);
+    } catch (err) {
+      new Notice(`Couldn't import profiles: ${describeError(err)}.`, 8000);
+    }
+    this.display();
+  }
+
+  private async updateRule(index: number, patch: Partial<ResizeRule>) {
+    const rules = [...this.plugin.settings.rules];
+    const rule = rules[index];
+    if (!rule) return;
+
+    rules[index] = { ...rule, ...patch };
+    this.plugin.settings.rules = rules;
+    await this.plugin.saveSettings();
+  }
+
+  private async moveRule(from: number, to: number) {
+    const rules = [...this.plugin.settings.rules];
+    const [rule] = rules.splice(from, 1);
+    if (!rule || to < 0 || to > rules.length) return;
+
+    rules.splice(to, 0, rule);
+    this.plugin.settings.rules = rules;
+    await this.plugin.saveSettings();
+    this.display();
   }
 }
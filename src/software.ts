@@ -0,0 +1,96 @@
+import type { Codec, DecodedImage, DrawOptions } from "./codec";
+import type { EncodeFormat } from "./formats";
+import {
+  Raster,
+  cropRaster,
+  flattenRaster,
+  hasAlpha,
+  orientRaster,
+  resample,
+  unsharpMask,
+} from "./raster";
+import { decodeBmp } from "./bmp";
+import { compositeGif, readGif } from "./gif";
+import { decodeJpeg, encodeJpeg } from "./jpeg";
+import { decodePng, encodePng } from "./png";
+
+interface SoftwareImage extends DecodedImage {
+  raster: Raster;
+}
+
+const DECODABLE = new Set(["image/png", "image/jpeg", "image/bmp", "image/gif"]);
+
+async function decode(data: ArrayBuffer, mimeType: string): Promise<SoftwareImage> {
+  const bytes = new Uint8Array(data);
+  let raster: Raster;
+  switch (mimeType) {
+    case "image/png":
+      raster = await decodePng(bytes);
+      break;
+    case "image/jpeg":
+      raster = decodeJpeg(bytes);
+      break;
+    case "image/bmp":
+      raster = decodeBmp(bytes);
+      break;
+    case "image/gif": {
+      // Still GIFs only; animations are handled frame by frame elsewhere
+      const first = compositeGif(readGif(bytes)).next();
+      if (first.done) throw new Error("The GIF has no frames");
+      raster = first.value.raster;
+      break;
+    }
+    default:
+      throw new Error(`The software codec can't decode ${mimeType}`);
+  }
+  return { raster, width: raster.width, height: raster.height, close: () => undefined };
+}
+
+/**
+ * Orient and crop, then resample to the target size, then sharpen. Pixels
+ * stay in whatever colour space they were stored in.
+ */
+function draw(img: SoftwareImage, width: number, height: number, options: DrawOptions): Raster {
+  const oriented = cropRaster(orientRaster(img.raster, options.orientation), options.crop);
+  const scaled = resample(oriented, width, height, options.filter);
+
+  // resample hands back its input when the size doesn't change; don't
+  // sharpen or flatten the decoded image itself
+  const out = scaled === img.raster ? { ...scaled, data: scaled.data.slice() } : scaled;
+
+  if (width < oriented.width || height < oriented.height) {
+    unsharpMask(out, options.sharpen);
+  }
+  if (options.background) {
+    flattenRaster(out, options.background);
+  }
+  return out;
+}
+
+async function encode(raster: Raster, format: EncodeFormat, quality: number | null): Promise<Uint8Array> {
+  switch (format) {
+    case "jpeg":
+      return encodeJpeg(raster, quality ?? 85);
+    case "png":
+      return encodePng(raster, true);
+    default:
+      throw new Error(`The software codec can't encode ${format}`);
+  }
+}
+
+/**
+ * Bundled pure TypeScript codecs: Lanczos3 or Mitchell resampling with
+ * optional sharpening, a JPEG encoder with optimised Huffman tables and
+ * an optimising PNG encoder. Slower than the canvas but gives the same
+ * bytes on every platform, and runs without a DOM.
+ */
+export const softwareCodec: Codec<SoftwareImage, Raster> = {
+  canDecode: (mimeType) => DECODABLE.has(mimeType),
+  canEncode: (format) => format === "jpeg" || format === "png",
+  decode: (data, mimeType) => decode(data, mimeType),
+  draw,
+  hasTransparency: hasAlpha,
+  pixels: (raster) => raster.data,
+  flatten: flattenRaster,
+  encode,
+};
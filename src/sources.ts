@@ -0,0 +1,106 @@
+import type { Display } from "./hidpi";
+import { isImageFile } from "./resizer";
+
+/**
+ * How an image arrived in the vault.
+ * - `paste`: pasted into a note in the editor
+ * - `drop`: dragged into a note in the editor
+ * - `external`: created by sync, the file system or anything else
+ */
+export type ImageSource = "paste" | "drop" | "external";
+
+/**
+ * Where a newly created image came from, and the note and display it was
+ * pasted or dropped on (both null for external imports).
+ */
+export interface ImageOrigin {
+  source: ImageSource;
+  notePath: string | null;
+  display: Display | null;
+}
+
+export const EXTERNAL_ORIGIN: ImageOrigin = {
+  source: "external",
+  notePath: null,
+  display: null,
+};
+
+interface Expectation extends ImageOrigin {
+  remaining: number;
+  expires: number;
+}
+
+/**
+ * How long after a paste/drop event its files are still attributed to it.
+ */
+const EXPECTATION_WINDOW_MS = 5000;
+
+/**
+ * Count the image files carried by a clipboard or drag event.
+ */
+export function countImageFiles(data: DataTransfer | null): number {
+  if (!data) return 0;
+
+  let count = 0;
+  for (let i = 0; i < data.files.length; i++) {
+    const file = data.files[i];
+    // SVG is never resized, so it doesn't count
+    if (!file || file.type === "image/svg+xml") continue;
+    if (file.type.startsWith("image/") || isImageFile(file.name)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Remembers recent editor paste and drop events so the vault `create`
+ * events they cause can be attributed to them. Obsidian writes the
+ * attachment after the editor event fires and doesn't say which event a
+ * file came from, so files are matched to events in arrival order.
+ */
+export class SourceTracker {
+  private expected: Expectation[] = [];
+
+  /**
+   * Record that a paste or drop into `notePath`, on `display`, is about to
+   * create `count` image files.
+   */
+  expect(
+    source: Exclude<ImageSource, "external">,
+    count: number,
+    notePath: string | null,
+    display: Display
+  ) {
+    if (count <= 0) return;
+    this.expected.push({
+      source,
+      notePath,
+      display,
+      remaining: count,
+      expires: Date.now() + EXPECTATION_WINDOW_MS,
+    });
+  }
+
+  /**
+   * Attribute a newly created file to the oldest pending paste/drop, or to
+   * an external import if none is waiting.
+   */
+  take(): ImageOrigin {
+    const now = Date.now();
+    this.expected = this.expected.filter((e) => e.expires > now);
+
+    const next = this.expected[0];
+    if (!next) return EXTERNAL_ORIGIN;
+
+    next.remaining--;
+    if (next.remaining <= 0) {
+      this.expected.shift();
+    }
+    return { source: next.source, notePath: next.notePath, display: next.display };
+  }
+
+  clear() {
+    this.expected = [];
+  }
+}
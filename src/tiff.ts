@@ -0,0 +1,364 @@
+import { Raster, createRaster } from "./raster";
+import { inflate } from "./metadata";
+
+const TAG_WIDTH = 256;
+const TAG_HEIGHT = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_ORIENTATION = 274;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIG = 284;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_EXTRA_SAMPLES = 338;
+const TAG_SAMPLE_FORMAT = 339;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_PACKBITS = 32773;
+const COMPRESSION_DEFLATE_OLD = 32946;
+
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+const PHOTOMETRIC_SEPARATED = 5;
+
+const EXTRA_ASSOCIATED_ALPHA = 1;
+const EXTRA_UNASSOCIATED_ALPHA = 2;
+
+/**
+ * A decoded TIFF and its orientation tag, which lives in the image's own
+ * directory rather than an EXIF block.
+ */
+export interface TiffImage {
+  raster: Raster;
+  orientation: number;
+}
+
+/**
+ * Values of every tag in an image file directory.
+ */
+type Directory = Map<number, number[]>;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 6: 1, 7: 1, 8: 2, 9: 4 };
+
+function readDirectory(view: DataView, offset: number, le: boolean): Directory {
+  const dir: Directory = new Map();
+  const count = view.getUint16(offset, le);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values that fit in four bytes are stored in the entry itself
+    const at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = at + k * size;
+      switch (type) {
+        case 3:
+        case 8:
+          values.push(view.getUint16(p, le));
+          break;
+        case 4:
+        case 9:
+          values.push(view.getUint32(p, le));
+          break;
+        default:
+          values.push(view.getUint8(p));
+      }
+    }
+    dir.set(tag, values);
+  }
+  return dir;
+}
+
+function tag(dir: Directory, id: number, fallback: number): number {
+  return dir.get(id)?.[0] ?? fallback;
+}
+
+/**
+ * Undo TIFF LZW: codes are written most significant bit first, and code
+ * width grows one code earlier than in GIF.
+ */
+function lzwDecode(data: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = 9;
+  let next = 258;
+  let prev = -1;
+  let bitPos = 0;
+  let o = 0;
+
+  while (o < expected && bitPos + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) {
+      code = (code << 1) | (((data[bitPos >> 3] ?? 0) >> (7 - (bitPos & 7))) & 1);
+    }
+
+    if (code === 256) {
+      codeSize = 9;
+      next = 258;
+      prev = -1;
+      continue;
+    }
+    if (code === 257 || code > next) break;
+
+    if (prev !== -1 && next < 4096) {
+      prefix[next] = prev;
+      suffix[next] = code === next ? first[prev] ?? 0 : first[code] ?? 0;
+      first[next] = first[prev] ?? 0;
+      length[next] = (length[prev] ?? 0) + 1;
+      next++;
+      if (next === (1 << codeSize) - 1 && codeSize < 12) codeSize++;
+    }
+
+    const len = length[code] ?? 0;
+    let c = code;
+    for (let i = len - 1; i >= 0; i--) {
+      if (o + i < expected) out[o + i] = suffix[c] ?? 0;
+      c = prefix[c] ?? 0;
+    }
+    o += len;
+    prev = code;
+  }
+  return out;
+}
+
+function packBitsDecode(data: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  let pos = 0;
+  let o = 0;
+  while (pos < data.length && o < expected) {
+    const n = ((data[pos++] ?? 0) << 24) >> 24;
+    if (n >= 0) {
+      out.set(data.subarray(pos, pos + n + 1).subarray(0, expected - o), o);
+      o += n + 1;
+      pos += n + 1;
+    } else if (n !== -128) {
+      out.fill(data[pos++] ?? 0, o, Math.min(expected, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decompress a strip or tile into a fresh buffer of exactly `expected`
+ * bytes, zero-padded if the data runs short.
+ */
+async function decompress(
+  chunk: Uint8Array,
+  compression: number,
+  expected: number
+): Promise<Uint8Array> {
+  let bytes: Uint8Array;
+  switch (compression) {
+    case COMPRESSION_NONE:
+      bytes = chunk;
+      break;
+    case COMPRESSION_LZW:
+      return lzwDecode(chunk, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD:
+      bytes = await inflate(chunk);
+      break;
+    case COMPRESSION_PACKBITS:
+      return packBitsDecode(chunk, expected);
+    default:
+      throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+
+  const out = new Uint8Array(expected);
+  out.set(bytes.subarray(0, expected));
+  return out;
+}
+
+/**
+ * Decode the first image of a TIFF: grey, palette, RGB(A) or CMYK, at 1–16
+ * bits per sample, in strips or tiles, uncompressed or with LZW, Deflate
+ * or PackBits. JPEG-compressed and floating point TIFFs aren't supported.
+ */
+export async function decodeTiff(data: Uint8Array): Promise<TiffImage> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const order = String.fromCharCode(data[0] ?? 0, data[1] ?? 0);
+  if ((order !== "II" && order !== "MM") || view.getUint16(2, order === "II") !== 42) {
+    throw new Error("Not a TIFF file");
+  }
+  const le = order === "II";
+  const dir = readDirectory(view, view.getUint32(4, le), le);
+
+  const width = tag(dir, TAG_WIDTH, 0);
+  const height = tag(dir, TAG_HEIGHT, 0);
+  const spp = tag(dir, TAG_SAMPLES_PER_PIXEL, 1);
+  const bits = tag(dir, TAG_BITS_PER_SAMPLE, 1);
+  const compression = tag(dir, TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = tag(dir, TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO);
+  const planar = tag(dir, TAG_PLANAR_CONFIG, 1) === 2;
+  const predictor = tag(dir, TAG_PREDICTOR, 1);
+  const extra = tag(dir, TAG_EXTRA_SAMPLES, 0);
+
+  if (width === 0 || height === 0) throw new Error("TIFF has no image");
+  if (tag(dir, TAG_SAMPLE_FORMAT, 1) === 3) {
+    throw new Error("Floating point TIFFs aren't supported");
+  }
+  if (![1, 2, 4, 8, 16].includes(bits)) {
+    throw new Error(`Unsupported TIFF bit depth ${bits}`);
+  }
+
+  // Strips are tiles as wide as the image
+  const tiled = dir.has(TAG_TILE_OFFSETS);
+  const chunkWidth = tiled ? tag(dir, TAG_TILE_WIDTH, width) : width;
+  const chunkHeight = tiled
+    ? tag(dir, TAG_TILE_LENGTH, height)
+    : Math.min(height, tag(dir, TAG_ROWS_PER_STRIP, height));
+  const offsets = dir.get(tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS) ?? [];
+  const counts = dir.get(tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS) ?? [];
+  const across = Math.ceil(width / chunkWidth);
+  const perPlane = across * Math.ceil(height / chunkHeight);
+
+  const chunkSamples = planar ? 1 : spp;
+  const rowBytes = Math.ceil((chunkWidth * chunkSamples * bits) / 8);
+  const values = new Uint16Array(width * height * spp);
+
+  for (let i = 0; i < offsets.length; i++) {
+    const plane = planar ? Math.floor(i / perPlane) : 0;
+    const index = i % perPlane;
+    const x0 = (index % across) * chunkWidth;
+    const y0 = Math.floor(index / across) * chunkHeight;
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - y0);
+
+    const start = offsets[i] ?? 0;
+    const raw = data.subarray(start, start + (counts[i] ?? 0));
+    const bytes = await decompress(raw, compression, rowBytes * rows);
+
+    if (predictor === 2) {
+      // Horizontal differencing: each sample is stored relative to the
+      // same sample of the pixel to its left
+      for (let y = 0; y < rows; y++) {
+        const row = y * rowBytes;
+        if (bits === 8) {
+          for (let k = chunkSamples; k < chunkWidth * chunkSamples; k++) {
+            bytes[row + k] = ((bytes[row + k] ?? 0) + (bytes[row + k - chunkSamples] ?? 0)) & 0xff;
+          }
+        } else if (bits === 16) {
+          const rowView = new DataView(bytes.buffer, bytes.byteOffset + row, rowBytes);
+          for (let k = chunkSamples; k < chunkWidth * chunkSamples; k++) {
+            const sum = rowView.getUint16(k * 2, le) + rowView.getUint16((k - chunkSamples) * 2, le);
+            rowView.setUint16(k * 2, sum & 0xffff, le);
+          }
+        }
+      }
+    }
+
+    for (let y = 0; y < rows && y0 + y < height; y++) {
+      const row = y * rowBytes;
+      for (let x = 0; x < chunkWidth && x0 + x < width; x++) {
+        for (let s = 0; s < chunkSamples; s++) {
+          const n = x * chunkSamples + s;
+          let value: number;
+          if (bits === 16) {
+            const p = row + n * 2;
+            value = le
+              ? (bytes[p] ?? 0) | ((bytes[p + 1] ?? 0) << 8)
+              : ((bytes[p] ?? 0) << 8) | (bytes[p + 1] ?? 0);
+          } else {
+            const bit = n * bits;
+            value = ((bytes[row + (bit >> 3)] ?? 0) >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+          }
+          values[((y0 + y) * width + x0 + x) * spp + (planar ? plane : s)] = value;
+        }
+      }
+    }
+  }
+
+  const max = (1 << bits) - 1;
+  const scale = (value: number) => Math.round((value * 255) / max);
+  const colorMap = dir.get(TAG_COLOR_MAP);
+  const colorSamples =
+    photometric === PHOTOMETRIC_RGB ? 3 : photometric === PHOTOMETRIC_SEPARATED ? 4 : 1;
+  const hasAlpha =
+    spp > colorSamples && (extra === EXTRA_ASSOCIATED_ALPHA || extra === EXTRA_UNASSOCIATED_ALPHA);
+
+  const raster = createRaster(width, height);
+  const out = raster.data;
+  for (let p = 0; p < width * height; p++) {
+    const v = (k: number) => values[p * spp + k] ?? 0;
+    let r: number;
+    let g: number;
+    let b: number;
+
+    switch (photometric) {
+      case PHOTOMETRIC_WHITE_IS_ZERO:
+        r = g = b = 255 - scale(v(0));
+        break;
+      case PHOTOMETRIC_BLACK_IS_ZERO:
+        r = g = b = scale(v(0));
+        break;
+      case PHOTOMETRIC_RGB:
+        r = scale(v(0));
+        g = scale(v(1));
+        b = scale(v(2));
+        break;
+      case PHOTOMETRIC_PALETTE: {
+        // Three runs of 16-bit values: all reds, all greens, all blues
+        if (!colorMap) throw new Error("Palette TIFF has no colour map");
+        const size = 1 << bits;
+        r = (colorMap[v(0)] ?? 0) >> 8;
+        g = (colorMap[size + v(0)] ?? 0) >> 8;
+        b = (colorMap[2 * size + v(0)] ?? 0) >> 8;
+        break;
+      }
+      case PHOTOMETRIC_SEPARATED: {
+        const k = 1 - v(3) / max;
+        r = Math.round(255 * (1 - v(0) / max) * k);
+        g = Math.round(255 * (1 - v(1) / max) * k);
+        b = Math.round(255 * (1 - v(2) / max) * k);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported TIFF colour type ${photometric}`);
+    }
+
+    let a = 255;
+    if (hasAlpha) {
+      a = scale(v(colorSamples));
+      if (extra === EXTRA_ASSOCIATED_ALPHA && a > 0) {
+        r = Math.min(255, Math.round((r * 255) / a));
+        g = Math.min(255, Math.round((g * 255) / a));
+        b = Math.min(255, Math.round((b * 255) / a));
+      }
+    }
+
+    out[p * 4] = r;
+    out[p * 4 + 1] = g;
+    out[p * 4 + 2] = b;
+    out[p * 4 + 3] = a;
+  }
+
+  return { raster, orientation: tag(dir, TAG_ORIENTATION, 1) };
+}
@@ -0,0 +1,50 @@
+import type { WorkerRequest, WorkerResponse } from "./pool";
+import { setEncoderSupport } from "./formats";
+import { resizeImage } from "./resizer";
+import { perceptualHash } from "./phash";
+
+/**
+ * Entry point of the resize workers started by `ResizePool`. Bundled
+ * separately and inlined into main.js as a string.
+ */
+const scope = self as unknown as {
+  onmessage: ((evt: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = (evt) => {
+  const request = evt.data;
+
+  if (request.type === "init") {
+    setEncoderSupport(request.encoders);
+    return;
+  }
+
+  if (request.type === "hash") {
+    perceptualHash(request.data, request.filename, request.settings).then(
+      (hash) => scope.postMessage({ id: request.id, hash }),
+      (err: unknown) => {
+        scope.postMessage({
+          id: request.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    );
+    return;
+  }
+
+  resizeImage(request.data, request.filename, request.settings, request.edit).then(
+    (result) => {
+      scope.postMessage(
+        { id: request.id, result },
+        result ? [result.data] : []
+      );
+    },
+    (err: unknown) => {
+      scope.postMessage({
+        id: request.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  );
+};
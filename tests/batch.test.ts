@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createBatchJob, runQueue } from "../src/batch";
+
+const paths = ["a.png", "b.png", "c.png", "d.png", "e.png"];
+
+describe("runQueue", () => {
+  it("processes every queued path", async () => {
+    const job = createBatchJob("vault", [...paths]);
+    const seen: string[] = [];
+    await runQueue(
+      job,
+      2,
+      (path) => {
+        seen.push(path);
+        return Promise.resolve(true);
+      },
+      () => false,
+      () => Promise.resolve()
+    );
+    assert.deepEqual(seen.sort(), paths);
+    assert.deepEqual(job.queue, []);
+    assert.equal(job.done, paths.length);
+  });
+
+  it("keeps images interrupted by unloading queued", async () => {
+    const job = createBatchJob("vault", [...paths]);
+    let stopped = false;
+    await runQueue(
+      job,
+      2,
+      (path) => {
+        // The pool is destroyed while b.png is in flight
+        if (path === "b.png") {
+          stopped = true;
+          return Promise.resolve(false);
+        }
+        return Promise.resolve(true);
+      },
+      () => stopped,
+      () => Promise.resolve()
+    );
+    assert.deepEqual(job.queue, ["b.png", "c.png", "d.png", "e.png"]);
+    assert.equal(job.done, 1);
+    assert.deepEqual(job.failed, []);
+  });
+
+  it("counts images that finish after the run is stopped as done", async () => {
+    const job = createBatchJob("vault", [...paths]);
+    let stopped = false;
+    let finishA: (done: boolean) => void = () => {};
+    const run = runQueue(
+      job,
+      2,
+      (path) => {
+        if (path === "a.png") return new Promise((resolve) => (finishA = resolve));
+        stopped = true;
+        return Promise.resolve(false);
+      },
+      () => stopped,
+      () => Promise.resolve()
+    );
+    finishA(true);
+    await run;
+    assert.deepEqual(job.queue, ["b.png", "c.png", "d.png", "e.png"]);
+    assert.equal(job.done, 1);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Raster, createRaster, cropRaster, orientRaster, resample } from "../src/raster";
+import { decodePng, encodePng } from "../src/png";
+import { decodeJpeg, encodeJpeg, estimateJpegQuality } from "../src/jpeg";
+import { readMetadata, transformOrientation, withoutOrientation } from "../src/metadata";
+
+/**
+ * A raster with smooth colour gradients, like a photo, and the given
+ * alpha everywhere.
+ */
+function gradient(width: number, height: number, alpha = 255): Raster {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      raster.data[i] = (x * 255) / Math.max(1, width - 1);
+      raster.data[i + 1] = (y * 255) / Math.max(1, height - 1);
+      raster.data[i + 2] = ((x + y) * 255) / Math.max(1, width + height - 2);
+      raster.data[i + 3] = alpha;
+    }
+  }
+  return raster;
+}
+
+function solid(width: number, height: number, rgba: [number, number, number, number]): Raster {
+  const raster = createRaster(width, height);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data.set(rgba, i);
+  }
+  return raster;
+}
+
+/**
+ * Mean absolute difference of the colour channels of two rasters of the
+ * same size.
+ */
+function meanError(a: Raster, b: Raster): number {
+  let total = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      total += Math.abs((a.data[i + c] ?? 0) - (b.data[i + c] ?? 0));
+    }
+  }
+  return total / ((a.data.length / 4) * 3);
+}
+
+function pixel(raster: Raster, x: number, y: number): number[] {
+  const i = (y * raster.width + x) * 4;
+  return Array.from(raster.data.subarray(i, i + 4));
+}
+
+describe("png", () => {
+  it("round-trips pixels exactly", async () => {
+    const raster = gradient(37, 23, 128);
+    for (const optimize of [false, true]) {
+      const decoded = await decodePng(await encodePng(raster, optimize));
+      assert.equal(decoded.width, 37);
+      assert.equal(decoded.height, 23);
+      assert.deepEqual(decoded.data, raster.data);
+    }
+  });
+
+  it("round-trips images that fit a palette", async () => {
+    const raster = solid(16, 9, [200, 30, 60, 255]);
+    raster.data.set([0, 0, 255, 0], 0);
+    const decoded = await decodePng(await encodePng(raster, true));
+    // Fully transparent pixels may lose their colour, which doesn't show
+    assert.equal(decoded.data[3], 0);
+    assert.deepEqual(decoded.data.subarray(4), raster.data.subarray(4));
+  });
+
+  it("gives the same bytes every time", async () => {
+    const raster = gradient(20, 20);
+    assert.deepEqual(await encodePng(raster, true), await encodePng(raster, true));
+  });
+});
+
+describe("jpeg", () => {
+  it("round-trips close to the original", () => {
+    const raster = gradient(64, 48);
+    const decoded = decodeJpeg(encodeJpeg(raster, 90));
+    assert.equal(decoded.width, 64);
+    assert.equal(decoded.height, 48);
+    assert.ok(meanError(decoded, raster) < 3, "mean error at quality 90");
+  });
+
+  it("loses more at lower quality", () => {
+    const raster = gradient(64, 48);
+    const high = encodeJpeg(raster, 95);
+    const low = encodeJpeg(raster, 30);
+    assert.ok(low.byteLength < high.byteLength);
+    assert.ok(meanError(decodeJpeg(low), raster) >= meanError(decodeJpeg(high), raster));
+  });
+
+  it("reports the quality it was saved at", () => {
+    const raster = gradient(32, 32);
+    for (const quality of [50, 75, 90]) {
+      const estimate = estimateJpegQuality(encodeJpeg(raster, quality));
+      assert.ok(estimate !== null && Math.abs(estimate - quality) <= 1, `quality ${quality}`);
+    }
+  });
+
+  it("handles sizes that aren't a multiple of the block size", () => {
+    const decoded = decodeJpeg(encodeJpeg(gradient(17, 9), 85));
+    assert.equal(decoded.width, 17);
+    assert.equal(decoded.height, 9);
+  });
+
+  it("gives the same bytes every time", () => {
+    const raster = gradient(40, 30);
+    assert.deepEqual(encodeJpeg(raster, 80), encodeJpeg(raster, 80));
+  });
+});
+
+describe("resample", () => {
+  for (const filter of ["lanczos3", "mitchell"] as const) {
+    it(`keeps a solid colour solid with ${filter}`, () => {
+      const out = resample(solid(50, 40, [10, 120, 240, 255]), 13, 7, filter);
+      assert.equal(out.width, 13);
+      assert.equal(out.height, 7);
+      for (let y = 0; y < out.height; y++) {
+        for (let x = 0; x < out.width; x++) {
+          assert.deepEqual(pixel(out, x, y), [10, 120, 240, 255]);
+        }
+      }
+    });
+
+    it(`keeps a gradient in order with ${filter}`, () => {
+      const out = resample(gradient(200, 10), 20, 10, filter);
+      for (let x = 1; x < out.width; x++) {
+        assert.ok((pixel(out, x, 5)[0] ?? 0) >= (pixel(out, x - 1, 5)[0] ?? 0));
+      }
+    });
+  }
+
+  it("doesn't bleed the colour of transparent pixels", () => {
+    const raster = solid(20, 20, [255, 0, 0, 255]);
+    for (let x = 10; x < 20; x++) {
+      for (let y = 0; y < 20; y++) {
+        raster.data.set([0, 255, 0, 0], (y * 20 + x) * 4);
+      }
+    }
+    const out = resample(raster, 10, 10, "lanczos3");
+    const [r, g, , a] = pixel(out, 4, 5);
+    assert.ok((a ?? 0) > 0);
+    assert.equal(g, 0);
+    assert.equal(r, 255);
+  });
+
+  it("returns the same raster at the same size", () => {
+    const raster = gradient(8, 8);
+    assert.equal(resample(raster, 8, 8, "mitchell"), raster);
+  });
+});
+
+describe("orientation", () => {
+  // A 3×2 raster whose red channel numbers the pixels:
+  //   1 2 3
+  //   4 5 6
+  const numbered = createRaster(3, 2);
+  for (let i = 0; i < 6; i++) {
+    numbered.data.set([i + 1, 0, 0, 255], i * 4);
+  }
+
+  function layout(raster: Raster): number[][] {
+    const rows: number[][] = [];
+    for (let y = 0; y < raster.height; y++) {
+      const row: number[] = [];
+      for (let x = 0; x < raster.width; x++) row.push(pixel(raster, x, y)[0] ?? 0);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  const expected: Record<number, number[][]> = {
+    1: [[1, 2, 3], [4, 5, 6]],
+    2: [[3, 2, 1], [6, 5, 4]],
+    3: [[6, 5, 4], [3, 2, 1]],
+    4: [[4, 5, 6], [1, 2, 3]],
+    5: [[1, 4], [2, 5], [3, 6]],
+    6: [[4, 1], [5, 2], [6, 3]],
+    7: [[6, 3], [5, 2], [4, 1]],
+    8: [[3, 6], [2, 5], [1, 4]],
+  };
+
+  for (const [orientation, rows] of Object.entries(expected)) {
+    it(`applies EXIF orientation ${orientation}`, () => {
+      assert.deepEqual(layout(orientRaster(numbered, Number(orientation))), rows);
+    });
+  }
+
+  it("crops after orienting", () => {
+    const turned = orientRaster(numbered, 6);
+    const cropped = cropRaster(turned, { x: 1, y: 1, width: 1, height: 2 });
+    assert.deepEqual(layout(cropped), [[2], [3]]);
+  });
+});
+
+describe("exif orientation", () => {
+  /**
+   * A JPEG with an EXIF block holding only `orientation`, in the given
+   * byte order.
+   */
+  function orientedJpeg(orientation: number, littleEndian: boolean): ArrayBuffer {
+    const tiff = new DataView(new ArrayBuffer(26));
+    tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+    tiff.setUint16(2, 42, littleEndian);
+    tiff.setUint32(4, 8, littleEndian);
+    tiff.setUint16(8, 1, littleEndian);
+    tiff.setUint16(10, 0x0112, littleEndian);
+    tiff.setUint16(12, 3, littleEndian);
+    tiff.setUint32(14, 1, littleEndian);
+    tiff.setUint16(18, orientation, littleEndian);
+
+    const exif = new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0, ...new Uint8Array(tiff.buffer)]);
+    const app1 = new Uint8Array([0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff]);
+    const jpeg = encodeJpeg(gradient(8, 8), 90);
+
+    const out = new Uint8Array(jpeg.length + app1.length + exif.length);
+    out.set(jpeg.subarray(0, 2));
+    out.set(app1, 2);
+    out.set(exif, 2 + app1.length);
+    out.set(jpeg.subarray(2), 2 + app1.length + exif.length);
+    return out.buffer;
+  }
+
+  for (const littleEndian of [false, true]) {
+    it(`reads and clears the orientation (${littleEndian ? "little" : "big"} endian)`, async () => {
+      const data = orientedJpeg(6, littleEndian);
+      const meta = await readMetadata(data);
+      assert.equal(meta.orientation, 6);
+
+      const cleared = withoutOrientation(data, meta);
+      assert.equal((await readMetadata(cleared)).orientation, 1);
+      assert.equal((await readMetadata(data)).orientation, 6, "the original is left alone");
+      assert.deepEqual(decodeJpeg(new Uint8Array(cleared)).data, decodeJpeg(new Uint8Array(data)).data);
+    });
+  }
+
+  it("combines turns and flips with the orientation", () => {
+    const raster = gradient(5, 3);
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const shown = orientRaster(raster, orientation);
+      // A quarter turn clockwise is orientation 6, a horizontal flip 2
+      // and a vertical one 4
+      assert.deepEqual(
+        orientRaster(raster, transformOrientation(orientation, 1, null)).data,
+        orientRaster(shown, 6).data
+      );
+      assert.deepEqual(
+        orientRaster(raster, transformOrientation(orientation, 0, "horizontal")).data,
+        orientRaster(shown, 2).data
+      );
+      assert.deepEqual(
+        orientRaster(raster, transformOrientation(orientation, 0, "vertical")).data,
+        orientRaster(shown, 4).data
+      );
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HistoryAction, HistoryEntry, savedBytes } from "../src/history";
+
+function entry(
+  action: HistoryAction,
+  before: number,
+  after: number,
+  error: string | null = null
+): HistoryEntry {
+  return {
+    time: 0,
+    path: "image.png",
+    source: "command",
+    action,
+    before: { width: 100, height: 100, bytes: before },
+    after: { width: 100, height: 100, bytes: after },
+    fromFormat: "png",
+    toFormat: null,
+    error,
+  };
+}
+
+describe("savedBytes", () => {
+  it("adds up what resizes saved, leaving out failures", () => {
+    const entries = [
+      entry("resize", 1000, 400),
+      entry("optimize", 500, 450),
+      entry("resize", 900, 100, "failed"),
+    ];
+    assert.equal(savedBytes(entries), 650);
+  });
+
+  it("takes back what a restored resize saved", () => {
+    assert.equal(savedBytes([entry("resize", 1000, 400), entry("restore", 400, 1000)]), 0);
+    const entries = [
+      entry("resize", 1000, 400),
+      entry("resize", 800, 300),
+      entry("restore", 400, 1000),
+    ];
+    assert.equal(savedBytes(entries), 500);
+  });
+
+  it("doesn't go below nothing when the resize is older than the entries", () => {
+    assert.equal(savedBytes([entry("restore", 400, 1000)]), 0);
+  });
+});
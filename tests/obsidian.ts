@@ -0,0 +1,18 @@
+/**
+ * What the plugin's modules use from Obsidian when they are loaded, so
+ * their logic can be tested in Node. The classes are only there to be
+ * extended.
+ */
+
+export class App {}
+export class ItemView {}
+export class Modal {}
+export class PluginSettingTab {}
+export class Setting {}
+export class ButtonComponent {}
+export class TFile {}
+export class TFolder {}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
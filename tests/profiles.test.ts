@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { exportProfiles, parseProfiles } from "../src/profiles";
+import { cloneSettings } from "../src/schema";
+import { DEFAULT_SETTINGS } from "../src/settings";
+
+function settings(maxWidth: number) {
+  return { ...cloneSettings(DEFAULT_SETTINGS), maxWidth };
+}
+
+describe("parseProfiles", () => {
+  it("reads back exported profiles", () => {
+    const profiles = [
+      { name: "Archival", settings: settings(0) },
+      { name: "Note-taking", settings: settings(1200) },
+    ];
+    assert.deepEqual(parseProfiles(exportProfiles(profiles)), profiles);
+  });
+
+  it("migrates profiles exported by an older version", () => {
+    const text = JSON.stringify({
+      imageResizerProfiles: 1,
+      profiles: [{ name: "Old", settings: { convertToJpeg: true } }],
+    });
+    const [profile] = parseProfiles(text);
+    assert.equal(profile?.name, "Old");
+    assert.equal(profile?.settings.outputFormats.png, "jpeg");
+  });
+
+  it("rejects files that aren't exported profiles", () => {
+    assert.throws(() => parseProfiles("{"), /isn't valid JSON/);
+    assert.throws(() => parseProfiles("[]"), /isn't an export/);
+    assert.throws(
+      () => parseProfiles(JSON.stringify({ imageResizerProfiles: 1 })),
+      /no list of profiles/
+    );
+  });
+
+  it("rejects files from a newer version", () => {
+    const text = JSON.stringify({ imageResizerProfiles: 2, profiles: [] });
+    assert.throws(() => parseProfiles(text), /newer version/);
+  });
+
+  it("imports nothing if any profile has to be fixed", () => {
+    const text = exportProfiles([
+      { name: "Good", settings: settings(800) },
+      { name: "Bad", settings: { ...settings(800), jpegQuality: 500 } },
+    ]);
+    assert.throws(() => parseProfiles(text), /^Error: profile "Bad": jpegQuality was 500/);
+  });
+
+  it("rejects profiles without a name", () => {
+    const text = exportProfiles([{ name: " ", settings: settings(800) }]);
+    assert.throws(() => parseProfiles(text), /profile 1 has no name/);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SETTINGS_VERSION, checkSettings, upgradeSettings } from "../src/schema";
+import { DEFAULT_SETTINGS } from "../src/settings";
+
+describe("upgradeSettings", () => {
+  it("turns the PNG → JPEG toggle into an output format", () => {
+    const { settings, problems } = upgradeSettings({ convertToJpeg: true }, 0);
+    assert.deepEqual(settings.outputFormats, { ...DEFAULT_SETTINGS.outputFormats, png: "jpeg" });
+    assert.deepEqual(problems, []);
+  });
+
+  it("keeps output formats already set over the old toggle", () => {
+    const { settings } = upgradeSettings(
+      { convertToJpeg: true, outputFormats: { png: "webp" } },
+      0
+    );
+    assert.equal(settings.outputFormats.png, "webp");
+  });
+
+  it("turns the extensions to skip into skip rules after existing ones", () => {
+    const { settings, problems } = upgradeSettings(
+      {
+        skipExtensions: [".GIF", " svg ", "", 3],
+        rules: [{ pattern: "Diagrams/**", maxWidth: 800 }],
+      },
+      1
+    );
+    assert.deepEqual(settings.rules, [
+      { pattern: "Diagrams/**", skip: false, maxWidth: 800 },
+      { pattern: "**/*.gif", skip: true },
+      { pattern: "**/*.svg", skip: true },
+    ]);
+    assert.deepEqual(problems, []);
+  });
+
+  it("runs every step for settings saved before versions were recorded", () => {
+    const { settings, problems } = upgradeSettings(
+      { convertToJpeg: true, skipExtensions: ["gif"] },
+      0
+    );
+    assert.equal(settings.outputFormats.png, "jpeg");
+    assert.deepEqual(settings.rules, [{ pattern: "**/*.gif", skip: true }]);
+    assert.deepEqual(problems, []);
+  });
+
+  it("leaves settings at the current version alone", () => {
+    const { settings, problems } = upgradeSettings(
+      { convertToJpeg: true },
+      SETTINGS_VERSION
+    );
+    assert.deepEqual(settings.outputFormats, DEFAULT_SETTINGS.outputFormats);
+    assert.deepEqual(problems, ["convertToJpeg isn't an option and was removed"]);
+  });
+});
+
+describe("checkSettings", () => {
+  it("gives defaults for missing settings", () => {
+    assert.deepEqual(checkSettings(undefined), { settings: DEFAULT_SETTINGS, problems: [] });
+  });
+
+  it("clamps numbers out of range and rounds fractions", () => {
+    const { settings, problems } = checkSettings({
+      jpegQuality: 150,
+      minScale: 0,
+      maxWidth: 1200.4,
+    });
+    assert.equal(settings.jpegQuality, 100);
+    assert.equal(settings.minScale, 10);
+    assert.equal(settings.maxWidth, 1200);
+    assert.equal(problems.length, 3);
+    assert.match(problems[0] ?? "", /^jpegQuality was 150, not a whole number from 1 to 100/);
+  });
+
+  it("falls back to the default for values of the wrong type", () => {
+    const { settings, problems } = checkSettings({
+      maxHeight: "1080",
+      backgroundColor: "white",
+      keepOriginals: "cloud",
+    });
+    assert.equal(settings.maxHeight, DEFAULT_SETTINGS.maxHeight);
+    assert.equal(settings.backgroundColor, DEFAULT_SETTINGS.backgroundColor);
+    assert.equal(settings.keepOriginals, DEFAULT_SETTINGS.keepOriginals);
+    assert.equal(problems.length, 3);
+  });
+
+  it("falls back to the default for a blank archive folder or name template", () => {
+    const { settings, problems } = checkSettings({ archiveFolder: "  ", fileNameTemplate: "" });
+    assert.equal(settings.archiveFolder, DEFAULT_SETTINGS.archiveFolder);
+    assert.equal(settings.fileNameTemplate, DEFAULT_SETTINGS.fileNameTemplate);
+    assert.equal(problems.length, 2);
+  });
+
+  it("drops rule fields that are invalid and rules without a pattern", () => {
+    const { settings, problems } = checkSettings({
+      rules: [{ pattern: "Scans/**", quality: 0, outputFormat: "tiff" }, { skip: true }],
+    });
+    assert.deepEqual(settings.rules, [{ pattern: "Scans/**", skip: false, quality: 1 }]);
+    assert.equal(problems.length, 1);
+  });
+});
@@ -0,0 +1,10 @@
+// Load TypeScript with jiti. Obsidian's package only has types, so
+// modules that import it get the stand-in in obsidian.ts instead
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+
+process.env.JITI_ALIAS = JSON.stringify({
+  obsidian: fileURLToPath(new URL("./obsidian.ts", import.meta.url)),
+});
+
+await import("jiti/register");